@@ -1,20 +1,67 @@
 
-import React, { useState } from 'react';
-import { Page } from './types';
+import React, { useState, useEffect } from 'react';
+import { Page, AcademicTerm, Supervisor, CustomReportType } from './types';
 import { Dashboard } from './components/Dashboard';
-import { SupervisionModule } from './components/SupervisionModule';
-import { BookCheckingModule } from './components/BookCheckingModule';
-import { WorkCoverageModule } from './components/WorkCoverageModule';
+import { ReportModule } from './components/reports/ReportModule';
+import { REPORT_DESCRIPTORS } from './components/reports/registry';
+import { CustomReportModule } from './components/CustomReportModule';
+import { ReportTypesModule } from './components/ReportTypesModule';
+import { ActionItemsModule } from './components/ActionItemsModule';
 import { Header } from './components/Header';
 import { TeacherManagementModule } from './components/TeacherManagementModule';
 import { TeacherProfilePage } from './components/TeacherProfilePage';
 import { SettingsModule } from './components/SettingsModule';
+import { RecycleBinModule } from './components/RecycleBinModule';
+import { CatalogModule } from './components/CatalogModule';
+import { DepartmentsModule } from './components/DepartmentsModule';
+import { SchemesOfWorkModule } from './components/SchemesOfWorkModule';
+import { LoginScreen } from './components/LoginScreen';
+import { purgeExpiredFromBin } from './utils/recycleBin';
+import { runScheduledRestorePoint } from './utils/restorePoints';
+import { dbTyped } from './utils/db';
+import { ACTIVE_TERM_KEY, ALL_TERMS } from './utils/terms';
+import { getSignedInSupervisorId, signOut } from './utils/supervisors';
+import { CurrentUser, canOpenPage, isAdmin } from './utils/permissions';
+import { useLiveQuery } from './hooks/useLocalStorage';
 
 const App: React.FC = () => {
   const [page, setPage] = useState<Page>(Page.DASHBOARD);
   const [activeTeacherId, setActiveTeacherId] = useState<string | null>(null);
-  const [activeReport, setActiveReport] = useState<{ page: Page; id: string } | null>(null);
+  // followUp opens the form for a new report following up the given one instead of the report itself.
+  const [activeReport, setActiveReport] = useState<{ page: Page; id: string; followUp?: boolean } | null>(null);
   const [teacherToEdit, setTeacherToEdit] = useState<string | null>(null);
+  const [activeCustomTypeId, setActiveCustomTypeId] = useState<string | null>(null);
+  const [selectedTermId, setSelectedTermId] = useState<string | null>(null);
+  const terms = useLiveQuery<AcademicTerm[]>(() => dbTyped.terms.toArray(), []) ?? [];
+  const activeTermId = useLiveQuery<string | undefined>(async () => (await dbTyped.settings.get(ACTIVE_TERM_KEY))?.value, []);
+  const supervisors = useLiveQuery<Supervisor[]>(() => dbTyped.supervisors.toArray(), []);
+  const customReportTypes = useLiveQuery<CustomReportType[]>(() => dbTyped.customReportTypes.toArray(), []) ?? [];
+  const [signedInId, setSignedInId] = useState<string | null>(getSignedInSupervisorId());
+  const signedIn = supervisors?.find(s => s.id === signedInId);
+  // Until the first account is created there is no sign-in and everyone has full access.
+  const user: CurrentUser = signedIn ?? null;
+  const needsSignIn = !!supervisors && supervisors.length > 0 && !signedIn;
+
+  // Until a term is picked in the header, follow the active term set in Settings.
+  const termSelection = selectedTermId ?? activeTermId ?? ALL_TERMS;
+  const selectedTerm = terms.find(t => t.id === termSelection) ?? null;
+
+  // Purging needs an administrator, so it waits until the accounts are loaded and one is signed in.
+  const canPurgeBin = !!supervisors && !needsSignIn && isAdmin(user);
+  useEffect(() => {
+    if (!canPurgeBin) return;
+    purgeExpiredFromBin().catch(error => console.error('Failed to purge expired recycle bin items:', error));
+  }, [canPurgeBin]);
+
+  useEffect(() => {
+    const takeScheduledSnapshot = () => {
+      runScheduledRestorePoint().catch(error => console.error('Failed to create scheduled restore point:', error));
+    };
+    takeScheduledSnapshot();
+    // Check hourly so a long-running session still gets its daily snapshot.
+    const interval = setInterval(takeScheduledSnapshot, 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
 
   const navigateTo = {
     page: (targetPage: Page) => {
@@ -31,37 +78,90 @@ const App: React.FC = () => {
       setActiveReport({ page: targetPage, id: reportId });
       setPage(targetPage);
     },
+    newFromPrevious: (targetPage: Page, reportId: string) => {
+      setActiveReport({ page: targetPage, id: reportId, followUp: true });
+      setPage(targetPage);
+    },
     editTeacher: (teacherId: string) => {
       setTeacherToEdit(teacherId);
       setPage(Page.TEACHERS);
+    },
+    customReports: (reportTypeId: string) => {
+      navigateTo.page(Page.CUSTOM_REPORTS);
+      setActiveCustomTypeId(reportTypeId);
     }
   };
 
   const clearActiveReport = () => setActiveReport(null);
 
+  const activeReportProps = (targetPage: Page) => {
+    const target = activeReport?.page === targetPage ? activeReport : null;
+    return {
+      initialReportIdToShow: target && !target.followUp ? target.id : undefined,
+      initialFollowUpOfId: target?.followUp ? target.id : undefined,
+      onClearActiveReport: clearActiveReport,
+    };
+  };
+
+  const handleSignIn = (supervisor: Supervisor) => {
+    setSignedInId(supervisor.id);
+    navigateTo.page(Page.DASHBOARD);
+  };
+
+  const handleSignOut = () => {
+    signOut();
+    setSignedInId(null);
+  };
+
   const renderPage = () => {
+    if (!canOpenPage(user, page)) {
+      return <Dashboard navigateTo={navigateTo} term={selectedTerm} user={user} />;
+    }
     switch (page) {
       case Page.TEACHERS:
-        return <TeacherManagementModule onViewProfile={navigateTo.teacherProfile} initialTeacherToEditId={teacherToEdit} onClearTeacherToEdit={() => setTeacherToEdit(null)} />;
+        return <TeacherManagementModule user={user} onViewProfile={navigateTo.teacherProfile} initialTeacherToEditId={teacherToEdit} onClearTeacherToEdit={() => setTeacherToEdit(null)} />;
       case Page.TEACHER_PROFILE:
-        return activeTeacherId ? <TeacherProfilePage teacherId={activeTeacherId} onViewReport={navigateTo.report} onNavigate={navigateTo.page} onEditTeacher={navigateTo.editTeacher} /> : <Dashboard navigateTo={navigateTo} />;
+        return activeTeacherId ? <TeacherProfilePage teacherId={activeTeacherId} term={selectedTerm} user={user} onViewReport={navigateTo.report} onNewFromPrevious={navigateTo.newFromPrevious} onNavigate={navigateTo.page} onEditTeacher={navigateTo.editTeacher} /> : <Dashboard navigateTo={navigateTo} term={selectedTerm} user={user} />;
+      // Keyed by page so switching report types starts from a fresh list.
       case Page.SUPERVISION:
-        return <SupervisionModule initialReportIdToShow={activeReport?.page === Page.SUPERVISION ? activeReport.id : undefined} onClearActiveReport={clearActiveReport} />;
+        return <ReportModule key={page} descriptor={REPORT_DESCRIPTORS.supervisionReports} term={selectedTerm} user={user} {...activeReportProps(Page.SUPERVISION)} />;
       case Page.BOOK_CHECKING:
-        return <BookCheckingModule initialReportIdToShow={activeReport?.page === Page.BOOK_CHECKING ? activeReport.id : undefined} onClearActiveReport={clearActiveReport} />;
+        return <ReportModule key={page} descriptor={REPORT_DESCRIPTORS.bookCheckingReports} term={selectedTerm} user={user} {...activeReportProps(Page.BOOK_CHECKING)} />;
       case Page.WORK_COVERAGE:
-        return <WorkCoverageModule initialReportIdToShow={activeReport?.page === Page.WORK_COVERAGE ? activeReport.id : undefined} onClearActiveReport={clearActiveReport} />;
+        return <ReportModule key={page} descriptor={REPORT_DESCRIPTORS.workCoverageReports} term={selectedTerm} user={user} {...activeReportProps(Page.WORK_COVERAGE)} />;
+      case Page.CUSTOM_REPORTS:
+        return activeCustomTypeId ? <CustomReportModule reportTypeId={activeCustomTypeId} term={selectedTerm} user={user} {...activeReportProps(Page.CUSTOM_REPORTS)} /> : <Dashboard navigateTo={navigateTo} term={selectedTerm} user={user} />;
+      case Page.ACTION_ITEMS:
+        return <ActionItemsModule user={user} onViewReport={navigateTo.report} onViewTeacher={navigateTo.teacherProfile} />;
+      case Page.REPORT_TYPES:
+        return <ReportTypesModule />;
       case Page.SETTINGS:
-        return <SettingsModule />;
+        return <SettingsModule user={user} />;
+      case Page.RECYCLE_BIN:
+        return <RecycleBinModule />;
+      case Page.CATALOG:
+        return <CatalogModule />;
+      case Page.DEPARTMENTS:
+        return <DepartmentsModule term={selectedTerm} user={user} />;
+      case Page.SCHEMES_OF_WORK:
+        return <SchemesOfWorkModule term={selectedTerm} user={user} />;
       case Page.DASHBOARD:
       default:
-        return <Dashboard navigateTo={navigateTo} />;
+        return <Dashboard navigateTo={navigateTo} term={selectedTerm} user={user} />;
     }
   };
 
+  if (!supervisors) {
+    return null;
+  }
+
+  if (needsSignIn) {
+    return <LoginScreen supervisors={supervisors} onSignIn={handleSignIn} />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
-      <Header setPage={navigateTo.page} currentPage={page}/>
+      <Header setPage={navigateTo.page} currentPage={page} customReportTypes={customReportTypes} currentCustomTypeId={activeCustomTypeId} onOpenCustomReports={navigateTo.customReports} terms={terms} selectedTermId={selectedTerm ? selectedTerm.id : ALL_TERMS} onSelectTerm={setSelectedTermId} user={user} onSignOut={handleSignOut} />
       <main className="flex-grow p-4 sm:p-6 lg:p-8">
         <div className="max-w-7xl mx-auto">
           {renderPage()}
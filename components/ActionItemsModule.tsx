@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { ActionItem, ActionItemStatus, Page, Teacher } from '../types';
+import { dbTyped, activeRows } from '../utils/db';
+import { ACTION_ITEM_STATUS_LABELS, getActionItems, isOpenActionItem, isOverdue, setActionItemStatus } from '../utils/actionItems';
+import { filterByDepartment, ALL_DEPARTMENTS } from '../utils/departments';
+import { CurrentUser, PermissionError, canWriteReports } from '../utils/permissions';
+import { useLiveQuery } from '../hooks/useLocalStorage';
+import { DepartmentFilter } from './common/DepartmentFilter';
+import { ActionItemStatusBadge } from './common/ActionItemComponents';
+import { REPORT_DESCRIPTORS } from './reports/registry';
+import { SearchIcon, TargetIcon } from './Icons';
+
+// 'unresolved' shows open and in-progress items together, which is what the tracker is for.
+type StatusFilter = ActionItemStatus | 'unresolved' | 'overdue' | 'all';
+
+/**
+ * School-wide list of the action items raised in reports, with their owners, due dates and status.
+ */
+export const ActionItemsModule: React.FC<{
+    user: CurrentUser;
+    onViewReport: (page: Page, reportId: string) => void;
+    onViewTeacher: (teacherId: string) => void;
+}> = ({ user, onViewReport, onViewTeacher }) => {
+    const items = useLiveQuery<ActionItem[]>(getActionItems, []) ?? [];
+    const teachers = useLiveQuery<Teacher[]>(() => activeRows(dbTyped.teachers), []) ?? [];
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('unresolved');
+    const [departmentFilter, setDepartmentFilter] = useState(ALL_DEPARTMENTS);
+    const [searchQuery, setSearchQuery] = useState('');
+    const canChangeStatus = canWriteReports(user);
+
+    const teacherName = (teacherId: string) => teachers.find(t => t.id === teacherId)?.name ?? 'Unknown teacher';
+
+    const filteredItems = useMemo(() => {
+        const query = searchQuery.toLowerCase();
+        return filterByDepartment(items, teachers, departmentFilter)
+            .filter(item => {
+                switch (statusFilter) {
+                    case 'all': return true;
+                    case 'unresolved': return isOpenActionItem(item);
+                    case 'overdue': return isOverdue(item);
+                    default: return item.status === statusFilter;
+                }
+            })
+            .filter(item => !query || item.description.toLowerCase().includes(query) || item.owner.toLowerCase().includes(query) || teacherName(item.teacherId).toLowerCase().includes(query))
+            // Items without a due date come after the dated ones.
+            .sort((a, b) => (a.dueDate || '9999').localeCompare(b.dueDate || '9999') || a.createdAt.localeCompare(b.createdAt));
+    }, [items, teachers, departmentFilter, statusFilter, searchQuery]);
+
+    const handleStatusChange = async (item: ActionItem, status: ActionItemStatus) => {
+        try {
+            await setActionItemStatus(item.id, status);
+        } catch (error) {
+            alert(error instanceof PermissionError ? error.message : 'Failed to update the action item.');
+        }
+    };
+
+    const sourcePage = (item: ActionItem): Page | undefined => REPORT_DESCRIPTORS[item.sourceTable as keyof typeof REPORT_DESCRIPTORS]?.page;
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-3xl font-bold text-gray-800">Action Items</h2>
+                <p className="text-sm text-gray-500">{items.filter(isOverdue).length} overdue &bull; {items.filter(isOpenActionItem).length} unresolved</p>
+            </div>
+
+            <div className="mb-6">
+                <div className="relative rounded-md shadow-sm">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <SearchIcon className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                        type="search"
+                        placeholder="Search by teacher, owner or action..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6 p-4 bg-gray-50 border rounded-lg">
+                <div>
+                    <label htmlFor="statusFilter" className="block text-sm font-medium text-gray-700">Status</label>
+                    <select
+                        id="statusFilter"
+                        value={statusFilter}
+                        onChange={e => setStatusFilter(e.target.value as StatusFilter)}
+                        className="mt-1 block w-full pl-3 pr-10 py-2 text-base text-black border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                    >
+                        <option value="unresolved">Open &amp; In Progress</option>
+                        <option value="overdue">Overdue</option>
+                        {(Object.keys(ACTION_ITEM_STATUS_LABELS) as ActionItemStatus[]).map(status => (
+                            <option key={status} value={status}>{ACTION_ITEM_STATUS_LABELS[status]}</option>
+                        ))}
+                        <option value="all">All</option>
+                    </select>
+                </div>
+                <DepartmentFilter value={departmentFilter} onChange={setDepartmentFilter} />
+            </div>
+
+            <div className="space-y-4">
+                {filteredItems.length > 0 ? filteredItems.map(item => {
+                    const page = sourcePage(item);
+                    return (
+                        <div key={item.id} className="bg-white p-4 rounded-lg shadow-sm flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+                            <div>
+                                <div className="flex items-center space-x-3">
+                                    <ActionItemStatusBadge item={item} />
+                                    <p className="font-semibold text-gray-800">{item.description}</p>
+                                </div>
+                                <p className="text-sm text-gray-500 mt-1">
+                                    <button onClick={() => onViewTeacher(item.teacherId)} className="text-indigo-600 hover:underline">{teacherName(item.teacherId)}</button>
+                                    {' '}&bull; Owner: {item.owner} &bull; Due: {item.dueDate ? new Date(`${item.dueDate}T00:00:00`).toLocaleDateString() : 'No due date'}
+                                </p>
+                                {item.reviewNote && <p className="text-sm text-gray-600 mt-1">Latest note: {item.reviewNote}</p>}
+                            </div>
+                            <div className="flex items-center space-x-2 flex-shrink-0">
+                                {canChangeStatus && (
+                                    <select
+                                        aria-label="Status"
+                                        value={item.status}
+                                        onChange={e => handleStatusChange(item, e.target.value as ActionItemStatus)}
+                                        className="block pl-3 pr-10 py-1 text-sm text-black border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md"
+                                    >
+                                        {(Object.keys(ACTION_ITEM_STATUS_LABELS) as ActionItemStatus[]).map(status => (
+                                            <option key={status} value={status}>{ACTION_ITEM_STATUS_LABELS[status]}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                {page && (
+                                    <button onClick={() => onViewReport(page, item.sourceReportId)} className="px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">View Report</button>
+                                )}
+                            </div>
+                        </div>
+                    );
+                }) : (
+                    <div className="text-center text-gray-500 py-12 bg-gray-50 rounded-lg">
+                        <TargetIcon className="mx-auto h-12 w-12 text-gray-400" />
+                        <h3 className="mt-2 text-lg font-medium">No Action Items Found</h3>
+                        <p className="mt-1 text-sm">Action items are added in supervision and book checking reports.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
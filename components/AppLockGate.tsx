@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { loadAppLock, unlockApp, recoverWithKey, lockApp, getAutoLockMinutes, onAppLockChange, AppLockError, MIN_PASSPHRASE_LENGTH } from '../utils/appLock';
+import { useAppLockStatus } from '../hooks/useAppLockStatus';
+import { FormInput } from './common/ReportComponents';
+import { LockClosedIcon } from './Icons';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'];
+const AUTO_LOCK_CHECK_MS = 15 * 1000;
+
+const UnlockScreen: React.FC = () => {
+    const [mode, setMode] = useState<'passphrase' | 'recovery'>('passphrase');
+    const [passphrase, setPassphrase] = useState('');
+    const [recoveryKey, setRecoveryKey] = useState('');
+    const [newPassphrase, setNewPassphrase] = useState('');
+    const [newPassphraseConfirm, setNewPassphraseConfirm] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const switchMode = (next: 'passphrase' | 'recovery') => {
+        setMode(next);
+        setError(null);
+        setPassphrase('');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (mode === 'recovery' && newPassphrase !== newPassphraseConfirm) {
+            setError('The new passphrases do not match.');
+            return;
+        }
+        setIsWorking(true);
+        try {
+            if (mode === 'passphrase') {
+                await unlockApp(passphrase);
+            } else {
+                await recoverWithKey(recoveryKey, newPassphrase);
+            }
+        } catch (err) {
+            setError(err instanceof AppLockError ? err.message : 'Unlocking failed.');
+            setPassphrase('');
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 flex justify-center items-center p-4">
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-sm animate-fade-in-scale">
+                <div className="p-6 border-b text-center bg-gray-50 rounded-t-lg">
+                    <LockClosedIcon className="w-12 h-12 text-indigo-600 mx-auto" />
+                    <h1 className="mt-3 text-2xl font-bold text-gray-800">Teacher Monitor is locked</h1>
+                    <p className="text-sm text-gray-500">{mode === 'passphrase' ? 'Enter the passphrase to unlock.' : 'Enter the recovery key and choose a new passphrase.'}</p>
+                </div>
+                <div className="p-6 space-y-4">
+                    {mode === 'passphrase' ? (
+                        <FormInput label="Passphrase" id="unlockPassphrase" type="password" value={passphrase} onChange={(e) => { setPassphrase(e.target.value); setError(null); }} autoFocus required />
+                    ) : (
+                        <>
+                            <FormInput label="Recovery Key" id="recoveryKey" value={recoveryKey} onChange={(e) => { setRecoveryKey(e.target.value); setError(null); }} placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX" required />
+                            <FormInput label="New Passphrase" id="recoveryNewPassphrase" type="password" value={newPassphrase} onChange={(e) => { setNewPassphrase(e.target.value); setError(null); }} required />
+                            <FormInput label="Confirm New Passphrase" id="recoveryNewPassphraseConfirm" type="password" value={newPassphraseConfirm} onChange={(e) => { setNewPassphraseConfirm(e.target.value); setError(null); }} required />
+                            <p className="text-xs text-gray-500">At least {MIN_PASSPHRASE_LENGTH} characters. The recovery key keeps working afterwards.</p>
+                        </>
+                    )}
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    <button type="button" onClick={() => switchMode(mode === 'passphrase' ? 'recovery' : 'passphrase')} className="text-xs text-indigo-600 hover:underline">
+                        {mode === 'passphrase' ? 'Forgotten the passphrase? Use the recovery key.' : 'Back to passphrase'}
+                    </button>
+                </div>
+                <div className="p-4 border-t flex justify-end bg-gray-50 rounded-b-lg">
+                    <button type="submit" disabled={isWorking} className="px-6 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50">
+                        {isWorking ? 'Unlocking...' : 'Unlock'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+/**
+ * Loads the app lock before rendering its children, and shows the unlock screen instead of them
+ * while the app is locked. Locking unmounts the app, so no live query runs without the key and
+ * no decrypted data stays on screen.
+ */
+export const AppLockGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [isLoaded, setIsLoaded] = useState(false);
+    const status = useAppLockStatus();
+    const [autoLockMinutes, setAutoLockMinutes] = useState(0);
+
+    useEffect(() => {
+        loadAppLock()
+            .then(() => setIsLoaded(true))
+            .catch(error => console.error('Failed to load the app lock:', error));
+    }, []);
+
+    useEffect(() => onAppLockChange(() => setAutoLockMinutes(getAutoLockMinutes())), []);
+
+    useEffect(() => {
+        if (status !== 'unlocked' || autoLockMinutes <= 0) return;
+        let lastActivity = Date.now();
+        const markActive = () => { lastActivity = Date.now(); };
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+        const timer = window.setInterval(() => {
+            if (Date.now() - lastActivity >= autoLockMinutes * 60 * 1000) lockApp();
+        }, AUTO_LOCK_CHECK_MS);
+        return () => {
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+            window.clearInterval(timer);
+        };
+    }, [status, autoLockMinutes]);
+
+    if (!isLoaded) return null;
+    if (status === 'locked') return <UnlockScreen />;
+    return <>{children}</>;
+};
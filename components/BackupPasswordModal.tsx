@@ -0,0 +1,52 @@
+import React, { useState, FormEvent } from 'react';
+
+export const BackupPasswordModal: React.FC<{
+    fileName: string;
+    error: string | null;
+    isDecrypting: boolean;
+    onSubmit: (password: string) => void;
+    onCancel: () => void;
+}> = ({ fileName, error, isDecrypting, onSubmit, onCancel }) => {
+    const [password, setPassword] = useState('');
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (password) onSubmit(password);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-gray-800 bg-opacity-75 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-md flex flex-col animate-fade-in-scale">
+                <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-lg">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-800">Encrypted Backup</h3>
+                        <p className="text-sm text-gray-500">{fileName}</p>
+                    </div>
+                    <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-900 text-2xl font-bold">&times;</button>
+                </div>
+
+                <div className="p-6 space-y-3">
+                    <label htmlFor="backupPassword" className="block text-sm font-medium text-gray-700">Enter the password used when this backup was exported.</label>
+                    <input
+                        id="backupPassword"
+                        type="password"
+                        autoFocus
+                        value={password}
+                        onChange={e => setPassword(e.target.value)}
+                        className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-black focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    />
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+
+                <div className="p-4 border-t flex justify-end space-x-4 bg-gray-50 rounded-b-lg">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+                        Cancel
+                    </button>
+                    <button type="submit" disabled={isDecrypting || !password} className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+                        {isDecrypting ? 'Decrypting...' : 'Decrypt'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { AppSetting, CatalogMigrationGroup, CatalogMigrationResult } from '../types';
+import { dbTyped } from '../utils/db';
+import { CatalogItem, CatalogTable, CATALOG_LABELS, saveCatalogItem, mergeCatalogItems, deleteCatalogItem, sortByName } from '../utils/catalog';
+import { CATALOG_MIGRATION_KEY } from '../utils/catalogMigration';
+import { createId } from '../utils/ids';
+import { useLiveQuery } from '../hooks/useLocalStorage';
+import { AcademicCapIcon, PencilIcon, TrashIcon, ExclamationTriangleIcon } from './Icons';
+
+const CatalogRow: React.FC<{
+    table: CatalogTable;
+    item: CatalogItem;
+    items: CatalogItem[];
+    note?: string;
+    onError: (message: string) => void;
+}> = ({ table, item, items, note, onError }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [name, setName] = useState(item.name);
+    const [mergeTargetId, setMergeTargetId] = useState('');
+
+    const handleRename = async () => {
+        try {
+            await saveCatalogItem(table, { ...item, name });
+            setIsEditing(false);
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Failed to rename.');
+        }
+    };
+
+    const handleMerge = async () => {
+        const target = items.find(i => i.id === mergeTargetId);
+        if (!target) return;
+        if (window.confirm(`Merge "${item.name}" into "${target.name}"? Teachers and reports using "${item.name}" will be moved to "${target.name}".`)) {
+            try {
+                await mergeCatalogItems(table, item.id, target.id);
+            } catch (err) {
+                onError(err instanceof Error ? err.message : 'Failed to merge.');
+            }
+        }
+        setMergeTargetId('');
+    };
+
+    const handleDelete = async () => {
+        if (!window.confirm(`Delete "${item.name}"?`)) return;
+        try {
+            await deleteCatalogItem(table, item.id);
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Failed to delete.');
+        }
+    };
+
+    return (
+        <li className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            {isEditing ? (
+                <div className="flex items-center space-x-2 flex-grow">
+                    <input
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        className="block w-full px-3 py-1 bg-white border border-gray-300 rounded-md shadow-sm text-black focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    />
+                    <button onClick={handleRename} className="px-3 py-1 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">Save</button>
+                    <button onClick={() => { setIsEditing(false); setName(item.name); }} className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">Cancel</button>
+                </div>
+            ) : (
+                <div>
+                    <p className="font-medium text-gray-800">{item.name}</p>
+                    {note && <p className="text-xs text-gray-500">{note}</p>}
+                </div>
+            )}
+            {!isEditing && (
+                <div className="flex items-center space-x-2">
+                    <select
+                        aria-label={`Merge ${item.name} into`}
+                        value={mergeTargetId}
+                        onChange={e => setMergeTargetId(e.target.value)}
+                        className="pl-3 pr-8 py-1 text-sm text-black border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md"
+                    >
+                        <option value="">Merge into...</option>
+                        {items.filter(i => i.id !== item.id).map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                    </select>
+                    {mergeTargetId && <button onClick={handleMerge} className="px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">Merge</button>}
+                    <button onClick={() => setIsEditing(true)} className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-100 rounded-full" title="Rename">
+                        <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={handleDelete} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full" title="Delete">
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+        </li>
+    );
+};
+
+const CatalogList: React.FC<{ table: CatalogTable; onError: (message: string) => void }> = ({ table, onError }) => {
+    const items = sortByName(useLiveQuery<CatalogItem[]>(() => dbTyped[table].toArray(), [table]) ?? []);
+    const [newName, setNewName] = useState('');
+    const labels = CATALOG_LABELS[table];
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            await saveCatalogItem(table, { id: createId(), name: newName });
+            setNewName('');
+        } catch (err) {
+            onError(err instanceof Error ? err.message : `Failed to add the ${labels.singular.toLowerCase()}.`);
+        }
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-sm">
+            <h3 className="text-xl font-semibold text-gray-800 mb-4 border-b pb-2">{labels.plural} ({items.length})</h3>
+            <form onSubmit={handleAdd} className="flex space-x-2 mb-4">
+                <input
+                    value={newName}
+                    onChange={e => setNewName(e.target.value)}
+                    placeholder={table === 'classes' ? 'e.g., Grade 5A' : 'e.g., Mathematics'}
+                    className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-black placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+                <button type="submit" disabled={!newName.trim()} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 whitespace-nowrap">
+                    Add {labels.singular}
+                </button>
+            </form>
+            {items.length > 0 ? (
+                <ul className="divide-y divide-gray-200">
+                    {items.map(item => <CatalogRow key={item.id} table={table} item={item} items={items} onError={onError} />)}
+                </ul>
+            ) : (
+                <p className="text-sm text-gray-500">No {labels.plural.toLowerCase()} yet.</p>
+            )}
+        </div>
+    );
+};
+
+const MigrationReviewGroup: React.FC<{
+    table: CatalogTable;
+    groups: CatalogMigrationGroup[];
+    onError: (message: string) => void;
+}> = ({ table, groups, onError }) => {
+    const items = sortByName(useLiveQuery<CatalogItem[]>(() => dbTyped[table].toArray(), [table]) ?? []);
+    // Groups whose entry has since been merged away or deleted no longer need review.
+    const remaining = groups.filter(group => items.some(item => item.id === group.id));
+
+    return (
+        <div>
+            <h4 className="font-medium text-gray-800 mb-2">{CATALOG_LABELS[table].plural}</h4>
+            {remaining.length > 0 ? (
+                <ul className="divide-y divide-gray-200 border rounded-md px-4">
+                    {remaining.map(group => (
+                        <CatalogRow
+                            key={group.id}
+                            table={table}
+                            item={items.find(item => item.id === group.id)!}
+                            items={items}
+                            note={group.variants.length > 1 ? `Folded from: ${group.variants.join(', ')}` : `From: ${group.variants[0]}`}
+                            onError={onError}
+                        />
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-sm text-gray-500">Nothing left to review.</p>
+            )}
+        </div>
+    );
+};
+
+export const CatalogModule: React.FC = () => {
+    const migrationSetting = useLiveQuery<AppSetting | undefined>(() => dbTyped.settings.get(CATALOG_MIGRATION_KEY), []);
+    const migration: CatalogMigrationResult | undefined = migrationSetting?.value;
+    const [error, setError] = useState('');
+
+    const showError = (message: string) => {
+        setError(message);
+        setTimeout(() => setError(''), 5000);
+    };
+
+    const handleFinishReview = async () => {
+        await dbTyped.settings.delete(CATALOG_MIGRATION_KEY);
+    };
+
+    return (
+        <div className="space-y-8">
+            <div className="flex items-center">
+                <AcademicCapIcon className="w-8 h-8 text-indigo-600 mr-3" />
+                <h2 className="text-3xl font-bold text-gray-800">Classes & Subjects</h2>
+            </div>
+
+            {error && <div className="p-4 rounded-md bg-red-100 text-red-800">{error}</div>}
+
+            {migration && (
+                <div className="bg-white p-6 rounded-lg shadow-sm space-y-4">
+                    <div className="border-l-4 border-yellow-400 bg-yellow-50 p-4 rounded-r-lg flex">
+                        <ExclamationTriangleIcon className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+                        <div className="ml-3 text-sm text-yellow-800">
+                            <p>
+                                On {new Date(migration.migratedAt).toLocaleString()} the free-text classes and subjects were converted into this catalog.
+                                Spellings that differed only in case, spacing or punctuation were folded together.
+                            </p>
+                            <p className="mt-1">Check the results below. Rename entries, or merge entries that are still the same class or subject under different names (e.g. "G5A" and "Grade 5A"). Teachers were assigned every combination of their old classes and subjects, so review their assignments on the Teachers page too.</p>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <MigrationReviewGroup table="classes" groups={migration.classes} onError={showError} />
+                        <MigrationReviewGroup table="subjects" groups={migration.subjects} onError={showError} />
+                    </div>
+                    <div className="flex justify-end">
+                        <button onClick={handleFinishReview} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">
+                            Mark Review as Complete
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <CatalogList table="classes" onError={showError} />
+                <CatalogList table="subjects" onError={showError} />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,19 @@
+import React, { useMemo } from 'react';
+import { CustomReportType, AcademicTerm } from '../types';
+import { dbTyped } from '../utils/db';
+import { CurrentUser } from '../utils/permissions';
+import { useLiveQuery } from '../hooks/useLocalStorage';
+import { customReportDescriptor } from './reports/custom';
+import { ReportModule } from './reports/ReportModule';
+
+export const CustomReportModule: React.FC<{ reportTypeId: string; term: AcademicTerm | null; user: CurrentUser; initialReportIdToShow?: string; initialFollowUpOfId?: string; onClearActiveReport: () => void; }> = ({ reportTypeId, term, user, initialReportIdToShow, initialFollowUpOfId, onClearActiveReport }) => {
+    const reportType = useLiveQuery<CustomReportType | null>(async () => (await dbTyped.customReportTypes.get(reportTypeId)) ?? null, [reportTypeId]);
+    const descriptor = useMemo(() => (reportType ? customReportDescriptor(reportType) : null), [reportType]);
+
+    if (reportType === undefined) return null;
+    if (!descriptor) {
+        return <p className="text-center text-gray-500 py-8">This report type no longer exists.</p>;
+    }
+    // Keyed by type so switching types in the navigation starts again from the list.
+    return <ReportModule key={reportTypeId} descriptor={descriptor} term={term} user={user} initialReportIdToShow={initialReportIdToShow} initialFollowUpOfId={initialFollowUpOfId} onClearActiveReport={onClearActiveReport} />;
+};
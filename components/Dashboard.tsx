@@ -1,8 +1,13 @@
 
 import React, { useMemo } from 'react';
-import { Page, Teacher, SupervisionReport, BookCheckingReport, WorkCoverageReport } from '../types';
+import { Page, Teacher, SupervisionReport, BookCheckingReport, WorkCoverageReport, AcademicTerm } from '../types';
 import { useLiveQuery } from '../hooks/useLocalStorage';
-import { dbTyped } from '../utils/db';
+import { dbTyped, activeRows, countedReports } from '../utils/db';
+import { filterByTerm, formatTermLabel, termWeek, termWeekCount } from '../utils/terms';
+import { CurrentUser, canWriteReports } from '../utils/permissions';
+import { DepartmentSummary } from './common/DepartmentSummary';
+import { CoverageSummary } from './common/CoverageSummary';
+import { ReportStatusBadge } from './common/ReportComponents';
 import { ClipboardIcon, BookOpenIcon, ChartBarIcon, UserGroupIcon, CalendarIcon, StarIcon } from './Icons';
 
 interface NavigateToProps {
@@ -13,6 +18,9 @@ interface NavigateToProps {
 
 interface DashboardProps {
   navigateTo: NavigateToProps;
+  // Selected in the header; null shows every term.
+  term: AcademicTerm | null;
+  user: CurrentUser;
 }
 
 const StatCard: React.FC<{ title: string; value: string | number; icon: React.ReactNode; }> = ({ title, value, icon }) => (
@@ -34,11 +42,22 @@ const ReportTypeBadge: React.FC<{ type: 'Supervision' | 'Book Checking' | 'Work
     return <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${colors[type]}`}>{type}</span>;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ navigateTo }) => {
-    const teachers = useLiveQuery<Teacher[]>(() => dbTyped.teachers.toArray(), []) ?? [];
-    const supervisionReports = useLiveQuery<SupervisionReport[]>(() => dbTyped.supervisionReports.toArray(), []) ?? [];
-    const bookCheckingReports = useLiveQuery<BookCheckingReport[]>(() => dbTyped.bookCheckingReports.toArray(), []) ?? [];
-    const workCoverageReports = useLiveQuery<WorkCoverageReport[]>(() => dbTyped.workCoverageReports.toArray(), []) ?? [];
+// e.g. "5 / 12", clamped to the term so past and future terms read as finished or not started.
+const formatTermWeek = (term: AcademicTerm) => {
+    const totalWeeks = termWeekCount(term);
+    const currentWeek = termWeek(term, new Date().toISOString().split('T')[0]);
+    return `${Math.min(Math.max(currentWeek, 0), totalWeeks)} / ${totalWeeks}`;
+};
+
+export const Dashboard: React.FC<DashboardProps> = ({ navigateTo, term, user }) => {
+    const teachers = useLiveQuery<Teacher[]>(() => activeRows(dbTyped.teachers), []) ?? [];
+    const allSupervisionReports = useLiveQuery<SupervisionReport[]>(() => activeRows(dbTyped.supervisionReports), []) ?? [];
+    const allBookCheckingReports = useLiveQuery<BookCheckingReport[]>(() => activeRows(dbTyped.bookCheckingReports), []) ?? [];
+    const allWorkCoverageReports = useLiveQuery<WorkCoverageReport[]>(() => activeRows(dbTyped.workCoverageReports), []) ?? [];
+
+    const supervisionReports = useMemo(() => filterByTerm(countedReports(allSupervisionReports), term), [allSupervisionReports, term]);
+    const bookCheckingReports = useMemo(() => filterByTerm(countedReports(allBookCheckingReports), term), [allBookCheckingReports, term]);
+    const workCoverageReports = useMemo(() => filterByTerm(countedReports(allWorkCoverageReports), term), [allWorkCoverageReports, term]);
 
     const stats = useMemo(() => {
         const allReports = [...supervisionReports, ...bookCheckingReports, ...workCoverageReports];
@@ -69,16 +88,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ navigateTo }) => {
     }, [supervisionReports, bookCheckingReports, workCoverageReports]);
     
     const teachersToReview = useMemo(() => {
-        const reportCounts: { [teacherName: string]: number } = {};
+        const reportCounts: { [teacherId: string]: number } = {};
 
         [...supervisionReports, ...bookCheckingReports, ...workCoverageReports].forEach(report => {
-            reportCounts[report.teacherName] = (reportCounts[report.teacherName] || 0) + 1;
+            reportCounts[report.teacherId] = (reportCounts[report.teacherId] || 0) + 1;
         });
 
         return teachers
             .map(teacher => ({
                 ...teacher,
-                reportCount: reportCounts[teacher.name] || 0,
+                reportCount: reportCounts[teacher.id] || 0,
             }))
             .sort((a, b) => a.reportCount - b.reportCount || a.name.localeCompare(b.name))
             .slice(0, 5);
@@ -90,16 +109,36 @@ export const Dashboard: React.FC<DashboardProps> = ({ navigateTo }) => {
         <div className="space-y-8">
             <div>
                 <h2 className="text-3xl font-extrabold text-gray-900">Dashboard</h2>
-                <p className="mt-1 text-lg text-gray-600">Overview of all monitoring activities.</p>
+                <p className="mt-1 text-lg text-gray-600">{term ? `Overview of monitoring activities in ${formatTermLabel(term)}.` : 'Overview of all monitoring activities.'}</p>
             </div>
             
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
                 <StatCard title="Total Teachers" value={stats.totalTeachers} icon={<UserGroupIcon className="w-6 h-6" />} />
                 <StatCard title="Total Reports" value={stats.totalReports} icon={<ClipboardIcon className="w-6 h-6" />} />
-                <StatCard title="Reports This Month" value={stats.reportsThisMonth} icon={<CalendarIcon className="w-6 h-6" />} />
+                {term ? (
+                    <StatCard title="Week of Term" value={formatTermWeek(term)} icon={<CalendarIcon className="w-6 h-6" />} />
+                ) : (
+                    <StatCard title="Reports This Month" value={stats.reportsThisMonth} icon={<CalendarIcon className="w-6 h-6" />} />
+                )}
                 <StatCard title="Avg. Supervision Rating" value={stats.averageRating} icon={<StarIcon className="w-6 h-6" />} />
             </div>
 
+            <div className="bg-white p-6 rounded-lg shadow-sm">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-xl font-semibold text-gray-800">Departments</h3>
+                    <button onClick={() => navigateTo.page(Page.DEPARTMENTS)} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">Manage departments</button>
+                </div>
+                <DepartmentSummary term={term} />
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-xl font-semibold text-gray-800">Syllabus Coverage</h3>
+                    <button onClick={() => navigateTo.page(Page.SCHEMES_OF_WORK)} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">Manage schemes of work</button>
+                </div>
+                <CoverageSummary reports={workCoverageReports} showTeacher onViewReport={reportId => navigateTo.report(Page.WORK_COVERAGE, reportId)} />
+            </div>
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                 <div className="lg:col-span-2 bg-white p-6 rounded-lg shadow-sm">
                     <h3 className="text-xl font-semibold text-gray-800 mb-4">Recent Activity</h3>
@@ -110,6 +149,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ navigateTo }) => {
                                     <div className="flex items-center space-x-3">
                                         <ReportTypeBadge type={report.type as any} />
                                         <p className="text-sm font-medium text-indigo-600 truncate">{report.teacherName}</p>
+                                        <ReportStatusBadge status={report.status} />
                                     </div>
                                     <p className="text-sm text-gray-500 mt-1">
                                         {report.subject} &bull; {new Date(report.date).toLocaleDateString()}
@@ -128,7 +168,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ navigateTo }) => {
                 </div>
 
                 <div className="space-y-8">
-                    <div className="bg-white p-6 rounded-lg shadow-sm">
+                    {canWriteReports(user) && <div className="bg-white p-6 rounded-lg shadow-sm">
                         <h3 className="text-xl font-semibold text-gray-800 mb-4">Quick Actions</h3>
                         <div className="space-y-3">
                              <button onClick={() => navigateTo.page(Page.SUPERVISION)} className="w-full flex items-center p-3 text-left rounded-md hover:bg-gray-100 transition-colors">
@@ -144,10 +184,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ navigateTo }) => {
                                 <span className="font-medium text-gray-700">New Work Coverage Report</span>
                              </button>
                         </div>
-                    </div>
+                    </div>}
                     <div className="bg-white p-6 rounded-lg shadow-sm">
                         <h3 className="text-xl font-semibold text-gray-800 mb-4">Teachers to Review</h3>
-                        <p className="text-sm text-gray-500 mb-4">These teachers have the fewest reports on record.</p>
+                        <p className="text-sm text-gray-500 mb-4">{term ? 'These teachers have the fewest reports this term.' : 'These teachers have the fewest reports on record.'}</p>
                          <ul className="divide-y divide-gray-200">
                             {teachersToReview.length > 0 ? teachersToReview.map(teacher => (
                                 <li key={teacher.id} className="py-3 flex items-center justify-between">
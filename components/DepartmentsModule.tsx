@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { AcademicTerm, Department, Teacher } from '../types';
+import { dbTyped, activeRows } from '../utils/db';
+import { saveDepartment, deleteDepartment } from '../utils/departments';
+import { formatTermLabel } from '../utils/terms';
+import { sortByName } from '../utils/catalog';
+import { CurrentUser, PermissionError, isAdmin } from '../utils/permissions';
+import { createId } from '../utils/ids';
+import { useLiveQuery } from '../hooks/useLocalStorage';
+import { FormInput, FormSelect } from './common/ReportComponents';
+import { DepartmentSummary } from './common/DepartmentSummary';
+import { BuildingOfficeIcon, PencilIcon, TrashIcon, PlusIcon } from './Icons';
+
+const DepartmentForm: React.FC<{
+    initialData?: Department;
+    teachers: Teacher[];
+    departments: Department[];
+    onSaved: () => void;
+    onCancel: () => void;
+}> = ({ initialData, teachers, departments, onSaved, onCancel }) => {
+    const [name, setName] = useState(initialData?.name || '');
+    const [headTeacherId, setHeadTeacherId] = useState(initialData?.headTeacherId || '');
+    const [memberIds, setMemberIds] = useState<string[]>(
+        initialData ? teachers.filter(t => t.departmentId === initialData.id).map(t => t.id) : []
+    );
+    const [error, setError] = useState('');
+
+    const toggleMember = (teacherId: string) => {
+        setMemberIds(prev => prev.includes(teacherId) ? prev.filter(id => id !== teacherId) : [...prev, teacherId]);
+        if (teacherId === headTeacherId) setHeadTeacherId('');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = name.trim();
+        if (!trimmed) {
+            setError('Department name is required.');
+            return;
+        }
+        if (departments.some(d => d.id !== initialData?.id && d.name.toLowerCase() === trimmed.toLowerCase())) {
+            setError(`A department called "${trimmed}" already exists.`);
+            return;
+        }
+        try {
+            await saveDepartment({
+                id: initialData?.id || createId(),
+                name: trimmed,
+                headTeacherId: headTeacherId || undefined,
+            }, memberIds);
+            onSaved();
+        } catch (err) {
+            console.error('Failed to save department:', err);
+            setError(err instanceof PermissionError ? err.message : 'Failed to save the department.');
+        }
+    };
+
+    const departmentName = (id?: string) => departments.find(d => d.id === id)?.name;
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-sm space-y-6">
+            <h3 className="text-xl font-semibold text-gray-800 border-b pb-2">{initialData ? 'Edit Department' : 'New Department'}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                    <FormInput label="Department Name" id="departmentName" value={name} onChange={(e) => { setName(e.target.value); setError(''); }} placeholder="e.g., Sciences" required />
+                    {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+                </div>
+                <FormSelect label="Head of Department" id="headTeacherId" value={headTeacherId} onChange={(e) => setHeadTeacherId(e.target.value)}>
+                    <option value="">No head of department</option>
+                    {teachers.filter(t => memberIds.includes(t.id)).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </FormSelect>
+            </div>
+            <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Members</h4>
+                {teachers.length > 0 ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 max-h-72 overflow-y-auto border rounded-md p-3">
+                        {teachers.map(teacher => {
+                            const otherDepartment = teacher.departmentId !== initialData?.id ? departmentName(teacher.departmentId) : undefined;
+                            return (
+                                <label key={teacher.id} className="flex items-start space-x-2 text-sm text-gray-700">
+                                    <input type="checkbox" checked={memberIds.includes(teacher.id)} onChange={() => toggleMember(teacher.id)} className="mt-1 h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                                    <span>
+                                        {teacher.name}
+                                        {otherDepartment && <span className="block text-xs text-gray-500">Currently in {otherDepartment}</span>}
+                                    </span>
+                                </label>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-500">Add teachers first to give the department members.</p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">A teacher belongs to one department, so ticking a teacher from another department moves them here.</p>
+            </div>
+            <div className="flex justify-end space-x-4">
+                <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">Cancel</button>
+                <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700">Save Department</button>
+            </div>
+        </form>
+    );
+};
+
+export const DepartmentsModule: React.FC<{ term: AcademicTerm | null; user: CurrentUser }> = ({ term, user }) => {
+    const departments = sortByName<Department>(useLiveQuery<Department[]>(() => dbTyped.departments.toArray(), []) ?? []);
+    const teachers = sortByName<Teacher>(useLiveQuery<Teacher[]>(() => activeRows(dbTyped.teachers), []) ?? []);
+    const [editing, setEditing] = useState<Department | 'new' | null>(null);
+    const canManage = isAdmin(user);
+
+    const handleDelete = async (department: Department) => {
+        if (!window.confirm(`Delete the "${department.name}" department? Its teachers will be kept without a department.`)) return;
+        try {
+            await deleteDepartment(department.id);
+        } catch (err) {
+            alert(err instanceof PermissionError ? err.message : 'Failed to delete the department.');
+        }
+    };
+
+    const handleSelectDepartment = (departmentId: string) => {
+        setEditing(departments.find(d => d.id === departmentId) ?? null);
+    };
+
+    if (editing) {
+        return (
+            <DepartmentForm
+                initialData={editing === 'new' ? undefined : editing}
+                teachers={teachers}
+                departments={departments}
+                onSaved={() => setEditing(null)}
+                onCancel={() => setEditing(null)}
+            />
+        );
+    }
+
+    return (
+        <div className="space-y-8">
+            <div className="flex justify-between items-center">
+                <div className="flex items-center">
+                    <BuildingOfficeIcon className="w-8 h-8 text-indigo-600 mr-3" />
+                    <h2 className="text-3xl font-bold text-gray-800">Departments</h2>
+                </div>
+                {canManage && (
+                    <button onClick={() => setEditing('new')} className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700">
+                        <PlusIcon className="w-5 h-5 mr-2" />
+                        Add Department
+                    </button>
+                )}
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm">
+                <h3 className="text-xl font-semibold text-gray-800 mb-1">Department Dashboard</h3>
+                <p className="text-sm text-gray-500 mb-4">
+                    {term ? `Observations and work coverage in ${formatTermLabel(term)}.` : 'Observations and work coverage across all terms.'} Work coverage counts each teacher's latest book check.
+                </p>
+                <DepartmentSummary term={term} onSelectDepartment={canManage ? handleSelectDepartment : undefined} />
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm">
+                <h3 className="text-xl font-semibold text-gray-800 mb-4 border-b pb-2">All Departments ({departments.length})</h3>
+                {departments.length > 0 ? (
+                    <ul className="divide-y divide-gray-200">
+                        {departments.map(department => {
+                            const members = teachers.filter(t => t.departmentId === department.id);
+                            const head = members.find(t => t.id === department.headTeacherId);
+                            return (
+                                <li key={department.id} className="py-3 flex items-center justify-between">
+                                    <div>
+                                        <p className="font-medium text-gray-800">{department.name}</p>
+                                        <p className="text-sm text-gray-600">
+                                            <span className="font-medium">Head:</span> {head ? head.name : 'Not set'} &bull; {members.length} teacher(s)
+                                        </p>
+                                    </div>
+                                    {canManage && <div className="flex items-center space-x-2">
+                                        <button onClick={() => setEditing(department)} className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-100 rounded-full" title="Edit">
+                                            <PencilIcon className="w-5 h-5" />
+                                        </button>
+                                        <button onClick={() => handleDelete(department)} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full" title="Delete">
+                                            <TrashIcon className="w-5 h-5" />
+                                        </button>
+                                    </div>}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-500">No departments yet. Group teachers into departments to filter lists and compare departments.</p>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,22 +1,67 @@
 
 import React from 'react';
-import { Page } from '../types';
-import { HomeIcon, ClipboardIcon, BookOpenIcon, ChartBarIcon, UserGroupIcon, SettingsIcon } from './Icons';
+import { Page, AcademicTerm, CustomReportType } from '../types';
+import { CurrentUser, canOpenPage } from '../utils/permissions';
+import { SUPERVISOR_ROLE_LABELS } from '../utils/supervisors';
+import { ALL_TERMS, formatTermLabel, sortTerms } from '../utils/terms';
+import { lockApp } from '../utils/appLock';
+import { useAppLockStatus } from '../hooks/useAppLockStatus';
+import { HomeIcon, ClipboardIcon, BookOpenIcon, ChartBarIcon, UserGroupIcon, SettingsIcon, TrashIcon, AcademicCapIcon, BuildingOfficeIcon, LockClosedIcon, DocumentTextIcon, TargetIcon, CalendarIcon } from './Icons';
 
 interface HeaderProps {
   setPage: (page: Page) => void;
   currentPage: Page;
+  customReportTypes: CustomReportType[];
+  currentCustomTypeId: string | null;
+  onOpenCustomReports: (reportTypeId: string) => void;
+  terms: AcademicTerm[];
+  selectedTermId: string;
+  onSelectTerm: (termId: string) => void;
+  user: CurrentUser;
+  onSignOut: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ setPage, currentPage }) => {
-  const navItems = [
+// Every custom report type shares one page, so items are keyed by page and report type.
+interface NavItem {
+  page: Page;
+  reportTypeId?: string;
+  label: string;
+  icon: React.ReactNode;
+}
+
+export const Header: React.FC<HeaderProps> = ({ setPage, currentPage, customReportTypes, currentCustomTypeId, onOpenCustomReports, terms, selectedTermId, onSelectTerm, user, onSignOut }) => {
+  const isLockEnabled = useAppLockStatus() !== 'disabled';
+  const navItems = ([
     { page: Page.DASHBOARD, label: 'Dashboard', icon: <HomeIcon className="w-5 h-5 mr-2" /> },
     { page: Page.TEACHERS, label: 'Teachers', icon: <UserGroupIcon className="w-5 h-5 mr-2" /> },
+    { page: Page.DEPARTMENTS, label: 'Departments', icon: <BuildingOfficeIcon className="w-5 h-5 mr-2" /> },
+    { page: Page.CATALOG, label: 'Classes & Subjects', icon: <AcademicCapIcon className="w-5 h-5 mr-2" /> },
     { page: Page.SUPERVISION, label: 'Supervision', icon: <ClipboardIcon className="w-5 h-5 mr-2" /> },
     { page: Page.BOOK_CHECKING, label: 'Book Checking', icon: <BookOpenIcon className="w-5 h-5 mr-2" /> },
     { page: Page.WORK_COVERAGE, label: 'Work Coverage', icon: <ChartBarIcon className="w-5 h-5 mr-2" /> },
+    { page: Page.SCHEMES_OF_WORK, label: 'Schemes of Work', icon: <CalendarIcon className="w-5 h-5 mr-2" /> },
+    ...customReportTypes
+      .filter(type => !type.archived)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(type => ({ page: Page.CUSTOM_REPORTS, reportTypeId: type.id, label: type.name, icon: <DocumentTextIcon className="w-5 h-5 mr-2" /> })),
+    { page: Page.ACTION_ITEMS, label: 'Action Items', icon: <TargetIcon className="w-5 h-5 mr-2" /> },
+    { page: Page.REPORT_TYPES, label: 'Report Types', icon: <DocumentTextIcon className="w-5 h-5 mr-2" /> },
+    { page: Page.RECYCLE_BIN, label: 'Recycle Bin', icon: <TrashIcon className="w-5 h-5 mr-2" /> },
     { page: Page.SETTINGS, label: 'Settings', icon: <SettingsIcon className="w-5 h-5 mr-2" /> },
-  ];
+  ] as NavItem[]).filter(item => canOpenPage(user, item.page))
+    .map(item => ({ ...item, key: item.reportTypeId ? `${item.page}:${item.reportTypeId}` : item.page }));
+
+  const currentKey = currentPage === Page.CUSTOM_REPORTS ? `${currentPage}:${currentCustomTypeId}` : currentPage;
+
+  const openItem = (key: string) => {
+    const item = navItems.find(i => i.key === key);
+    if (!item) return;
+    if (item.reportTypeId) {
+      onOpenCustomReports(item.reportTypeId);
+    } else {
+      setPage(item.page);
+    }
+  };
 
   return (
     <header className="bg-white shadow-md sticky top-0 z-10">
@@ -24,14 +69,25 @@ export const Header: React.FC<HeaderProps> = ({ setPage, currentPage }) => {
         <div className="flex items-center justify-between h-16">
           <div className="flex items-center">
             <h1 className="text-2xl font-bold text-gray-800">Teacher Monitor</h1>
+            {terms.length > 0 && (
+              <select
+                aria-label="Academic term"
+                value={selectedTermId}
+                onChange={(e) => onSelectTerm(e.target.value)}
+                className="ml-4 pl-3 pr-10 py-1 text-sm text-black border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md"
+              >
+                <option value={ALL_TERMS}>All Terms</option>
+                {sortTerms(terms).map(term => <option key={term.id} value={term.id}>{formatTermLabel(term)}</option>)}
+              </select>
+            )}
           </div>
           <nav className="hidden md:flex items-center space-x-4">
             {navItems.map(item => (
               <button
-                key={item.page}
-                onClick={() => setPage(item.page)}
+                key={item.key}
+                onClick={() => openItem(item.key)}
                 className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors duration-150 ${
-                  currentPage === item.page
+                  currentKey === item.key
                     ? 'bg-indigo-600 text-white'
                     : 'text-gray-600 hover:bg-gray-200 hover:text-gray-900'
                 }`}
@@ -43,13 +99,29 @@ export const Header: React.FC<HeaderProps> = ({ setPage, currentPage }) => {
           </nav>
            <div className="md:hidden">
               <select 
-                onChange={(e) => setPage(e.target.value as Page)}
-                value={currentPage}
+                onChange={(e) => openItem(e.target.value)}
+                value={currentKey}
                 className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
               >
-                {navItems.map(item => <option key={item.page} value={item.page}>{item.label}</option>)}
+                {navItems.map(item => <option key={item.key} value={item.key}>{item.label}</option>)}
               </select>
            </div>
+          {isLockEnabled && (
+            <button onClick={lockApp} className="ml-4 p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-100 rounded-full" title="Lock now">
+              <LockClosedIcon className="w-5 h-5" />
+            </button>
+          )}
+          {user && (
+            <div className="flex items-center ml-4 pl-4 border-l">
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-800">{user.name}</p>
+                <p className="text-xs text-gray-500">{SUPERVISOR_ROLE_LABELS[user.role]}</p>
+              </div>
+              <button onClick={onSignOut} className="ml-3 px-3 py-1 text-sm font-medium text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200">
+                Sign Out
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </header>
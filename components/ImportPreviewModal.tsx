@@ -0,0 +1,135 @@
+import React from 'react';
+import { ImportPreview, BackupInfo, BACKUP_TABLE_LABELS } from '../utils/backup';
+import { ExclamationTriangleIcon } from './Icons';
+
+export const BackupInfoSummary: React.FC<{ info: BackupInfo }> = ({ info }) => (
+    <div className="text-sm text-gray-600 bg-gray-50 border rounded-md p-3">
+        <p>
+            {info.formatVersion === 0 ? 'Legacy backup (unversioned)' : `Backup format v${info.formatVersion}`}
+            {info.appVersion && <> &bull; app {info.appVersion}</>}
+            {' '}&bull; database schema v{info.schemaVersion}
+            {info.exportedAt && <> &bull; exported {new Date(info.exportedAt).toLocaleString()}</>}
+        </p>
+        {info.upgradesApplied.length > 0 && (
+            <div className="mt-2">
+                <p className="font-medium text-gray-700">Upgraded to the current format:</p>
+                <ul className="list-disc list-inside">
+                    {info.upgradesApplied.map(step => <li key={step}>{step}</li>)}
+                </ul>
+            </div>
+        )}
+    </div>
+);
+
+export const ImportPreviewModal: React.FC<{
+    preview: ImportPreview;
+    info: BackupInfo;
+    fileName: string;
+    title?: string;
+    isImporting: boolean;
+    onConfirm: () => void;
+    onCancel: () => void;
+}> = ({ preview, info, fileName, title = 'Import Preview', isImporting, onConfirm, onCancel }) => {
+    const totalValid = preview.tables.reduce((acc, t) => acc + t.valid, 0);
+    const totalExisting = preview.tables.reduce((acc, t) => acc + t.existing, 0);
+
+    return (
+        <div className="fixed inset-0 bg-gray-800 bg-opacity-75 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col animate-fade-in-scale">
+                <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-lg">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-800">{title}</h3>
+                        <p className="text-sm text-gray-500">{fileName}</p>
+                    </div>
+                    <button onClick={onCancel} className="text-gray-500 hover:text-gray-900 text-2xl font-bold">&times;</button>
+                </div>
+
+                <div className="flex-grow overflow-y-auto p-6 space-y-6">
+                    <div className="border-l-4 border-yellow-400 bg-yellow-50 p-4 rounded-r-lg flex">
+                        <ExclamationTriangleIcon className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+                        <p className="ml-3 text-sm text-yellow-800">
+                            Nothing has been written yet. Importing will replace all {totalExisting} existing record(s) with the {totalValid} valid record(s) below.
+                        </p>
+                    </div>
+
+                    <BackupInfoSummary info={info} />
+
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-500 border-b">
+                                <th className="py-2 pr-4 font-medium">Table</th>
+                                <th className="py-2 pr-4 font-medium text-right">In File</th>
+                                <th className="py-2 pr-4 font-medium text-right">Valid</th>
+                                <th className="py-2 pr-4 font-medium text-right">Invalid</th>
+                                <th className="py-2 pr-4 font-medium text-right">ID Collisions</th>
+                                <th className="py-2 font-medium text-right">Currently Stored</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {preview.tables.map(t => (
+                                <tr key={t.table}>
+                                    <td className="py-2 pr-4 font-medium text-gray-800">{BACKUP_TABLE_LABELS[t.table]}</td>
+                                    <td className="py-2 pr-4 text-right">{t.total}</td>
+                                    <td className="py-2 pr-4 text-right text-green-700">{t.valid}</td>
+                                    <td className={`py-2 pr-4 text-right ${t.invalid > 0 ? 'text-red-600 font-semibold' : ''}`}>{t.invalid}</td>
+                                    <td className={`py-2 pr-4 text-right ${t.collisions.length > 0 ? 'text-yellow-700 font-semibold' : ''}`}>{t.collisions.length}</td>
+                                    <td className="py-2 text-right text-gray-500">{t.existing}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    {preview.tables.some(t => t.collisions.length > 0) && (
+                        <div>
+                            <h4 className="font-medium text-gray-800 mb-2">ID Collisions</h4>
+                            <p className="text-sm text-gray-500 mb-2">These records share an ID with a record already stored. The stored version will be replaced.</p>
+                            <ul className="text-sm text-gray-700 space-y-1">
+                                {preview.tables.filter(t => t.collisions.length > 0).map(t => (
+                                    <li key={t.table}>
+                                        <span className="font-medium">{BACKUP_TABLE_LABELS[t.table]}:</span> {t.collisions.join(', ')}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {preview.invalidRecords.length > 0 && (
+                        <div>
+                            <h4 className="font-medium text-red-700 mb-2">Invalid Records ({preview.invalidRecords.length})</h4>
+                            <p className="text-sm text-gray-500 mb-2">These records will be skipped.</p>
+                            <ul className="text-sm divide-y divide-gray-200 border rounded-md">
+                                {preview.invalidRecords.map(r => (
+                                    <li key={`${r.table}-${r.index}`} className="p-2">
+                                        <p className="font-medium text-gray-800">{BACKUP_TABLE_LABELS[r.table]} #{r.index + 1} <span className="text-gray-500">({r.key})</span></p>
+                                        <p className="text-red-600">{r.reasons.join('; ')}</p>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {preview.keptTables.length > 0 && (
+                        <p className="text-sm text-gray-500">Kept as they are: {preview.keptTables.map(table => BACKUP_TABLE_LABELS[table]).join(', ')}</p>
+                    )}
+
+                    {preview.unknownTables.length > 0 && (
+                        <p className="text-sm text-gray-500">Ignored unrecognised sections: {preview.unknownTables.join(', ')}</p>
+                    )}
+                </div>
+
+                <div className="p-4 border-t flex justify-end space-x-4 bg-gray-50 rounded-b-lg">
+                    <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={onConfirm}
+                        disabled={isImporting || totalValid === 0}
+                        className="px-4 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                    >
+                        {isImporting ? 'Importing...' : `Replace Data with ${totalValid} Record(s)`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Supervisor } from '../types';
+import { signIn, PinError, SUPERVISOR_ROLE_LABELS } from '../utils/supervisors';
+import { sortByName } from '../utils/catalog';
+import { FormInput, FormSelect } from './common/ReportComponents';
+import { LogoIcon } from './Icons';
+
+export const LoginScreen: React.FC<{
+    supervisors: Supervisor[];
+    onSignIn: (supervisor: Supervisor) => void;
+}> = ({ supervisors, onSignIn }) => {
+    const [supervisorId, setSupervisorId] = useState('');
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSigningIn, setIsSigningIn] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!supervisorId || !pin) return;
+        setIsSigningIn(true);
+        try {
+            onSignIn(await signIn(supervisorId, pin));
+        } catch (err) {
+            setError(err instanceof PinError ? err.message : 'Sign-in failed.');
+            setPin('');
+        } finally {
+            setIsSigningIn(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 flex justify-center items-center p-4">
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl w-full max-w-sm animate-fade-in-scale">
+                <div className="p-6 border-b text-center bg-gray-50 rounded-t-lg">
+                    <LogoIcon className="w-12 h-12 text-indigo-600 mx-auto" />
+                    <h1 className="mt-3 text-2xl font-bold text-gray-800">Teacher Monitor</h1>
+                    <p className="text-sm text-gray-500">Sign in to continue.</p>
+                </div>
+                <div className="p-6 space-y-4">
+                    <FormSelect label="Supervisor" id="supervisorId" value={supervisorId} onChange={(e) => { setSupervisorId(e.target.value); setError(null); }} required>
+                        <option value="">Select your name</option>
+                        {sortByName<Supervisor>(supervisors).map(s => <option key={s.id} value={s.id}>{s.name} ({SUPERVISOR_ROLE_LABELS[s.role]})</option>)}
+                    </FormSelect>
+                    <FormInput label="PIN" id="pin" type="password" value={pin} onChange={(e) => { setPin(e.target.value); setError(null); }} required />
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    <p className="text-xs text-gray-500">Forgotten your PIN? Ask an administrator to set a new one.</p>
+                </div>
+                <div className="p-4 border-t flex justify-end bg-gray-50 rounded-b-lg">
+                    <button type="submit" disabled={isSigningIn || !supervisorId || !pin} className="px-6 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50">
+                        {isSigningIn ? 'Signing in...' : 'Sign In'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
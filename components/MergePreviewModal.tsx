@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { ImportPreview, BackupInfo, BACKUP_TABLE_LABELS } from '../utils/backup';
+import { BackupInfoSummary } from './ImportPreviewModal';
+import { MergePlan, MergeConflict, ConflictResolution, MERGE_TABLES, conflictKey, canKeepBoth } from '../utils/merge';
+import { diffRecords, formatFieldName, formatFieldValue } from '../utils/audit';
+import { formatTermLabel } from '../utils/terms';
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+    mine: 'Keep mine',
+    theirs: 'Keep theirs',
+    both: 'Keep both',
+};
+
+const describeRecord = (record: any) => record.academicYear ? formatTermLabel(record) : record.name ?? `${record.teacherName} - ${record.subject} (${record.date})`;
+
+const formatModified = (record: any) => record.updatedAt ? new Date(record.updatedAt).toLocaleString() : 'unknown';
+
+const ConflictCard: React.FC<{
+    conflict: MergeConflict;
+    resolution: ConflictResolution;
+    onResolve: (resolution: ConflictResolution) => void;
+}> = ({ conflict, resolution, onResolve }) => {
+    const changes = diffRecords(conflict.mine, conflict.theirs);
+    // Only reports and ID collisions can be kept twice. A duplicate of the same teacher, class, subject
+    // or department would split its imported records from the local ones, and a term would overlap itself.
+    const options: ConflictResolution[] = canKeepBoth(conflict) ? ['mine', 'theirs', 'both'] : ['mine', 'theirs'];
+
+    return (
+        <div className="border rounded-lg p-4 bg-gray-50">
+            <div className="flex justify-between items-start mb-3">
+                <div>
+                    <p className="font-medium text-gray-800">{describeRecord(conflict.mine)}</p>
+                    <p className="text-xs text-gray-500">{BACKUP_TABLE_LABELS[conflict.table]} &bull; ID {conflict.id}</p>
+                    {conflict.idCollision && (
+                        <p className="text-xs text-yellow-700 mt-1">Same ID, but these look like two different records ({describeRecord(conflict.theirs)} in the file). Keeping both gives the imported copy a new ID.</p>
+                    )}
+                    {conflict.closedReport && (
+                        <p className="text-xs text-yellow-700 mt-1">This report is closed here. Keeping theirs replaces the signed-off report without an amendment.</p>
+                    )}
+                </div>
+                <div className="flex space-x-1">
+                    {options.map(option => (
+                        <button
+                            key={option}
+                            onClick={() => onResolve(option)}
+                            className={`px-3 py-1 text-xs font-medium rounded-md border ${resolution === option ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+                        >
+                            {RESOLUTION_LABELS[option]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-gray-500">
+                        <th className="py-1 pr-4 font-medium w-1/4">Field</th>
+                        <th className="py-1 pr-4 font-medium">Mine <span className="font-normal">(modified {formatModified(conflict.mine)})</span></th>
+                        <th className="py-1 font-medium">Theirs <span className="font-normal">(modified {formatModified(conflict.theirs)})</span></th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {Boolean(conflict.mine.deletedAt) !== Boolean(conflict.theirs.deletedAt) && (
+                        <tr className="align-top">
+                            <td className="py-2 pr-4 font-medium text-gray-700">Status</td>
+                            <td className="py-2 pr-4">{conflict.mine.deletedAt ? 'In recycle bin' : 'Active'}</td>
+                            <td className="py-2">{conflict.theirs.deletedAt ? 'In recycle bin' : 'Active'}</td>
+                        </tr>
+                    )}
+                    {changes.map(change => (
+                        <tr key={change.field} className="align-top">
+                            <td className="py-2 pr-4 font-medium text-gray-700">{formatFieldName(change.field)}</td>
+                            <td className="py-2 pr-4 whitespace-pre-wrap">{formatFieldValue(change.before)}</td>
+                            <td className="py-2 whitespace-pre-wrap">{formatFieldValue(change.after)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export const MergePreviewModal: React.FC<{
+    preview: ImportPreview;
+    plan: MergePlan;
+    info: BackupInfo;
+    fileName: string;
+    isImporting: boolean;
+    onConfirm: (resolutions: Record<string, ConflictResolution>) => void;
+    onCancel: () => void;
+}> = ({ preview, plan, info, fileName, isImporting, onConfirm, onCancel }) => {
+    const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>(() =>
+        Object.fromEntries(plan.conflicts.map(c => [conflictKey(c), (c.idCollision ? 'both' : 'mine') as ConflictResolution]))
+    );
+
+    const setAll = (resolution: ConflictResolution) => {
+        setResolutions(Object.fromEntries(plan.conflicts.map(c => [
+            conflictKey(c),
+            resolution === 'both' && !canKeepBoth(c) ? 'mine' : resolution,
+        ])));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-gray-800 bg-opacity-75 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col animate-fade-in-scale">
+                <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-lg">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-800">Merge Preview</h3>
+                        <p className="text-sm text-gray-500">{fileName}</p>
+                    </div>
+                    <button onClick={onCancel} className="text-gray-500 hover:text-gray-900 text-2xl font-bold">&times;</button>
+                </div>
+
+                <div className="flex-grow overflow-y-auto p-6 space-y-6">
+                    <p className="text-sm text-gray-600">
+                        Nothing has been written yet. Records are matched by ID; your school settings are kept and only missing settings are added.
+                    </p>
+
+                    <BackupInfoSummary info={info} />
+
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-500 border-b">
+                                <th className="py-2 pr-4 font-medium">Table</th>
+                                <th className="py-2 pr-4 font-medium text-right">New</th>
+                                <th className="py-2 pr-4 font-medium text-right">Updated</th>
+                                <th className="py-2 pr-4 font-medium text-right">Kept Local</th>
+                                <th className="py-2 pr-4 font-medium text-right">Unchanged</th>
+                                <th className="py-2 font-medium text-right">Conflicts</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {MERGE_TABLES.map(table => {
+                                const s = plan.summary[table];
+                                return (
+                                    <tr key={table}>
+                                        <td className="py-2 pr-4 font-medium text-gray-800">{BACKUP_TABLE_LABELS[table]}</td>
+                                        <td className="py-2 pr-4 text-right text-green-700">{s.added}</td>
+                                        <td className="py-2 pr-4 text-right text-blue-700">{s.updated}</td>
+                                        <td className="py-2 pr-4 text-right">{s.keptLocal}</td>
+                                        <td className="py-2 pr-4 text-right text-gray-500">{s.unchanged}</td>
+                                        <td className={`py-2 text-right ${s.conflicts > 0 ? 'text-yellow-700 font-semibold' : ''}`}>{s.conflicts}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+
+                    {preview.invalidRecords.length > 0 && (
+                        <p className="text-sm text-red-600">{preview.invalidRecords.length} invalid record(s) in the file will be skipped.</p>
+                    )}
+
+                    {plan.conflicts.length > 0 && (
+                        <div className="space-y-4">
+                            <div className="flex justify-between items-center">
+                                <h4 className="font-medium text-gray-800">Conflicts ({plan.conflicts.length})</h4>
+                                <div className="space-x-2 text-sm">
+                                    <span className="text-gray-500">Apply to all:</span>
+                                    {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(option => (
+                                        <button key={option} onClick={() => setAll(option)} className="text-indigo-600 hover:underline">{RESOLUTION_LABELS[option]}</button>
+                                    ))}
+                                </div>
+                            </div>
+                            <p className="text-sm text-gray-500">These records were changed both here and in the imported file since the last merge, share an ID with a different record, or are reports closed here that the file would change.</p>
+                            {plan.conflicts.map(conflict => (
+                                <ConflictCard
+                                    key={conflictKey(conflict)}
+                                    conflict={conflict}
+                                    resolution={resolutions[conflictKey(conflict)]}
+                                    onResolve={(resolution) => setResolutions(prev => ({ ...prev, [conflictKey(conflict)]: resolution }))}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-4 border-t flex justify-end space-x-4 bg-gray-50 rounded-b-lg">
+                    <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onConfirm(resolutions)}
+                        disabled={isImporting}
+                        className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                        {isImporting ? 'Merging...' : 'Merge Data'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
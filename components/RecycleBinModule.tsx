@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { Teacher, SupervisionReport, BookCheckingReport, WorkCoverageReport, CustomReport } from '../types';
+import { dbTyped } from '../utils/db';
+import { restoreFromBin, purgeFromBin, emptyBin, RecycleBinTable } from '../utils/recycleBin';
+import { createRestorePoint } from '../utils/restorePoints';
+import { useLiveQuery } from '../hooks/useLocalStorage';
+import { TrashIcon } from './Icons';
+
+type Deleted<T> = T & { deletedAt: string };
+
+interface BinItem {
+    table: RecycleBinTable;
+    id: string;
+    title: string;
+    subtitle: string;
+    deletedAt: string;
+}
+
+const TYPE_LABELS: Record<RecycleBinTable, string> = {
+    teachers: 'Teacher',
+    supervisionReports: 'Supervision',
+    bookCheckingReports: 'Book Checking',
+    workCoverageReports: 'Work Coverage',
+    customReports: 'Custom',
+};
+
+const TYPE_COLORS: Record<RecycleBinTable, string> = {
+    teachers: 'bg-gray-200 text-gray-800',
+    supervisionReports: 'bg-blue-100 text-blue-800',
+    bookCheckingReports: 'bg-green-100 text-green-800',
+    workCoverageReports: 'bg-yellow-100 text-yellow-800',
+    customReports: 'bg-purple-100 text-purple-800',
+};
+
+const deletedRows = <T,>(table: RecycleBinTable) => () =>
+    dbTyped[table].where('deletedAt').above('').toArray() as Promise<Deleted<T>[]>;
+
+export const RecycleBinModule: React.FC = () => {
+    const teachers = useLiveQuery(deletedRows<Teacher>('teachers'), []) ?? [];
+    const supervisionReports = useLiveQuery(deletedRows<SupervisionReport>('supervisionReports'), []) ?? [];
+    const bookCheckingReports = useLiveQuery(deletedRows<BookCheckingReport>('bookCheckingReports'), []) ?? [];
+    const workCoverageReports = useLiveQuery(deletedRows<WorkCoverageReport>('workCoverageReports'), []) ?? [];
+    const customReports = useLiveQuery(deletedRows<CustomReport>('customReports'), []) ?? [];
+    const [typeFilter, setTypeFilter] = useState<RecycleBinTable | 'all'>('all');
+
+    const items = useMemo(() => {
+        const reportItem = (table: RecycleBinTable) => (r: Deleted<SupervisionReport | BookCheckingReport | WorkCoverageReport | CustomReport>): BinItem => ({
+            table,
+            id: r.id,
+            title: `${r.teacherName} - ${r.subject}`,
+            subtitle: `Class: ${r.className} • Report date: ${new Date(r.date).toLocaleDateString()}`,
+            deletedAt: r.deletedAt,
+        });
+
+        const all: BinItem[] = [
+            ...teachers.map(t => ({
+                table: 'teachers' as const,
+                id: t.id,
+                title: t.name,
+                subtitle: `${t.assignments.length} class assignment(s)`,
+                deletedAt: t.deletedAt,
+            })),
+            ...supervisionReports.map(reportItem('supervisionReports')),
+            ...bookCheckingReports.map(reportItem('bookCheckingReports')),
+            ...workCoverageReports.map(reportItem('workCoverageReports')),
+            ...customReports.map(reportItem('customReports')),
+        ];
+
+        return all
+            .filter(item => typeFilter === 'all' || item.table === typeFilter)
+            .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    }, [teachers, supervisionReports, bookCheckingReports, workCoverageReports, customReports, typeFilter]);
+
+    const handleRestore = async (item: BinItem) => {
+        try {
+            await restoreFromBin(item.table, item.id);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : 'Failed to restore the item.');
+        }
+    };
+
+    const handlePurge = async (item: BinItem) => {
+        if (window.confirm(`Permanently delete "${item.title}"? This action cannot be undone.`)) {
+            try {
+                await purgeFromBin(item.table, item.id);
+            } catch (err) {
+                alert(err instanceof Error ? err.message : 'Failed to delete the item.');
+            }
+        }
+    };
+
+    const handleEmptyBin = async () => {
+        if (window.confirm(`Permanently delete all ${items.length} item(s) shown? This action cannot be undone.`)) {
+            try {
+                await createRestorePoint('before-bulk-delete', `Emptied ${items.length} item(s) from the recycle bin`);
+                const keptTeachers = await emptyBin(items);
+                if (keptTeachers > 0) {
+                    alert(`${keptTeachers} teacher(s) were kept because they still have reports. Delete those reports permanently first.`);
+                }
+            } catch (err) {
+                alert(err instanceof Error ? err.message : 'Failed to empty the recycle bin.');
+            }
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-3xl font-bold text-gray-800">Recycle Bin</h2>
+                <button
+                    onClick={handleEmptyBin}
+                    disabled={items.length === 0}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+                >
+                    <TrashIcon className="w-5 h-5 mr-2" />
+                    Empty Bin ({items.length})
+                </button>
+            </div>
+
+            <div className="mb-6 p-4 bg-gray-50 border rounded-lg sm:w-1/3">
+                <label htmlFor="typeFilter" className="block text-sm font-medium text-gray-700">Item Type</label>
+                <select
+                    id="typeFilter"
+                    value={typeFilter}
+                    onChange={e => setTypeFilter(e.target.value as RecycleBinTable | 'all')}
+                    className="mt-1 block w-full pl-3 pr-10 py-2 text-base text-black border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                >
+                    <option value="all">All Items</option>
+                    {(Object.keys(TYPE_LABELS) as RecycleBinTable[]).map(table => (
+                        <option key={table} value={table}>{TYPE_LABELS[table]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="space-y-4">
+                {items.length > 0 ? items.map(item => (
+                    <div key={`${item.table}-${item.id}`} className="bg-white p-4 rounded-lg shadow-sm flex justify-between items-center">
+                        <div>
+                            <div className="flex items-center space-x-3">
+                                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${TYPE_COLORS[item.table]}`}>{TYPE_LABELS[item.table]}</span>
+                                <p className="font-semibold text-gray-800">{item.title}</p>
+                            </div>
+                            <p className="text-sm text-gray-500 mt-1">{item.subtitle}</p>
+                            <p className="text-xs text-gray-400 mt-1">Deleted {new Date(item.deletedAt).toLocaleString()}</p>
+                        </div>
+                        <div className="space-x-2 flex-shrink-0">
+                            <button onClick={() => handleRestore(item)} className="px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">Restore</button>
+                            <button onClick={() => handlePurge(item)} className="px-3 py-1 text-sm font-medium text-red-700 bg-red-100 rounded-md hover:bg-red-200">Delete Forever</button>
+                        </div>
+                    </div>
+                )) : (
+                    <div className="text-center text-gray-500 py-12 bg-gray-50 rounded-lg">
+                        <TrashIcon className="mx-auto h-12 w-12 text-gray-400" />
+                        <h3 className="mt-2 text-lg font-medium">The Recycle Bin is Empty</h3>
+                        <p className="mt-1 text-sm">Deleted teachers and reports will appear here until they are purged.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { CustomFieldDefinition, CustomFieldType, CustomReportType } from '../types';
+import { dbTyped } from '../utils/db';
+import { CUSTOM_FIELD_TYPE_LABELS, DEFAULT_MAX_RATING, MAX_RATING_LIMIT, saveCustomReportType, deleteCustomReportType, setCustomReportTypeArchived } from '../utils/customReports';
+import { createId } from '../utils/ids';
+import { useLiveQuery } from '../hooks/useLocalStorage';
+import { DocumentTextIcon, PencilIcon, PlusIcon, TrashIcon } from './Icons';
+
+const inputClass = "block w-full px-3 py-1 bg-white border border-gray-300 rounded-md shadow-sm text-black focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+const newField = (): CustomFieldDefinition => ({ id: createId(), label: '', type: 'text', required: false });
+
+const newReportType = (): CustomReportType => ({ id: createId(), name: '', description: '', fields: [newField()] });
+
+const FieldEditor: React.FC<{
+    field: CustomFieldDefinition;
+    index: number;
+    count: number;
+    onChange: (field: CustomFieldDefinition) => void;
+    onMove: (offset: number) => void;
+    onRemove: () => void;
+}> = ({ field, index, count, onChange, onMove, onRemove }) => (
+    <li className="p-4 border rounded-md bg-gray-50 space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-6 gap-3 items-end">
+            <div className="sm:col-span-3">
+                <label className="block text-xs font-medium text-gray-600">Label</label>
+                <input value={field.label} onChange={e => onChange({ ...field, label: e.target.value })} placeholder="e.g., Lesson Introduction" className={inputClass} />
+            </div>
+            <div className="sm:col-span-2">
+                <label className="block text-xs font-medium text-gray-600">Type</label>
+                <select value={field.type} onChange={e => onChange({ ...field, type: e.target.value as CustomFieldType })} className={inputClass}>
+                    {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>)}
+                </select>
+            </div>
+            <label className="flex items-center text-sm text-gray-700">
+                <input type="checkbox" checked={field.required} onChange={e => onChange({ ...field, required: e.target.checked })} className="h-4 w-4 mr-2 text-indigo-600 border-gray-300 rounded" />
+                Required
+            </label>
+        </div>
+        {(field.type === 'text' || field.type === 'textarea') && (
+            <div>
+                <label className="block text-xs font-medium text-gray-600">Placeholder (optional)</label>
+                <input value={field.placeholder ?? ''} onChange={e => onChange({ ...field, placeholder: e.target.value })} className={inputClass} />
+            </div>
+        )}
+        {field.type === 'select' && (
+            <div>
+                <label className="block text-xs font-medium text-gray-600">Options (one per line)</label>
+                <textarea
+                    value={(field.options ?? []).join('\n')}
+                    onChange={e => onChange({ ...field, options: e.target.value.split('\n') })}
+                    rows={3}
+                    className={inputClass}
+                />
+            </div>
+        )}
+        {field.type === 'rating' && (
+            <div className="w-32">
+                <label className="block text-xs font-medium text-gray-600">Number of stars</label>
+                <input type="number" min={2} max={MAX_RATING_LIMIT} value={field.maxRating ?? DEFAULT_MAX_RATING} onChange={e => onChange({ ...field, maxRating: Number(e.target.value) })} className={inputClass} />
+            </div>
+        )}
+        <div className="flex justify-end space-x-2">
+            <button type="button" onClick={() => onMove(-1)} disabled={index === 0} className="px-2 py-1 text-sm text-gray-600 bg-white border rounded-md hover:bg-gray-100 disabled:opacity-50" title="Move up">↑</button>
+            <button type="button" onClick={() => onMove(1)} disabled={index === count - 1} className="px-2 py-1 text-sm text-gray-600 bg-white border rounded-md hover:bg-gray-100 disabled:opacity-50" title="Move down">↓</button>
+            <button type="button" onClick={onRemove} disabled={count === 1} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full disabled:opacity-50" title="Remove field">
+                <TrashIcon className="w-4 h-4" />
+            </button>
+        </div>
+    </li>
+);
+
+const ReportTypeForm: React.FC<{
+    initialData: CustomReportType;
+    onDone: () => void;
+}> = ({ initialData, onDone }) => {
+    const [draft, setDraft] = useState<CustomReportType>(initialData);
+    const [error, setError] = useState('');
+
+    const updateField = (index: number, field: CustomFieldDefinition) => {
+        setDraft(prev => ({ ...prev, fields: prev.fields.map((f, i) => (i === index ? field : f)) }));
+    };
+
+    const moveField = (index: number, offset: number) => {
+        setDraft(prev => {
+            const fields = [...prev.fields];
+            [fields[index], fields[index + offset]] = [fields[index + offset], fields[index]];
+            return { ...prev, fields };
+        });
+    };
+
+    const removeField = (index: number) => {
+        setDraft(prev => ({ ...prev, fields: prev.fields.filter((_, i) => i !== index) }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            await saveCustomReportType(draft);
+            onDone();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the report type.');
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-sm space-y-6">
+            <h3 className="text-xl font-semibold text-gray-800 border-b pb-2">{initialData.name ? `Edit ${initialData.name}` : 'New Report Type'}</h3>
+            {error && <div className="p-4 rounded-md bg-red-100 text-red-800">{error}</div>}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Name</label>
+                    <input value={draft.name} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} placeholder="e.g., Lesson Plan Review" className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">Description (optional)</label>
+                    <input value={draft.description ?? ''} onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))} className={inputClass} />
+                </div>
+            </div>
+            <div>
+                <h4 className="font-medium text-gray-800 mb-2">Fields</h4>
+                <p className="text-sm text-gray-500 mb-3">Every report also records the teacher, class, subject and date.</p>
+                <ul className="space-y-3">
+                    {draft.fields.map((field, index) => (
+                        <FieldEditor
+                            key={field.id}
+                            field={field}
+                            index={index}
+                            count={draft.fields.length}
+                            onChange={f => updateField(index, f)}
+                            onMove={offset => moveField(index, offset)}
+                            onRemove={() => removeField(index)}
+                        />
+                    ))}
+                </ul>
+                <button type="button" onClick={() => setDraft(prev => ({ ...prev, fields: [...prev.fields, newField()] }))} className="mt-3 inline-flex items-center px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">
+                    <PlusIcon className="w-4 h-4 mr-1" /> Add Field
+                </button>
+            </div>
+            <div className="flex justify-end space-x-4 pt-4 border-t">
+                <button type="button" onClick={onDone} className="px-6 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">Cancel</button>
+                <button type="submit" className="px-6 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">Save Report Type</button>
+            </div>
+        </form>
+    );
+};
+
+export const ReportTypesModule: React.FC = () => {
+    const reportTypes = useLiveQuery<CustomReportType[]>(() => dbTyped.customReportTypes.toArray(), []) ?? [];
+    const reportCounts = useLiveQuery<Record<string, number>>(async () => {
+        const reports: { reportTypeId: string }[] = await dbTyped.customReports.toArray();
+        return reports.reduce((acc, r) => {
+            acc[r.reportTypeId] = (acc[r.reportTypeId] ?? 0) + 1;
+            return acc;
+        }, {} as Record<string, number>);
+    }, []) ?? {};
+    const [editing, setEditing] = useState<CustomReportType | null>(null);
+    const [error, setError] = useState('');
+
+    const showError = (message: string) => {
+        setError(message);
+        setTimeout(() => setError(''), 5000);
+    };
+
+    const handleArchive = async (reportType: CustomReportType) => {
+        try {
+            await setCustomReportTypeArchived(reportType.id, !reportType.archived);
+        } catch (err) {
+            showError(err instanceof Error ? err.message : 'Failed to update the report type.');
+        }
+    };
+
+    const handleDelete = async (reportType: CustomReportType) => {
+        if (!window.confirm(`Delete the report type "${reportType.name}"?`)) return;
+        try {
+            await deleteCustomReportType(reportType.id);
+        } catch (err) {
+            showError(err instanceof Error ? err.message : 'Failed to delete the report type.');
+        }
+    };
+
+    if (editing) {
+        return <ReportTypeForm key={editing.id} initialData={editing} onDone={() => setEditing(null)} />;
+    }
+
+    const sorted = [...reportTypes].sort((a, b) => a.name.localeCompare(b.name));
+
+    return (
+        <div className="space-y-8">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                    <DocumentTextIcon className="w-8 h-8 text-indigo-600 mr-3" />
+                    <h2 className="text-3xl font-bold text-gray-800">Report Types</h2>
+                </div>
+                <button onClick={() => setEditing(newReportType())} className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">
+                    <PlusIcon className="w-5 h-5 mr-2" /> New Report Type
+                </button>
+            </div>
+
+            {error && <div className="p-4 rounded-md bg-red-100 text-red-800">{error}</div>}
+
+            <div className="bg-white p-6 rounded-lg shadow-sm">
+                <p className="text-sm text-gray-500 mb-4">Custom report types appear in the navigation next to the built-in reports. Archive a type to stop new reports while keeping the existing ones.</p>
+                {sorted.length > 0 ? (
+                    <ul className="divide-y divide-gray-200">
+                        {sorted.map(reportType => (
+                            <li key={reportType.id} className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                                <div>
+                                    <p className="font-medium text-gray-800">
+                                        {reportType.name}
+                                        {reportType.archived && <span className="ml-2 px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-200 rounded-full">Archived</span>}
+                                    </p>
+                                    <p className="text-xs text-gray-500">
+                                        {reportType.fields.length} field(s), {reportCounts[reportType.id] ?? 0} report(s)
+                                        {reportType.description && ` — ${reportType.description}`}
+                                    </p>
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                    <button onClick={() => handleArchive(reportType)} className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">
+                                        {reportType.archived ? 'Unarchive' : 'Archive'}
+                                    </button>
+                                    <button onClick={() => setEditing(reportType)} className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-100 rounded-full" title="Edit">
+                                        <PencilIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => handleDelete(reportType)} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full" title="Delete">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-500">No custom report types yet.</p>
+                )}
+            </div>
+        </div>
+    );
+};
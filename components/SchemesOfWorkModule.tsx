@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { AcademicTerm, SchemeOfWork, SchemeTopic, SchoolClass, Subject, WorkCoverageReport } from '../types';
+import { dbTyped, activeRows, countedReports } from '../utils/db';
+import { deleteSchemeOfWork, formatWeeksBehind, latestCoverage, saveSchemeOfWork } from '../utils/schemesOfWork';
+import { formatTermLabel, sortTerms } from '../utils/terms';
+import { sortByName } from '../utils/catalog';
+import { CurrentUser, isAdmin } from '../utils/permissions';
+import { createId } from '../utils/ids';
+import { useLiveQuery } from '../hooks/useLocalStorage';
+import { FormSelect } from './common/ReportComponents';
+import { CalendarIcon, PencilIcon, PlusIcon, TrashIcon } from './Icons';
+
+const inputClass = "block w-full px-3 py-1 bg-white border border-gray-300 rounded-md shadow-sm text-black focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+const newTopic = (plannedWeek = 1): SchemeTopic => ({ id: createId(), title: '', plannedWeek });
+
+const newScheme = (termId: string): SchemeOfWork => ({ id: createId(), classId: '', subjectId: '', termId, topics: [newTopic()] });
+
+const SchemeForm: React.FC<{
+    initialData: SchemeOfWork;
+    classes: SchoolClass[];
+    subjects: Subject[];
+    terms: AcademicTerm[];
+    onDone: () => void;
+}> = ({ initialData, classes, subjects, terms, onDone }) => {
+    const [draft, setDraft] = useState<SchemeOfWork>(initialData);
+    const [error, setError] = useState('');
+
+    const updateTopic = (index: number, topic: SchemeTopic) => {
+        setDraft(prev => ({ ...prev, topics: prev.topics.map((t, i) => (i === index ? topic : t)) }));
+    };
+
+    const moveTopic = (index: number, offset: number) => {
+        setDraft(prev => {
+            const topics = [...prev.topics];
+            [topics[index], topics[index + offset]] = [topics[index + offset], topics[index]];
+            return { ...prev, topics };
+        });
+    };
+
+    const removeTopic = (index: number) => {
+        setDraft(prev => ({ ...prev, topics: prev.topics.filter((_, i) => i !== index) }));
+    };
+
+    // A new topic usually follows the last one a week later.
+    const addTopic = () => {
+        setDraft(prev => ({ ...prev, topics: [...prev.topics, newTopic((prev.topics[prev.topics.length - 1]?.plannedWeek ?? 0) + 1)] }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            await saveSchemeOfWork(draft);
+            onDone();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the scheme of work.');
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-sm space-y-6">
+            <h3 className="text-xl font-semibold text-gray-800 border-b pb-2">{initialData.classId ? 'Edit Scheme of Work' : 'New Scheme of Work'}</h3>
+            {error && <div className="p-4 rounded-md bg-red-100 text-red-800">{error}</div>}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormSelect label="Class" id="schemeClassId" value={draft.classId} onChange={(e) => setDraft(prev => ({ ...prev, classId: e.target.value }))} required>
+                    <option value="">Select a class</option>
+                    {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </FormSelect>
+                <FormSelect label="Subject" id="schemeSubjectId" value={draft.subjectId} onChange={(e) => setDraft(prev => ({ ...prev, subjectId: e.target.value }))} required>
+                    <option value="">Select a subject</option>
+                    {subjects.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </FormSelect>
+                <FormSelect label="Term" id="schemeTermId" value={draft.termId} onChange={(e) => setDraft(prev => ({ ...prev, termId: e.target.value }))} required>
+                    <option value="">Select a term</option>
+                    {terms.map(t => <option key={t.id} value={t.id}>{formatTermLabel(t)}</option>)}
+                </FormSelect>
+            </div>
+            <div>
+                <h4 className="font-medium text-gray-800 mb-2">Topics</h4>
+                <p className="text-sm text-gray-500 mb-3">List the topics in teaching order with the week of the term each is planned for. Work coverage reports tick them off.</p>
+                <ul className="space-y-2">
+                    {draft.topics.map((topic, index) => (
+                        <li key={topic.id} className="p-3 border rounded-md bg-gray-50 flex items-end gap-3">
+                            <div className="w-24 shrink-0">
+                                <label className="block text-xs font-medium text-gray-600">Week</label>
+                                <input type="number" min={1} value={topic.plannedWeek} onChange={e => updateTopic(index, { ...topic, plannedWeek: Number(e.target.value) })} className={inputClass} />
+                            </div>
+                            <div className="flex-grow">
+                                <label className="block text-xs font-medium text-gray-600">Topic</label>
+                                <input value={topic.title} onChange={e => updateTopic(index, { ...topic, title: e.target.value })} placeholder="e.g., Fractions and decimals" className={inputClass} />
+                            </div>
+                            <button type="button" onClick={() => moveTopic(index, -1)} disabled={index === 0} className="px-2 py-1 text-sm text-gray-600 bg-white border rounded-md hover:bg-gray-100 disabled:opacity-50" title="Move up">↑</button>
+                            <button type="button" onClick={() => moveTopic(index, 1)} disabled={index === draft.topics.length - 1} className="px-2 py-1 text-sm text-gray-600 bg-white border rounded-md hover:bg-gray-100 disabled:opacity-50" title="Move down">↓</button>
+                            <button type="button" onClick={() => removeTopic(index)} disabled={draft.topics.length === 1} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full disabled:opacity-50" title="Remove topic">
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <button type="button" onClick={addTopic} className="mt-3 inline-flex items-center px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">
+                    <PlusIcon className="w-4 h-4 mr-1" /> Add Topic
+                </button>
+            </div>
+            <div className="flex justify-end space-x-4 pt-4 border-t">
+                <button type="button" onClick={onDone} className="px-6 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">Cancel</button>
+                <button type="submit" className="px-6 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">Save Scheme of Work</button>
+            </div>
+        </form>
+    );
+};
+
+/**
+ * The planned topics per class, subject and term that work coverage reports are checked against.
+ */
+export const SchemesOfWorkModule: React.FC<{ term: AcademicTerm | null; user: CurrentUser }> = ({ term, user }) => {
+    const schemes = useLiveQuery<SchemeOfWork[]>(() => dbTyped.schemesOfWork.toArray(), []) ?? [];
+    const terms = sortTerms(useLiveQuery<AcademicTerm[]>(() => dbTyped.terms.toArray(), []) ?? []);
+    const classes = sortByName<SchoolClass>(useLiveQuery<SchoolClass[]>(() => dbTyped.classes.toArray(), []) ?? []);
+    const subjects = sortByName<Subject>(useLiveQuery<Subject[]>(() => dbTyped.subjects.toArray(), []) ?? []);
+    const reports = useLiveQuery<WorkCoverageReport[]>(() => activeRows(dbTyped.workCoverageReports), []) ?? [];
+    const [editing, setEditing] = useState<SchemeOfWork | null>(null);
+    const [error, setError] = useState('');
+    const canManage = isAdmin(user);
+
+    const handleDelete = async (scheme: SchemeOfWork) => {
+        if (!window.confirm('Delete this scheme of work? Reports already checked against it keep their topics and coverage.')) return;
+        try {
+            await deleteSchemeOfWork(scheme.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete the scheme of work.');
+        }
+    };
+
+    if (editing) {
+        return <SchemeForm key={editing.id} initialData={editing} classes={classes} subjects={subjects} terms={terms} onDone={() => setEditing(null)} />;
+    }
+
+    const nameOf = (items: { id: string; name: string }[], id: string) => items.find(item => item.id === id)?.name ?? 'Unknown';
+    const termOf = (id: string) => terms.find(t => t.id === id);
+    const latest = new Map(latestCoverage(countedReports(reports)).map(report => [report.schemeOfWorkId, report]));
+    const shown = schemes
+        .filter(scheme => !term || scheme.termId === term.id)
+        .sort((a, b) =>
+            (termOf(b.termId)?.startDate ?? '').localeCompare(termOf(a.termId)?.startDate ?? '')
+            || nameOf(classes, a.classId).localeCompare(nameOf(classes, b.classId))
+            || nameOf(subjects, a.subjectId).localeCompare(nameOf(subjects, b.subjectId)));
+
+    return (
+        <div className="space-y-8">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                    <CalendarIcon className="w-8 h-8 text-indigo-600 mr-3" />
+                    <h2 className="text-3xl font-bold text-gray-800">Schemes of Work</h2>
+                </div>
+                {canManage && terms.length > 0 && (
+                    <button onClick={() => setEditing(newScheme(term?.id ?? ''))} className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">
+                        <PlusIcon className="w-5 h-5 mr-2" /> New Scheme of Work
+                    </button>
+                )}
+            </div>
+
+            {error && <div className="p-4 rounded-md bg-red-100 text-red-800">{error}</div>}
+
+            <div className="bg-white p-6 rounded-lg shadow-sm">
+                <h3 className="text-xl font-semibold text-gray-800 mb-4 border-b pb-2">{term ? formatTermLabel(term) : 'All Terms'} ({shown.length})</h3>
+                {terms.length === 0 ? (
+                    <p className="text-sm text-gray-500">Add academic terms in Settings first. Schemes of work are planned per term.</p>
+                ) : shown.length > 0 ? (
+                    <ul className="divide-y divide-gray-200">
+                        {shown.map(scheme => {
+                            const schemeTerm = termOf(scheme.termId);
+                            const report = latest.get(scheme.id);
+                            return (
+                                <li key={scheme.id} className="py-3 flex items-center justify-between">
+                                    <div>
+                                        <p className="font-medium text-gray-800">{nameOf(classes, scheme.classId)} &bull; {nameOf(subjects, scheme.subjectId)}</p>
+                                        <p className="text-sm text-gray-600">
+                                            {schemeTerm ? formatTermLabel(schemeTerm) : 'Unknown term'} &bull; {scheme.topics.length} topic(s)
+                                            {' '}&bull; {report ? `Latest check: ${report.coveragePercent}% covered, ${formatWeeksBehind(report.weeksBehind ?? 0).toLowerCase()}` : 'Not checked yet'}
+                                        </p>
+                                    </div>
+                                    {canManage && <div className="flex items-center space-x-2">
+                                        <button onClick={() => setEditing(scheme)} className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-100 rounded-full" title="Edit">
+                                            <PencilIcon className="w-5 h-5" />
+                                        </button>
+                                        <button onClick={() => handleDelete(scheme)} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full" title="Delete">
+                                            <TrashIcon className="w-5 h-5" />
+                                        </button>
+                                    </div>}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-500">No schemes of work yet. Add one so work coverage reports can tick topics off and compute coverage.</p>
+                )}
+            </div>
+        </div>
+    );
+};
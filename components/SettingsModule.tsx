@@ -1,9 +1,33 @@
 import React, { useState, useEffect, useCallback, ChangeEvent } from 'react';
-import { dbTyped } from '../utils/db';
-import { AppSetting } from '../types';
+import { dbTyped, activeRows, restorePointsTable, REPORT_TABLES, BUILT_IN_REPORT_TABLES, TEACHER_LINK_MIGRATION_KEY } from '../utils/db';
+import { AppSetting, CustomReportType, SignatoryRole, Teacher, Report, ReportTableName, UnmatchedReport, TeacherLinkMigrationResult, AcademicTerm, Supervisor, SupervisorRole, Department, Rubric, RubricCriterion, RubricLevel } from '../types';
 import { useLiveQuery } from '../hooks/useLocalStorage';
-import { FormInput, FormTextarea } from './common/ReportComponents';
+import { ACTING_SUPERVISOR_KEY, CLOSED_REPORT_MESSAGE, auditTables, updateReportsWithAudit } from '../utils/audit';
+import { isClosed } from '../utils/reportWorkflow';
+import { saveSupervisor, deleteSupervisor, changePin, SUPERVISOR_ROLE_LABELS, SUPERVISOR_ROLE_DESCRIPTIONS, MIN_PIN_LENGTH } from '../utils/supervisors';
+import { CurrentUser, PermissionError, assertAdmin, isAdmin } from '../utils/permissions';
+import { sortByName } from '../utils/catalog';
+import { ACTIVE_TERM_KEY, saveTerm, deleteTerm, sortTerms, formatTermLabel } from '../utils/terms';
+import { RECYCLE_BIN_RETENTION_KEY, DEFAULT_RETENTION_DAYS, purgeExpiredFromBin } from '../utils/recycleBin';
+import { RestorePoint, RESTORE_POINT_RETENTION_KEY, DEFAULT_RESTORE_POINT_RETENTION, RESTORE_POINT_REASON_LABELS, createRestorePoint, deleteRestorePoint, getRestorePointBackup, pruneRestorePoints, restorePointExcludedTables } from '../utils/restorePoints';
+import { REQUIRED_SIGNATURES_KEY, RequiredSignaturesSetting, SIGNATORY_LABELS, SIGNATORY_ROLES } from '../utils/signatures';
+import { FormInput, FormTextarea, FormSelect } from './common/ReportComponents';
+import { REPORT_DESCRIPTORS } from './reports/registry';
+import { customReportDescriptor } from './reports/custom';
+import { reportTypeKey, requiredSignatories } from './reports/descriptor';
 import { DownloadIcon, UploadIcon, ExclamationTriangleIcon } from './Icons';
+import { ImportPreviewModal } from './ImportPreviewModal';
+import { MergePreviewModal } from './MergePreviewModal';
+import { BackupPasswordModal } from './BackupPasswordModal';
+import { planMerge, applyMerge, MergePlan, ConflictResolution } from '../utils/merge';
+import { readAllTables, previewBackup, applyBackup, createBackupEnvelope, unwrapBackup, ImportPreview, BackupInfo, BackupFormatError, BACKUP_TABLE_LABELS, BACKUP_TABLES, ACCOUNT_TABLES } from '../utils/backup';
+import { enableAppLock, disableAppLock, changePassphrase, regenerateRecoveryKey, setAutoLockMinutes, getAutoLockMinutes, lockApp, MIN_PASSPHRASE_LENGTH, AUTO_LOCK_OPTIONS } from '../utils/appLock';
+import { useAppLockStatus } from '../hooks/useAppLockStatus';
+import { encryptBackup, decryptBackup, isEncryptedBackup, EncryptedBackupFile, BackupPasswordError, ENCRYPTED_BACKUP_EXTENSION, MIN_BACKUP_PASSWORD_LENGTH } from '../utils/backupCrypto';
+import { createId } from '../utils/ids';
+import { getCurrentRubric, getRubricVersions, saveRubricVersion, MIN_SCALE_LEVELS, MAX_SCALE_LEVELS } from '../utils/rubrics';
+import { DEFAULT_SCALE, isBuiltInRubric } from '../utils/rubricDefaults';
+import { useRubrics } from '../hooks/useRubrics';
 
 const SETTING_KEYS = {
     SCHOOL_NAME: 'schoolName',
@@ -21,15 +45,723 @@ const SettingsCard: React.FC<{ title: string; children: React.ReactNode; }> = ({
     </div>
 );
 
-export const SettingsModule: React.FC = () => {
+const REPORT_TABLE_LABELS: Record<ReportTableName, string> = {
+    supervisionReports: 'Supervision',
+    bookCheckingReports: 'Book Checking',
+    workCoverageReports: 'Work Coverage',
+    customReports: 'Custom',
+};
+
+const RUBRIC_INPUT_CLASS = "block w-full px-2 py-1 bg-white border border-gray-300 rounded-md text-sm text-black focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+interface RubricDraft {
+    name: string;
+    criteria: RubricCriterion[];
+    scale: RubricLevel[];
+}
+
+const draftFromRubric = (reportType: ReportTableName, rubric?: Rubric): RubricDraft => rubric
+    ? { name: rubric.name, criteria: rubric.criteria.map(c => ({ ...c })), scale: rubric.scale.map(level => ({ ...level })) }
+    : { name: `${REPORT_TABLE_LABELS[reportType]} Rubric`, criteria: [], scale: DEFAULT_SCALE.map(level => ({ ...level })) };
+
+const moveItem = <T,>(items: T[], index: number, offset: number): T[] => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return items;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+};
+
+const RubricsCard: React.FC = () => {
+    const rubrics = useRubrics();
+    const [reportType, setReportType] = useState<ReportTableName>('supervisionReports');
+    const [draft, setDraft] = useState<RubricDraft>(() => draftFromRubric('supervisionReports'));
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+    const current = rubrics ? getCurrentRubric(rubrics, reportType) : undefined;
+    const versions = rubrics ? getRubricVersions(rubrics, reportType) : [];
+
+    // Start from the current version whenever the report type changes or a new version is saved.
+    useEffect(() => {
+        if (!rubrics) return;
+        setDraft(draftFromRubric(reportType, current));
+        setError('');
+    }, [reportType, current?.id, !!rubrics]);
+
+    const updateCriterion = (index: number, changes: Partial<RubricCriterion>) =>
+        setDraft(prev => ({ ...prev, criteria: prev.criteria.map((c, i) => (i === index ? { ...c, ...changes } : c)) }));
+
+    const updateLevel = (index: number, changes: Partial<RubricLevel>) =>
+        setDraft(prev => ({ ...prev, scale: prev.scale.map((level, i) => (i === index ? { ...level, ...changes } : level)) }));
+
+    const handleSave = async () => {
+        setMessage('');
+        try {
+            const saved = await saveRubricVersion(reportType, draft);
+            setError('');
+            setMessage(`Saved ${saved.name} version ${saved.version}. New ${REPORT_TABLE_LABELS[reportType].toLowerCase()} reports are scored with it.`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the rubric.');
+        }
+    };
+
+    return (
+        <SettingsCard title="Evaluation Rubrics">
+            <p className="text-sm text-gray-500">Each report type is scored against a rubric of weighted criteria on a shared scale. Saving creates a new version; existing reports keep the version they were captured with.</p>
+            <FormSelect label="Report Type" id="rubricReportType" value={reportType} onChange={(e) => { setReportType(e.target.value as ReportTableName); setMessage(''); }}>
+                {BUILT_IN_REPORT_TABLES.map(table => <option key={table} value={table}>{REPORT_TABLE_LABELS[table]}</option>)}
+            </FormSelect>
+
+            {versions.length > 0 ? (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                            <th className="py-2 pr-4 font-medium">Version</th>
+                            <th className="py-2 pr-4 font-medium">Name</th>
+                            <th className="py-2 pr-4 font-medium">Criteria</th>
+                            <th className="py-2 pr-4 font-medium">Levels</th>
+                            <th className="py-2 font-medium">Created</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {[...versions].reverse().map(rubric => (
+                            <tr key={rubric.id}>
+                                <td className="py-2 pr-4 text-gray-800">
+                                    v{rubric.version}
+                                    {rubric.id === current?.id && <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">Current</span>}
+                                </td>
+                                <td className="py-2 pr-4 text-gray-800">{rubric.name}</td>
+                                <td className="py-2 pr-4">{rubric.criteria.map(c => c.name).join(', ')}</td>
+                                <td className="py-2 pr-4">{rubric.scale.length}</td>
+                                <td className="py-2">{isBuiltInRubric(rubric.id) ? 'Built-in' : new Date(rubric.createdAt).toLocaleDateString()}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p className="text-sm text-gray-500">{REPORT_TABLE_LABELS[reportType]} reports have no rubric yet. Add criteria below to start scoring them.</p>
+            )}
+
+            <div className="border rounded-md p-4 bg-gray-50 space-y-4">
+                <h4 className="font-medium text-gray-700">{current ? `Edit (saves as version ${current.version + 1})` : 'Create Rubric'}</h4>
+                <FormInput label="Rubric Name" id="rubricName" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+
+                <div className="space-y-2">
+                    <h5 className="text-sm font-medium text-gray-700">Criteria</h5>
+                    {draft.criteria.map((criterion, index) => (
+                        <div key={criterion.id} className="grid grid-cols-12 gap-2 items-center">
+                            <input className={`${RUBRIC_INPUT_CLASS} col-span-3`} value={criterion.name} onChange={(e) => updateCriterion(index, { name: e.target.value })} placeholder="Criterion" aria-label="Criterion name" />
+                            <input className={`${RUBRIC_INPUT_CLASS} col-span-5`} value={criterion.description} onChange={(e) => updateCriterion(index, { description: e.target.value })} placeholder="What to look for (optional)" aria-label="Criterion description" />
+                            <input className={`${RUBRIC_INPUT_CLASS} col-span-1`} type="number" min="0" step="0.5" value={criterion.weight} onChange={(e) => updateCriterion(index, { weight: parseFloat(e.target.value) || 0 })} aria-label="Weight" title="Weight" />
+                            <div className="col-span-3 text-right space-x-2 whitespace-nowrap text-sm">
+                                <button type="button" onClick={() => setDraft({ ...draft, criteria: moveItem(draft.criteria, index, -1) })} disabled={index === 0} className="text-indigo-600 hover:text-indigo-900 disabled:text-gray-300" aria-label="Move up">&uarr;</button>
+                                <button type="button" onClick={() => setDraft({ ...draft, criteria: moveItem(draft.criteria, index, 1) })} disabled={index === draft.criteria.length - 1} className="text-indigo-600 hover:text-indigo-900 disabled:text-gray-300" aria-label="Move down">&darr;</button>
+                                <button type="button" onClick={() => setDraft({ ...draft, criteria: draft.criteria.filter((_, i) => i !== index) })} className="text-red-600 hover:text-red-900 font-medium">Remove</button>
+                            </div>
+                        </div>
+                    ))}
+                    <button type="button" onClick={() => setDraft({ ...draft, criteria: [...draft.criteria, { id: createId(), name: '', description: '', weight: 1 }] })} className="text-sm text-indigo-600 hover:text-indigo-900 font-medium">+ Add Criterion</button>
+                    <p className="text-xs text-gray-500">The overall score is the weighted average of the criterion scores; a criterion with weight 2 counts twice as much as one with weight 1.</p>
+                </div>
+
+                <div className="space-y-2">
+                    <h5 className="text-sm font-medium text-gray-700">Scale (lowest level first)</h5>
+                    {draft.scale.map((level, index) => (
+                        <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                            <span className="col-span-1 text-sm text-gray-500 text-center">{index + 1}</span>
+                            <input className={`${RUBRIC_INPUT_CLASS} col-span-3`} value={level.label} onChange={(e) => updateLevel(index, { label: e.target.value })} placeholder="Label" aria-label={`Level ${index + 1} label`} />
+                            <input className={`${RUBRIC_INPUT_CLASS} col-span-6`} value={level.descriptor} onChange={(e) => updateLevel(index, { descriptor: e.target.value })} placeholder="Descriptor (optional)" aria-label={`Level ${index + 1} descriptor`} />
+                            <div className="col-span-2 text-right text-sm">
+                                <button type="button" onClick={() => setDraft({ ...draft, scale: draft.scale.filter((_, i) => i !== index) })} disabled={draft.scale.length <= MIN_SCALE_LEVELS} className="text-red-600 hover:text-red-900 font-medium disabled:text-gray-300">Remove</button>
+                            </div>
+                        </div>
+                    ))}
+                    {draft.scale.length < MAX_SCALE_LEVELS && (
+                        <button type="button" onClick={() => setDraft({ ...draft, scale: [...draft.scale, { label: '', descriptor: '' }] })} className="text-sm text-indigo-600 hover:text-indigo-900 font-medium">+ Add Level</button>
+                    )}
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                {message && <p className="text-sm text-green-700">{message}</p>}
+                <div className="flex justify-end space-x-3">
+                    <button type="button" onClick={() => { setDraft(draftFromRubric(reportType, current)); setError(''); }} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+                        Reset
+                    </button>
+                    <button type="button" onClick={handleSave} className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700">
+                        {current ? 'Save as New Version' : 'Create Rubric'}
+                    </button>
+                </div>
+            </div>
+        </SettingsCard>
+    );
+};
+
+const EMPTY_ACCOUNT = { name: '', role: 'observer' as SupervisorRole, departmentId: '', pin: '', pinConfirm: '' };
+
+const SupervisorAccountsCard: React.FC<{ user: CurrentUser }> = ({ user }) => {
+    const supervisors = sortByName<Supervisor>(useLiveQuery<Supervisor[]>(() => dbTyped.supervisors.toArray(), []) ?? []);
+    const departments = sortByName<Department>(useLiveQuery<Department[]>(() => dbTyped.departments.toArray(), []) ?? []);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState(EMPTY_ACCOUNT);
+    const [error, setError] = useState('');
+    const isFirstAccount = supervisors.length === 0;
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(EMPTY_ACCOUNT);
+        setError('');
+    };
+
+    const handleEdit = (supervisor: Supervisor) => {
+        setEditingId(supervisor.id);
+        setForm({ name: supervisor.name, role: supervisor.role, departmentId: supervisor.departmentId || '', pin: '', pinConfirm: '' });
+        setError('');
+    };
+
+    const handleSubmit = async () => {
+        if (form.pin !== form.pinConfirm) {
+            setError('The PINs do not match.');
+            return;
+        }
+        const role = isFirstAccount ? 'admin' : form.role;
+        try {
+            await saveSupervisor({ id: editingId || createId(), name: form.name, role, departmentId: form.departmentId || undefined }, form.pin || undefined);
+            resetForm();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the account.');
+        }
+    };
+
+    const handleDelete = async (supervisor: Supervisor) => {
+        if (!window.confirm(`Delete the account for ${supervisor.name}? Reports they wrote keep their name.`)) return;
+        try {
+            await deleteSupervisor(supervisor.id);
+            if (editingId === supervisor.id) resetForm();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete the account.');
+        }
+    };
+
+    return (
+        <SettingsCard title="Supervisor Accounts">
+            {isFirstAccount ? (
+                <p className="text-sm text-gray-500">No accounts exist yet, so anyone using this browser has full access. Create an administrator account to require everyone to sign in with a PIN; you will be asked to sign in straight away.</p>
+            ) : (
+                <p className="text-sm text-gray-500">Each supervisor signs in with their own PIN. New reports are stamped with the signed-in supervisor as their author.</p>
+            )}
+            {supervisors.length > 0 && (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                            <th className="py-2 pr-4 font-medium">Name</th>
+                            <th className="py-2 pr-4 font-medium">Role</th>
+                            <th className="py-2 font-medium text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {supervisors.map(supervisor => (
+                            <tr key={supervisor.id}>
+                                <td className="py-2 pr-4 text-gray-800">
+                                    {supervisor.name}
+                                    {supervisor.id === user?.id && <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">You</span>}
+                                </td>
+                                <td className="py-2 pr-4 text-gray-800">
+                                    {SUPERVISOR_ROLE_LABELS[supervisor.role]}
+                                    {supervisor.role === 'hod' && <span className="text-gray-500"> &bull; {departments.find(d => d.id === supervisor.departmentId)?.name ?? 'No department'}</span>}
+                                </td>
+                                <td className="py-2 text-right space-x-3 whitespace-nowrap">
+                                    <button onClick={() => handleEdit(supervisor)} className="text-indigo-600 hover:text-indigo-900 font-medium">Edit</button>
+                                    <button onClick={() => handleDelete(supervisor)} className="text-red-600 hover:text-red-900 font-medium">Delete</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            <div className="border rounded-md p-4 bg-gray-50 space-y-4">
+                <h4 className="font-medium text-gray-700">{editingId ? 'Edit Account' : isFirstAccount ? 'Create Administrator Account' : 'Add Account'}</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormInput label="Name" id="accountName" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g., Mrs. Jane Doe" />
+                    {!isFirstAccount && (
+                        <FormSelect label="Role" id="accountRole" value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value as SupervisorRole })}>
+                            {(Object.keys(SUPERVISOR_ROLE_LABELS) as SupervisorRole[]).map(role => <option key={role} value={role}>{SUPERVISOR_ROLE_LABELS[role]}</option>)}
+                        </FormSelect>
+                    )}
+                    {form.role === 'hod' && !isFirstAccount && (
+                        <FormSelect label="Department" id="accountDepartment" value={form.departmentId} onChange={(e) => setForm({ ...form, departmentId: e.target.value })}>
+                            <option value="">Select a department</option>
+                            {departments.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                        </FormSelect>
+                    )}
+                    <FormInput label={editingId ? 'New PIN (leave blank to keep)' : 'PIN'} id="accountPin" type="password" value={form.pin} onChange={(e) => setForm({ ...form, pin: e.target.value })} placeholder={`At least ${MIN_PIN_LENGTH} digits`} />
+                    <FormInput label="Confirm PIN" id="accountPinConfirm" type="password" value={form.pinConfirm} onChange={(e) => setForm({ ...form, pinConfirm: e.target.value })} />
+                </div>
+                <p className="text-xs text-gray-500">{SUPERVISOR_ROLE_DESCRIPTIONS[isFirstAccount ? 'admin' : form.role]}</p>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <div className="flex justify-end space-x-3">
+                    {editingId && (
+                        <button onClick={resetForm} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+                            Cancel
+                        </button>
+                    )}
+                    <button onClick={handleSubmit} className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700">
+                        {editingId ? 'Save Account' : isFirstAccount ? 'Create Administrator' : 'Add Account'}
+                    </button>
+                </div>
+            </div>
+        </SettingsCard>
+    );
+};
+
+const MyAccountCard: React.FC<{ user: Supervisor }> = ({ user }) => {
+    const [currentPin, setCurrentPin] = useState('');
+    const [newPin, setNewPin] = useState('');
+    const [newPinConfirm, setNewPinConfirm] = useState('');
+    const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+    const handleChangePin = async () => {
+        if (newPin !== newPinConfirm) {
+            setMessage({ type: 'error', text: 'The new PINs do not match.' });
+            return;
+        }
+        try {
+            await changePin(user.id, currentPin, newPin);
+            setCurrentPin('');
+            setNewPin('');
+            setNewPinConfirm('');
+            setMessage({ type: 'success', text: 'PIN changed.' });
+        } catch (err) {
+            setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to change the PIN.' });
+        }
+    };
+
+    return (
+        <SettingsCard title="My Account">
+            <p className="text-sm text-gray-700">Signed in as <span className="font-medium">{user.name}</span> ({SUPERVISOR_ROLE_LABELS[user.role]}).</p>
+            <p className="text-xs text-gray-500">{SUPERVISOR_ROLE_DESCRIPTIONS[user.role]}</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormInput label="Current PIN" id="currentPin" type="password" value={currentPin} onChange={(e) => setCurrentPin(e.target.value)} />
+                <FormInput label="New PIN" id="newPin" type="password" value={newPin} onChange={(e) => setNewPin(e.target.value)} />
+                <FormInput label="Confirm New PIN" id="newPinConfirm" type="password" value={newPinConfirm} onChange={(e) => setNewPinConfirm(e.target.value)} />
+            </div>
+            {message && <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>}
+            <div className="flex justify-end">
+                <button onClick={handleChangePin} disabled={!currentPin || !newPin} className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+                    Change PIN
+                </button>
+            </div>
+        </SettingsCard>
+    );
+};
+
+const AppLockCard: React.FC = () => {
+    const status = useAppLockStatus();
+    const [passphrase, setPassphrase] = useState('');
+    const [newPassphrase, setNewPassphrase] = useState('');
+    const [newPassphraseConfirm, setNewPassphraseConfirm] = useState('');
+    const [autoLockMinutes, setAutoLockMinutesValue] = useState(getAutoLockMinutes());
+    const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const run = async (action: () => Promise<string | void>, successText: string) => {
+        setIsWorking(true);
+        setMessage(null);
+        try {
+            const newRecoveryKey = await action();
+            if (newRecoveryKey) setRecoveryKey(newRecoveryKey);
+            setPassphrase('');
+            setNewPassphrase('');
+            setNewPassphraseConfirm('');
+            setAutoLockMinutesValue(getAutoLockMinutes());
+            setMessage({ type: 'success', text: successText });
+        } catch (err) {
+            setMessage({ type: 'error', text: err instanceof Error ? err.message : 'The app lock could not be updated.' });
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const checkNewPassphrase = () => {
+        if (newPassphrase !== newPassphraseConfirm) {
+            setMessage({ type: 'error', text: 'The new passphrases do not match.' });
+            return false;
+        }
+        return true;
+    };
+
+    const handleEnable = () => {
+        if (checkNewPassphrase()) run(() => enableAppLock(newPassphrase), 'App lock enabled. Existing reports are now encrypted.');
+    };
+
+    const handleChangePassphrase = () => {
+        if (checkNewPassphrase()) run(() => changePassphrase(passphrase, newPassphrase), 'Passphrase changed.');
+    };
+
+    const handleDisable = () => {
+        if (!window.confirm('Turn off the app lock? All report data will be stored unencrypted on this computer again.')) return;
+        run(() => disableAppLock(passphrase), 'App lock turned off.');
+    };
+
+    const handleAutoLockChange = (minutes: number) => {
+        setAutoLockMinutesValue(minutes);
+        run(() => setAutoLockMinutes(minutes), minutes ? `The app now locks after ${minutes} minutes without activity.` : 'Auto-lock turned off.');
+    };
+
+    return (
+        <SettingsCard title="App Lock">
+            <p className="text-sm text-gray-500">
+                Encrypts report text, signatures, attached photos and files, report history and restore points on this computer with a key protected by a passphrase.
+                Teacher names, dates and ratings stay unencrypted so lists and statistics keep working. Exported backups are not covered; use the backup password for those.
+            </p>
+            {recoveryKey && (
+                <div className="border-l-4 border-yellow-400 bg-yellow-50 p-4 rounded-r-lg space-y-2">
+                    <p className="text-sm font-medium text-yellow-800">Recovery key</p>
+                    <p className="font-mono text-lg text-gray-900 select-all">{recoveryKey}</p>
+                    <p className="text-xs text-yellow-800">Write this down and keep it somewhere safe. It unlocks the app if the passphrase is forgotten, and it will not be shown again.</p>
+                    <div className="flex justify-end">
+                        <button onClick={() => setRecoveryKey(null)} className="px-3 py-1 text-sm font-medium text-yellow-800 bg-yellow-100 rounded-md hover:bg-yellow-200">I have saved it</button>
+                    </div>
+                </div>
+            )}
+            {status === 'disabled' ? (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormInput label="Passphrase" id="appLockNewPassphrase" type="password" value={newPassphrase} onChange={(e) => setNewPassphrase(e.target.value)} />
+                        <FormInput label="Confirm Passphrase" id="appLockNewPassphraseConfirm" type="password" value={newPassphraseConfirm} onChange={(e) => setNewPassphraseConfirm(e.target.value)} />
+                    </div>
+                    <p className="text-xs text-gray-500">At least {MIN_PASSPHRASE_LENGTH} characters. Everyone using this computer will need it to open the app.</p>
+                </>
+            ) : (
+                <>
+                    <FormSelect label="Lock automatically after" id="autoLockMinutes" value={autoLockMinutes} onChange={(e) => handleAutoLockChange(Number(e.target.value))} disabled={isWorking}>
+                        {AUTO_LOCK_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{minutes ? `${minutes} minutes without activity` : 'Never'}</option>)}
+                    </FormSelect>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormInput label="Current Passphrase" id="appLockPassphrase" type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} />
+                        <FormInput label="New Passphrase" id="appLockNewPassphrase" type="password" value={newPassphrase} onChange={(e) => setNewPassphrase(e.target.value)} />
+                        <FormInput label="Confirm New Passphrase" id="appLockNewPassphraseConfirm" type="password" value={newPassphraseConfirm} onChange={(e) => setNewPassphraseConfirm(e.target.value)} />
+                    </div>
+                    <p className="text-xs text-gray-500">Changing the passphrase, creating a new recovery key and turning the lock off all need the current passphrase. A new recovery key replaces the old one.</p>
+                </>
+            )}
+            {message && <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>}
+            <div className="flex justify-end space-x-2">
+                {status === 'disabled' ? (
+                    <button onClick={handleEnable} disabled={isWorking || !newPassphrase} className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+                        {isWorking ? 'Encrypting...' : 'Enable App Lock'}
+                    </button>
+                ) : (
+                    <>
+                        <button onClick={lockApp} disabled={isWorking} className="px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50">Lock Now</button>
+                        <button onClick={handleDisable} disabled={isWorking || !passphrase} className="px-4 py-2 text-sm font-medium rounded-md text-red-700 bg-white border border-red-300 hover:bg-red-50 disabled:opacity-50">Turn Off</button>
+                        <button onClick={() => run(() => regenerateRecoveryKey(passphrase), 'New recovery key created. The old one no longer works.')} disabled={isWorking || !passphrase} className="px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50">New Recovery Key</button>
+                        <button onClick={handleChangePassphrase} disabled={isWorking || !passphrase || !newPassphrase} className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">Change Passphrase</button>
+                    </>
+                )}
+            </div>
+        </SettingsCard>
+    );
+};
+
+const EMPTY_TERM = { academicYear: '', name: '', startDate: '', endDate: '' };
+
+const AcademicTermsCard: React.FC<{ activeTermId?: string }> = ({ activeTermId }) => {
+    const terms = useLiveQuery<AcademicTerm[]>(() => dbTyped.terms.toArray(), []) ?? [];
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState(EMPTY_TERM);
+    const [error, setError] = useState('');
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(EMPTY_TERM);
+        setError('');
+    };
+
+    const handleEdit = (term: AcademicTerm) => {
+        setEditingId(term.id);
+        setForm({ academicYear: term.academicYear, name: term.name, startDate: term.startDate, endDate: term.endDate });
+        setError('');
+    };
+
+    const handleSubmit = async () => {
+        if (!form.academicYear.trim() || !form.name.trim() || !form.startDate || !form.endDate) {
+            setError('Please fill in the academic year, term name, start date and end date.');
+            return;
+        }
+        try {
+            await saveTerm({ ...form, academicYear: form.academicYear.trim(), name: form.name.trim(), id: editingId || createId() });
+            resetForm();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the term.');
+        }
+    };
+
+    const handleDelete = async (term: AcademicTerm) => {
+        if (window.confirm(`Delete ${formatTermLabel(term)}? Its reports are kept but will no longer be tagged to a term.`)) {
+            try {
+                await deleteTerm(term.id);
+                if (editingId === term.id) resetForm();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Failed to delete the term.');
+            }
+        }
+    };
+
+    const handleSetActive = async (term: AcademicTerm) => {
+        try {
+            await dbTyped.teachers.db.transaction('rw', dbTyped.settings, dbTyped.supervisors, async () => {
+                await assertAdmin();
+                await dbTyped.settings.put({ key: ACTIVE_TERM_KEY, value: term.id });
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to set the active term.');
+        }
+    };
+
+    return (
+        <SettingsCard title="Academic Years & Terms">
+            <p className="text-sm text-gray-500">Reports are tagged to the term that contains their date. The active term is selected by default in the term selector at the top of every page.</p>
+            {terms.length > 0 && (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                            <th className="py-2 pr-4 font-medium">Academic Year</th>
+                            <th className="py-2 pr-4 font-medium">Term</th>
+                            <th className="py-2 pr-4 font-medium">Start</th>
+                            <th className="py-2 pr-4 font-medium">End</th>
+                            <th className="py-2 font-medium text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {sortTerms(terms).map(term => (
+                            <tr key={term.id}>
+                                <td className="py-2 pr-4 text-gray-800">{term.academicYear}</td>
+                                <td className="py-2 pr-4 text-gray-800">
+                                    {term.name}
+                                    {term.id === activeTermId && <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">Active</span>}
+                                </td>
+                                <td className="py-2 pr-4">{new Date(term.startDate + 'T00:00:00').toLocaleDateString()}</td>
+                                <td className="py-2 pr-4">{new Date(term.endDate + 'T00:00:00').toLocaleDateString()}</td>
+                                <td className="py-2 text-right space-x-3 whitespace-nowrap">
+                                    {term.id !== activeTermId && <button onClick={() => handleSetActive(term)} className="text-indigo-600 hover:text-indigo-900 font-medium">Set Active</button>}
+                                    <button onClick={() => handleEdit(term)} className="text-indigo-600 hover:text-indigo-900 font-medium">Edit</button>
+                                    <button onClick={() => handleDelete(term)} className="text-red-600 hover:text-red-900 font-medium">Delete</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            <div className="border rounded-md p-4 bg-gray-50 space-y-4">
+                <h4 className="font-medium text-gray-700">{editingId ? 'Edit Term' : 'Add Term'}</h4>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <FormInput label="Academic Year" id="termAcademicYear" value={form.academicYear} onChange={(e) => setForm({ ...form, academicYear: e.target.value })} placeholder="e.g., 2025/2026" />
+                    <FormInput label="Term Name" id="termName" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g., Term 1" />
+                    <FormInput label="Start Date" id="termStartDate" type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} />
+                    <FormInput label="End Date" id="termEndDate" type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} />
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <div className="flex justify-end space-x-3">
+                    {editingId && (
+                        <button onClick={resetForm} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+                            Cancel
+                        </button>
+                    )}
+                    <button onClick={handleSubmit} className="px-4 py-2 text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700">
+                        {editingId ? 'Save Term' : 'Add Term'}
+                    </button>
+                </div>
+            </div>
+        </SettingsCard>
+    );
+};
+
+const RestorePointsCard: React.FC<{
+    onPreview: (point: RestorePoint) => void;
+    onCreate: () => void;
+}> = ({ onPreview, onCreate }) => {
+    const points = useLiveQuery<RestorePoint[]>(() => restorePointsTable.orderBy('createdAt').reverse().toArray(), []) ?? [];
+    const [error, setError] = useState('');
+
+    const handleDelete = async (point: RestorePoint) => {
+        if (window.confirm(`Delete the restore point from ${new Date(point.createdAt).toLocaleString()}?`)) {
+            setError('');
+            try {
+                await deleteRestorePoint(point.id!);
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Failed to delete the restore point.');
+            }
+        }
+    };
+
+    return (
+        <SettingsCard title="Restore Point History">
+            <div className="flex justify-between items-center">
+                <p className="text-sm text-gray-500">Snapshots of all data stored in this browser. Restoring shows a preview first and takes a new snapshot before anything is replaced. Scheduled and manual snapshots leave out report attachments, and restoring them keeps the current ones.</p>
+                <button onClick={onCreate} className="ml-4 flex-shrink-0 px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
+                    Create Restore Point
+                </button>
+            </div>
+            {points.length === 0 ? (
+                <p className="text-sm text-gray-500">No restore points yet.</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 border rounded-md">
+                    {points.map(point => (
+                        <li key={point.id} className="p-3 flex justify-between items-start">
+                            <div>
+                                <p className="font-medium text-gray-800">
+                                    {new Date(point.createdAt).toLocaleString()}
+                                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">{RESTORE_POINT_REASON_LABELS[point.reason]}</span>
+                                </p>
+                                {point.note && <p className="text-sm text-gray-600">{point.note}</p>}
+                                <p className="text-xs text-gray-500">
+                                    {BACKUP_TABLES.filter(table => table !== 'settings' && table !== 'auditLog' && !restorePointExcludedTables(point).includes(table)).map(table => `${point.counts[table] ?? 0} ${BACKUP_TABLE_LABELS[table].toLowerCase()}`).join(', ')}
+                                </p>
+                            </div>
+                            <div className="flex space-x-2 flex-shrink-0 ml-4">
+                                <button onClick={() => onPreview(point)} className="px-3 py-1 text-sm font-medium text-indigo-600 hover:text-indigo-900">Preview &amp; Restore</button>
+                                <button onClick={() => handleDelete(point)} className="px-3 py-1 text-sm font-medium text-red-600 hover:text-red-900">Delete</button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+        </SettingsCard>
+    );
+};
+
+const UnlinkedReportsCard: React.FC<{ migration?: TeacherLinkMigrationResult }> = ({ migration }) => {
+    const teachers = useLiveQuery<Teacher[]>(() => activeRows(dbTyped.teachers), []) ?? [];
+    const unlinked = useLiveQuery<UnmatchedReport[]>(async () => {
+        const results = await Promise.all(REPORT_TABLES.map(async (table: ReportTableName) => {
+            const reports = await dbTyped[table].where('teacherId').equals('').filter((r: { deletedAt?: string }) => !r.deletedAt).toArray();
+            return reports.map((r: { id: string; teacherName: string }) => ({ table, id: r.id, teacherName: r.teacherName }));
+        }));
+        return results.flat();
+    }, []) ?? [];
+    const [error, setError] = useState('');
+
+    const handleLink = async (report: UnmatchedReport, teacherId: string) => {
+        const teacher = teachers.find(t => t.id === teacherId);
+        if (!teacher) return;
+        setError('');
+        try {
+            await dbTyped.teachers.db.transaction('rw', [dbTyped[report.table], ...auditTables()], async () => {
+                const stored: Report = await dbTyped[report.table].get(report.id);
+                if (isClosed(stored)) throw new PermissionError(CLOSED_REPORT_MESSAGE);
+                await updateReportsWithAudit(report.table, 'update', [stored], r => ({ ...r, teacherId: teacher.id, teacherName: teacher.name }));
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to link the report.');
+        }
+    };
+
+    if (!migration && unlinked.length === 0) return null;
+
+    return (
+        <SettingsCard title="Unlinked Reports">
+            {migration && (
+                <p className="text-sm text-gray-500">
+                    The upgrade on {new Date(migration.migratedAt).toLocaleString()} linked {migration.linked} report(s) to teachers by name
+                    {migration.unmatched.length > 0 ? ` and could not match ${migration.unmatched.length}.` : '.'}
+                </p>
+            )}
+            {unlinked.length > 0 ? (
+                <ul className="divide-y divide-gray-200">
+                    {unlinked.map(report => (
+                        <li key={`${report.table}-${report.id}`} className="py-3 grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                            <div>
+                                <p className="font-medium text-gray-800">{report.teacherName || 'Unknown teacher'}</p>
+                                <p className="text-sm text-gray-500">{REPORT_TABLE_LABELS[report.table]} report</p>
+                            </div>
+                            <FormSelect label="Link to teacher" id={`link-${report.table}-${report.id}`} value="" onChange={(e) => handleLink(report, e.target.value)}>
+                                <option value="">Select a teacher</option>
+                                {teachers.filter(t => !t.archived).sort((a, b) => a.name.localeCompare(b.name)).map(teacher => (
+                                    <option key={teacher.id} value={teacher.id}>{teacher.name}</option>
+                                ))}
+                            </FormSelect>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-sm text-green-700">All reports are linked to a teacher.</p>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+        </SettingsCard>
+    );
+};
+
+/**
+ * Who must sign each report type before its reports can be closed.
+ */
+const SignOffSettings: React.FC<{
+    value: RequiredSignaturesSetting;
+    onChange: (value: RequiredSignaturesSetting) => void;
+}> = ({ value, onChange }) => {
+    const customTypes = useLiveQuery<CustomReportType[]>(() => dbTyped.customReportTypes.toArray(), []) ?? [];
+    const descriptors = [...Object.values(REPORT_DESCRIPTORS), ...customTypes.filter(type => !type.archived).map(customReportDescriptor)];
+
+    const toggle = (descriptor: typeof descriptors[number], role: SignatoryRole) => {
+        const roles = requiredSignatories(descriptor, value);
+        const next = roles.includes(role) ? roles.filter(r => r !== role) : SIGNATORY_ROLES.filter(r => r === role || roles.includes(r));
+        onChange({ ...value, [reportTypeKey(descriptor)]: next });
+    };
+
+    return (
+        <div>
+            <label className="block text-sm font-medium text-gray-700">Required Signatures</label>
+            <table className="mt-2 min-w-full text-sm">
+                <thead>
+                    <tr className="text-left text-gray-500">
+                        <th className="py-1 font-medium">Report Type</th>
+                        {SIGNATORY_ROLES.map(role => <th key={role} className="py-1 px-2 font-medium text-center">{SIGNATORY_LABELS[role]}</th>)}
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {descriptors.map(descriptor => {
+                        const roles = requiredSignatories(descriptor, value);
+                        return (
+                            <tr key={reportTypeKey(descriptor)}>
+                                <td className="py-2 text-gray-800">{descriptor.listTitle}</td>
+                                {SIGNATORY_ROLES.map(role => (
+                                    <td key={role} className="py-2 px-2 text-center">
+                                        <input type="checkbox" aria-label={`${descriptor.listTitle}: ${SIGNATORY_LABELS[role]}`} checked={roles.includes(role)} onChange={() => toggle(descriptor, role)} className="h-4 w-4 text-indigo-600 border-gray-300 rounded" />
+                                    </td>
+                                ))}
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            <p className="mt-2 text-xs text-gray-500">Each party signs a report from its detail view, and a report cannot be closed until all of them have signed. Editing a signed report invalidates its signatures.</p>
+        </div>
+    );
+};
+
+export const SettingsModule: React.FC<{ user: CurrentUser }> = ({ user }) => {
     const settings = useLiveQuery<AppSetting[]>(() => dbTyped.settings.toArray(), []) ?? [];
     
     const [schoolName, setSchoolName] = useState('');
     const [schoolAddress, setSchoolAddress] = useState('');
     const [schoolLogo, setSchoolLogo] = useState('');
     const [reportFooter, setReportFooter] = useState('');
+    const [retentionDays, setRetentionDays] = useState(String(DEFAULT_RETENTION_DAYS));
+    const [actingSupervisor, setActingSupervisor] = useState('');
+    const [requiredSignatures, setRequiredSignatures] = useState<RequiredSignaturesSetting>({});
     const [isSaving, setIsSaving] = useState(false);
     const [feedback, setFeedback] = useState<{ type: 'success' | 'error', message: string } | null>(null);
+    const [importMode, setImportMode] = useState<'replace' | 'merge'>('replace');
+    const [restorePointRetention, setRestorePointRetention] = useState(String(DEFAULT_RESTORE_POINT_RETENTION));
+    // restorePoint is set when previewing a snapshot rather than an imported file.
+    const [importPreview, setImportPreview] = useState<{ fileName: string; info: BackupInfo; preview: ImportPreview; plan?: MergePlan; restorePoint?: RestorePoint } | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [encryptExport, setEncryptExport] = useState(false);
+    const [exportPassword, setExportPassword] = useState('');
+    const [exportPasswordConfirm, setExportPasswordConfirm] = useState('');
+    const [encryptedImport, setEncryptedImport] = useState<{ fileName: string; file: EncryptedBackupFile; error: string | null } | null>(null);
+    const [isDecrypting, setIsDecrypting] = useState(false);
 
     useEffect(() => {
         const getSetting = (key: string) => settings.find(s => s.key === key)?.value || '';
@@ -37,6 +769,10 @@ export const SettingsModule: React.FC = () => {
         setSchoolAddress(getSetting(SETTING_KEYS.SCHOOL_ADDRESS));
         setSchoolLogo(getSetting(SETTING_KEYS.SCHOOL_LOGO));
         setReportFooter(getSetting(SETTING_KEYS.REPORT_FOOTER));
+        setRetentionDays(String(getSetting(RECYCLE_BIN_RETENTION_KEY) || DEFAULT_RETENTION_DAYS));
+        setActingSupervisor(getSetting(ACTING_SUPERVISOR_KEY));
+        setRequiredSignatures(getSetting(REQUIRED_SIGNATURES_KEY) || {});
+        setRestorePointRetention(String(getSetting(RESTORE_POINT_RETENTION_KEY) || DEFAULT_RESTORE_POINT_RETENTION));
     }, [settings]);
 
     const showFeedback = (message: string, type: 'success' | 'error' = 'success') => {
@@ -45,18 +781,37 @@ export const SettingsModule: React.FC = () => {
     };
 
     const handleSaveSettings = async () => {
+        const retention = parseInt(retentionDays, 10);
+        if (!retention || retention < 1) {
+            showFeedback('Recycle bin retention must be at least 1 day.', 'error');
+            return;
+        }
+        const restorePointCount = parseInt(restorePointRetention, 10);
+        if (!restorePointCount || restorePointCount < 1) {
+            showFeedback('Keep at least 1 restore point.', 'error');
+            return;
+        }
         setIsSaving(true);
         try {
-            await dbTyped.settings.bulkPut([
-                { key: SETTING_KEYS.SCHOOL_NAME, value: schoolName },
-                { key: SETTING_KEYS.SCHOOL_ADDRESS, value: schoolAddress },
-                { key: SETTING_KEYS.SCHOOL_LOGO, value: schoolLogo },
-                { key: SETTING_KEYS.REPORT_FOOTER, value: reportFooter },
-            ]);
+            await dbTyped.teachers.db.transaction('rw', dbTyped.settings, dbTyped.supervisors, async () => {
+                await assertAdmin();
+                await dbTyped.settings.bulkPut([
+                    { key: SETTING_KEYS.SCHOOL_NAME, value: schoolName },
+                    { key: SETTING_KEYS.SCHOOL_ADDRESS, value: schoolAddress },
+                    { key: SETTING_KEYS.SCHOOL_LOGO, value: schoolLogo },
+                    { key: SETTING_KEYS.REPORT_FOOTER, value: reportFooter },
+                    { key: RECYCLE_BIN_RETENTION_KEY, value: retention },
+                    { key: ACTING_SUPERVISOR_KEY, value: actingSupervisor.trim() },
+                    { key: REQUIRED_SIGNATURES_KEY, value: requiredSignatures },
+                    { key: RESTORE_POINT_RETENTION_KEY, value: restorePointCount },
+                ]);
+            });
+            await purgeExpiredFromBin();
+            await pruneRestorePoints();
             showFeedback('Settings saved successfully!');
         } catch (error) {
             console.error("Failed to save settings:", error);
-            showFeedback('Failed to save settings.', 'error');
+            showFeedback(error instanceof PermissionError ? error.message : 'Failed to save settings.', 'error');
         } finally {
             setIsSaving(false);
         }
@@ -74,68 +829,150 @@ export const SettingsModule: React.FC = () => {
     };
 
     const handleExportData = async () => {
+        if (encryptExport) {
+            if (exportPassword.length < MIN_BACKUP_PASSWORD_LENGTH) {
+                showFeedback(`The backup password must be at least ${MIN_BACKUP_PASSWORD_LENGTH} characters.`, 'error');
+                return;
+            }
+            if (exportPassword !== exportPasswordConfirm) {
+                showFeedback('The backup passwords do not match.', 'error');
+                return;
+            }
+        }
         try {
-            const data = {
-                teachers: await dbTyped.teachers.toArray(),
-                supervisionReports: await dbTyped.supervisionReports.toArray(),
-                bookCheckingReports: await dbTyped.bookCheckingReports.toArray(),
-                workCoverageReports: await dbTyped.workCoverageReports.toArray(),
-                settings: await dbTyped.settings.toArray(),
-            };
-            const jsonString = JSON.stringify(data, null, 2);
-            const blob = new Blob([jsonString], { type: 'application/json' });
+            const envelope = await createBackupEnvelope(await readAllTables(encryptExport ? [] : ACCOUNT_TABLES));
+            const fileBase = `teacher-monitor-backup-${new Date().toISOString().split('T')[0]}`;
+            const blob = encryptExport
+                ? new Blob([JSON.stringify(await encryptBackup(envelope, exportPassword))], { type: 'application/octet-stream' })
+                : new Blob([JSON.stringify(envelope, null, 2)], { type: 'application/json' });
             const url = URL.createObjectURL(blob);
             const a = document.createElement('a');
             a.href = url;
-            a.download = `teacher-monitor-backup-${new Date().toISOString().split('T')[0]}.json`;
+            a.download = encryptExport ? `${fileBase}${ENCRYPTED_BACKUP_EXTENSION}` : `${fileBase}.json`;
             document.body.appendChild(a);
             a.click();
             document.body.removeChild(a);
             URL.revokeObjectURL(url);
-            showFeedback('Data exported successfully.');
+            setExportPassword('');
+            setExportPasswordConfirm('');
+            showFeedback(encryptExport ? 'Encrypted backup exported. Keep the password safe; it cannot be recovered.' : 'Data exported successfully.');
         } catch (error) {
             console.error("Export failed:", error);
             showFeedback('Data export failed.', 'error');
         }
     };
 
+    const loadBackup = async (fileName: string, data: unknown) => {
+        try {
+            const backup = await unwrapBackup(data);
+            // A file may come from another computer, so its accounts only fill a computer that has none.
+            const hasAccounts = await dbTyped.supervisors.count() > 0;
+            const preview = await previewBackup(backup.data, hasAccounts ? ACCOUNT_TABLES : []);
+            const plan = importMode === 'merge' ? await planMerge(preview.validData) : undefined;
+            setImportPreview({ fileName, info: backup.info, preview, plan });
+        } catch (error) {
+            console.error("Import validation failed:", error);
+            showFeedback(error instanceof BackupFormatError ? error.message : 'Failed to read the backup file.', 'error');
+        }
+    };
+
     const handleImportData = (e: ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
 
-        if (!window.confirm("Are you sure you want to import data? This will overwrite all existing application data.")) {
-            return;
-        }
-
         const reader = new FileReader();
         reader.onload = async (event) => {
+            let data: unknown;
             try {
-                const data = JSON.parse(event.target?.result as string);
-                
-                // FIX: The transaction method exists on the Dexie instance, not the dbTyped helper object.
-                // The Dexie instance can be accessed via the .db property of any table.
-                await dbTyped.teachers.db.transaction('rw', Object.values(dbTyped), async () => {
-                    await Promise.all(Object.values(dbTyped).map(table => table.clear()));
-                    
-                    if (data.teachers) await dbTyped.teachers.bulkAdd(data.teachers);
-                    if (data.supervisionReports) await dbTyped.supervisionReports.bulkAdd(data.supervisionReports);
-                    if (data.bookCheckingReports) await dbTyped.bookCheckingReports.bulkAdd(data.bookCheckingReports);
-                    if (data.workCoverageReports) await dbTyped.workCoverageReports.bulkAdd(data.workCoverageReports);
-                    if (data.settings) await dbTyped.settings.bulkAdd(data.settings);
-                });
-                
-                showFeedback('Data imported successfully! The application will now reload.');
-                setTimeout(() => window.location.reload(), 2000);
-
+                data = JSON.parse(event.target?.result as string);
             } catch (error) {
-                console.error("Import failed:", error);
-                showFeedback('Failed to import data. Please ensure the file is a valid backup.', 'error');
+                showFeedback('The selected file is not a backup file.', 'error');
+                return;
             }
+            if (isEncryptedBackup(data)) {
+                setEncryptedImport({ fileName: file.name, file: data, error: null });
+                return;
+            }
+            await loadBackup(file.name, data);
         };
         reader.readAsText(file);
         e.target.value = ''; // Reset file input
     };
 
+    const handleDecryptImport = async (password: string) => {
+        if (!encryptedImport) return;
+        setIsDecrypting(true);
+        try {
+            const data = await decryptBackup(encryptedImport.file, password);
+            setEncryptedImport(null);
+            await loadBackup(encryptedImport.fileName, data);
+        } catch (error) {
+            // Keep the prompt open so the password can be re-entered.
+            const message = error instanceof BackupPasswordError ? error.message : 'Failed to decrypt the backup file.';
+            setEncryptedImport({ ...encryptedImport, error: message });
+        } finally {
+            setIsDecrypting(false);
+        }
+    };
+
+    const handlePreviewRestorePoint = async (point: RestorePoint) => {
+        try {
+            const backup = await unwrapBackup(await getRestorePointBackup(point.id!));
+            const preview = await previewBackup(backup.data, restorePointExcludedTables(point));
+            setImportPreview({ fileName: `${RESTORE_POINT_REASON_LABELS[point.reason]} restore point from ${new Date(point.createdAt).toLocaleString()}`, info: backup.info, preview, restorePoint: point });
+        } catch (error) {
+            console.error("Restore point preview failed:", error);
+            showFeedback(error instanceof BackupFormatError ? error.message : 'Failed to read the restore point.', 'error');
+        }
+    };
+
+    const handleCreateRestorePoint = async () => {
+        try {
+            await createRestorePoint('manual');
+            showFeedback('Restore point created.');
+        } catch (error) {
+            console.error("Failed to create restore point:", error);
+            showFeedback('Failed to create a restore point.', 'error');
+        }
+    };
+
+    const handleConfirmImport = async () => {
+        if (!importPreview) return;
+        setIsImporting(true);
+        try {
+            if (importPreview.restorePoint) {
+                await createRestorePoint('before-restore', `Restoring the snapshot from ${new Date(importPreview.restorePoint.createdAt).toLocaleString()}`);
+            } else {
+                await createRestorePoint('before-import', importPreview.fileName);
+            }
+            await applyBackup(importPreview.preview);
+            setImportPreview(null);
+            showFeedback(importPreview.restorePoint ? 'Restore point applied! The application will now reload.' : 'Data imported successfully! The application will now reload.');
+            setTimeout(() => window.location.reload(), 2000);
+        } catch (error) {
+            console.error("Import failed:", error);
+            showFeedback(error instanceof PermissionError ? error.message : 'Import failed. Your existing data has not been changed.', 'error');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleConfirmMerge = async (resolutions: Record<string, ConflictResolution>) => {
+        if (!importPreview?.plan) return;
+        setIsImporting(true);
+        try {
+            await createRestorePoint('before-merge', importPreview.fileName);
+            await applyMerge(importPreview.plan, resolutions);
+            setImportPreview(null);
+            showFeedback('Data merged successfully.');
+        } catch (error) {
+            console.error("Merge failed:", error);
+            showFeedback(error instanceof PermissionError ? error.message : 'Merge failed. Your existing data has not been changed.', 'error');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
     const handleClearData = async () => {
         if (!window.confirm("DANGER: You are about to delete ALL application data. This action is irreversible. Are you absolutely sure?")) {
             return;
@@ -143,15 +980,17 @@ export const SettingsModule: React.FC = () => {
         const confirmation = prompt("To confirm this action, please type 'DELETE' in the box below.");
         if (confirmation === 'DELETE') {
             try {
+                await createRestorePoint('before-clear');
                 // FIX: Wrap multiple clear operations in a single transaction for atomicity and performance.
                 await dbTyped.teachers.db.transaction('rw', Object.values(dbTyped), async () => {
+                    await assertAdmin();
                     await Promise.all(Object.values(dbTyped).map(table => table.clear()));
                 });
                 showFeedback('All application data has been cleared. The application will now reload.');
                 setTimeout(() => window.location.reload(), 2000);
             } catch (error) {
                 console.error("Failed to clear data:", error);
-                showFeedback('An error occurred while clearing data.', 'error');
+                showFeedback(error instanceof PermissionError ? error.message : 'An error occurred while clearing data.', 'error');
             }
         } else {
             alert("Deletion cancelled. The text you entered did not match 'DELETE'.");
@@ -159,6 +998,16 @@ export const SettingsModule: React.FC = () => {
     };
 
 
+    // School settings, accounts, backups and the danger zone are for administrators only.
+    if (!isAdmin(user)) {
+        return (
+            <div className="space-y-8">
+                <h2 className="text-3xl font-bold text-gray-800">Settings</h2>
+                {user && <MyAccountCard user={user} />}
+            </div>
+        );
+    }
+
     return (
         <div className="space-y-8">
             <h2 className="text-3xl font-bold text-gray-800">Settings</h2>
@@ -193,6 +1042,32 @@ export const SettingsModule: React.FC = () => {
              <SettingsCard title="Report Configuration">
                 <FormTextarea label="Custom Report Footer" id="reportFooter" value={reportFooter} onChange={(e) => setReportFooter(e.target.value)} rows={2} placeholder="e.g., 'Confidential: For Internal Use Only'" />
                 <p className="text-xs text-gray-500">This text will appear at the bottom of all exported PDF reports.</p>
+                <SignOffSettings value={requiredSignatures} onChange={setRequiredSignatures} />
+            </SettingsCard>
+
+            <RubricsCard />
+
+            {user && <MyAccountCard user={user} />}
+
+            <SupervisorAccountsCard user={user} />
+
+            <AppLockCard />
+
+            {!user && (
+                <SettingsCard title="Audit Trail">
+                    <FormInput label="Acting Supervisor" id="actingSupervisor" value={actingSupervisor} onChange={(e) => setActingSupervisor(e.target.value)} placeholder="e.g., Mrs. Jane Doe" />
+                    <p className="text-xs text-gray-500">This name is recorded against every report you create, edit or delete, and shown in each report's History tab. Once supervisor accounts exist, the signed-in supervisor is recorded instead.</p>
+                </SettingsCard>
+            )}
+
+            <SettingsCard title="Recycle Bin">
+                <FormInput label="Keep deleted items for (days)" id="recycleBinRetentionDays" type="number" value={retentionDays} onChange={(e) => setRetentionDays(e.target.value)} />
+                <p className="text-xs text-gray-500">Deleted teachers and reports are purged permanently once they have been in the recycle bin longer than this.</p>
+            </SettingsCard>
+
+            <SettingsCard title="Restore Points">
+                <FormInput label="Number of restore points to keep" id="restorePointRetention" type="number" value={restorePointRetention} onChange={(e) => setRestorePointRetention(e.target.value)} />
+                <p className="text-xs text-gray-500">A snapshot of all data, including report attachments, is taken before every import, merge, bulk delete or clear. A daily snapshot leaves out attachments. The oldest snapshots are removed once there are more than this.</p>
             </SettingsCard>
             
             <div className="flex justify-end">
@@ -201,11 +1076,26 @@ export const SettingsModule: React.FC = () => {
                 </button>
             </div>
 
+            <AcademicTermsCard activeTermId={settings.find(s => s.key === ACTIVE_TERM_KEY)?.value} />
+
+            <UnlinkedReportsCard migration={settings.find(s => s.key === TEACHER_LINK_MIGRATION_KEY)?.value} />
+
             <SettingsCard title="Data Management">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div className="flex flex-col space-y-2">
                         <h4 className="font-medium text-gray-700">Export Data</h4>
-                        <p className="text-sm text-gray-500">Download a full backup of all teachers, reports, and settings as a single JSON file.</p>
+                        <p className="text-sm text-gray-500">Download a full backup of all teachers, reports, and settings as a single JSON file. Supervisor accounts are only included when the backup is encrypted.</p>
+                        <label className="inline-flex items-center text-sm text-gray-700">
+                            <input type="checkbox" className="mr-2" checked={encryptExport} onChange={e => setEncryptExport(e.target.checked)} />
+                            Encrypt with a password ({ENCRYPTED_BACKUP_EXTENSION} file)
+                        </label>
+                        {encryptExport && (
+                            <div className="space-y-2">
+                                <FormInput label="Backup Password" id="exportPassword" type="password" value={exportPassword} onChange={e => setExportPassword(e.target.value)} />
+                                <FormInput label="Confirm Password" id="exportPasswordConfirm" type="password" value={exportPasswordConfirm} onChange={e => setExportPasswordConfirm(e.target.value)} />
+                                <p className="text-xs text-gray-500">The password is not stored anywhere. Without it the backup cannot be restored.</p>
+                            </div>
+                        )}
                         <div className="pt-2">
                             <button onClick={handleExportData} className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50">
                                 <DownloadIcon className="w-5 h-5 mr-2" />
@@ -215,18 +1105,30 @@ export const SettingsModule: React.FC = () => {
                     </div>
                      <div className="flex flex-col space-y-2">
                         <h4 className="font-medium text-gray-700">Import Data</h4>
-                        <p className="text-sm text-gray-500">Restore application data from a previously exported backup file. This will overwrite existing data.</p>
+                        <p className="text-sm text-gray-500">Restore application data from a previously exported backup file, or merge in data collected on another device. You will see a preview before anything is written.</p>
+                        <div className="flex space-x-4 text-sm text-gray-700">
+                            <label className="inline-flex items-center">
+                                <input type="radio" name="importMode" className="mr-2" checked={importMode === 'replace'} onChange={() => setImportMode('replace')} />
+                                Replace all data
+                            </label>
+                            <label className="inline-flex items-center">
+                                <input type="radio" name="importMode" className="mr-2" checked={importMode === 'merge'} onChange={() => setImportMode('merge')} />
+                                Merge with existing data
+                            </label>
+                        </div>
                          <div className="pt-2">
                             <label className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
                                 <UploadIcon className="w-5 h-5 mr-2" />
                                 Import from File
-                                <input type="file" className="hidden" accept=".json" onChange={handleImportData} />
+                                <input type="file" className="hidden" accept={`.json,${ENCRYPTED_BACKUP_EXTENSION}`} onChange={handleImportData} />
                             </label>
                         </div>
                     </div>
                 </div>
             </SettingsCard>
 
+            <RestorePointsCard onPreview={handlePreviewRestorePoint} onCreate={handleCreateRestorePoint} />
+
             <div className="border-l-4 border-red-400 bg-red-50 p-4 rounded-r-lg">
                 <div className="flex">
                     <div className="flex-shrink-0">
@@ -235,7 +1137,7 @@ export const SettingsModule: React.FC = () => {
                     <div className="ml-3">
                         <h3 className="text-lg font-medium text-red-800">Danger Zone</h3>
                         <div className="mt-2 text-sm text-red-700">
-                            <p>This action will permanently delete all data, including teachers, reports, and settings. This cannot be undone.</p>
+                            <p>This action will permanently delete all data, including teachers, reports, and settings. A restore point is taken first and is the only way to recover it.</p>
                         </div>
                         <div className="mt-4">
                             <button onClick={handleClearData} className="px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500">
@@ -245,6 +1147,40 @@ export const SettingsModule: React.FC = () => {
                     </div>
                 </div>
             </div>
+
+            {encryptedImport && (
+                <BackupPasswordModal
+                    fileName={encryptedImport.fileName}
+                    error={encryptedImport.error}
+                    isDecrypting={isDecrypting}
+                    onSubmit={handleDecryptImport}
+                    onCancel={() => setEncryptedImport(null)}
+                />
+            )}
+
+            {importPreview?.plan && (
+                <MergePreviewModal
+                    preview={importPreview.preview}
+                    plan={importPreview.plan}
+                    info={importPreview.info}
+                    fileName={importPreview.fileName}
+                    isImporting={isImporting}
+                    onConfirm={handleConfirmMerge}
+                    onCancel={() => setImportPreview(null)}
+                />
+            )}
+
+            {importPreview && !importPreview.plan && (
+                <ImportPreviewModal
+                    preview={importPreview.preview}
+                    info={importPreview.info}
+                    fileName={importPreview.fileName}
+                    title={importPreview.restorePoint ? 'Restore Point Preview' : undefined}
+                    isImporting={isImporting}
+                    onConfirm={handleConfirmImport}
+                    onCancel={() => setImportPreview(null)}
+                />
+            )}
         </div>
     );
 };
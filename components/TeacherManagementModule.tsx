@@ -1,33 +1,65 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { Teacher } from '../types';
-import { dbTyped } from '../utils/db';
-import { FormInput, FormTextarea, ReportHeader } from './common/ReportComponents';
-import { TrashIcon, UserGroupIcon } from './Icons';
+import { Teacher, Report, ReportTableName, SchoolClass, Subject, TeacherAssignment, Department } from '../types';
+import { dbTyped, activeRows, REPORT_TABLES } from '../utils/db';
+import { createRestorePoint } from '../utils/restorePoints';
+import { assignmentKey, formatAssignment, sortByName } from '../utils/catalog';
+import { isInDepartment, ALL_DEPARTMENTS } from '../utils/departments';
+import { CurrentUser, PermissionError, assertAdmin, isAdmin } from '../utils/permissions';
+import { auditTables, updateReportsWithAudit } from '../utils/audit';
+import { isClosed } from '../utils/reportWorkflow';
+import { withoutInvalidSignatures } from '../utils/signatures';
+import { createId } from '../utils/ids';
+import { DepartmentFilter } from './common/DepartmentFilter';
+import { FormInput, FormTextarea, FormSelect, ReportHeader } from './common/ReportComponents';
+import { TrashIcon, UserGroupIcon, ExclamationTriangleIcon } from './Icons';
 import { useLiveQuery } from '../hooks/useLocalStorage';
 
 const TeacherForm: React.FC<{
-    onSave: (teacher: Teacher) => void;
+    onSave: (teacher: Teacher) => Promise<void>;
     onCancel: () => void;
     initialData?: Teacher;
-}> = ({ onSave, onCancel, initialData }) => {
+    classes: SchoolClass[];
+    subjects: Subject[];
+    departments: Department[];
+}> = ({ onSave, onCancel, initialData, classes, subjects, departments }) => {
     const [name, setName] = useState(initialData?.name || '');
-    const [subjects, setSubjects] = useState(initialData?.subjects.join(', ') || '');
-    const [classes, setClasses] = useState(initialData?.classes.join(', ') || '');
+    const [departmentId, setDepartmentId] = useState(initialData?.departmentId || '');
+    const [assignments, setAssignments] = useState<TeacherAssignment[]>(initialData?.assignments || []);
+    const [newClassId, setNewClassId] = useState('');
+    const [newSubjectId, setNewSubjectId] = useState('');
     const [error, setError] = useState('');
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleAddAssignment = () => {
+        if (!newClassId || !newSubjectId) return;
+        const assignment = { classId: newClassId, subjectId: newSubjectId };
+        if (!assignments.some(a => assignmentKey(a) === assignmentKey(assignment))) {
+            setAssignments([...assignments, assignment]);
+        }
+        setNewSubjectId('');
+    };
+
+    const handleRemoveAssignment = (assignment: TeacherAssignment) => {
+        setAssignments(assignments.filter(a => assignmentKey(a) !== assignmentKey(assignment)));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!name.trim()) {
             setError('Teacher name is required.');
             return;
         }
         setError('');
-        onSave({
-            id: initialData?.id || Date.now().toString(),
-            name: name.trim(),
-            subjects: subjects.split(',').map(s => s.trim()).filter(Boolean),
-            classes: classes.split(',').map(c => c.trim()).filter(Boolean),
-        });
+        try {
+            await onSave({
+                ...initialData,
+                id: initialData?.id || createId(),
+                name: name.trim(),
+                assignments,
+                departmentId: departmentId || undefined,
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the teacher.');
+        }
     };
 
     return (
@@ -44,22 +76,41 @@ const TeacherForm: React.FC<{
                 />
                 {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
             </div>
-            <FormTextarea
-                label="Subjects Taught (comma-separated)"
-                id="subjects"
-                value={subjects}
-                onChange={(e) => setSubjects(e.target.value)}
-                placeholder="e.g., Math, Science, History"
-                rows={3}
-            />
-            <FormTextarea
-                label="Classes Handled (comma-separated)"
-                id="classes"
-                value={classes}
-                onChange={(e) => setClasses(e.target.value)}
-                placeholder="e.g., Grade 5A, Grade 6B"
-                rows={3}
-            />
+            <FormSelect label="Department" id="departmentId" value={departmentId} onChange={(e) => setDepartmentId(e.target.value)}>
+                <option value="">No department</option>
+                {sortByName<Department>(departments).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+            </FormSelect>
+            <div>
+                <h4 className="block text-sm font-medium text-gray-700">Classes & Subjects Taught</h4>
+                {assignments.length > 0 ? (
+                    <ul className="mt-2 divide-y divide-gray-200 border rounded-md">
+                        {assignments.map(assignment => (
+                            <li key={assignmentKey(assignment)} className="px-3 py-2 flex justify-between items-center text-sm text-gray-800">
+                                {formatAssignment(assignment, classes, subjects)}
+                                <button type="button" onClick={() => handleRemoveAssignment(assignment)} className="p-1 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full">
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="mt-1 text-sm text-gray-500">No classes assigned yet.</p>
+                )}
+                <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                    <FormSelect label="Class" id="newClassId" value={newClassId} onChange={(e) => setNewClassId(e.target.value)}>
+                        <option value="">Select a class</option>
+                        {sortByName<SchoolClass>(classes).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </FormSelect>
+                    <FormSelect label="Subject" id="newSubjectId" value={newSubjectId} onChange={(e) => setNewSubjectId(e.target.value)}>
+                        <option value="">Select a subject</option>
+                        {sortByName<Subject>(subjects).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </FormSelect>
+                    <button type="button" onClick={handleAddAssignment} disabled={!newClassId || !newSubjectId} className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200 disabled:opacity-50">
+                        Add Assignment
+                    </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">Classes and subjects are managed on the Classes & Subjects page.</p>
+            </div>
             <div className="flex justify-end space-x-4 pt-4 border-t">
                 <button type="button" onClick={onCancel} className="px-6 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">Cancel</button>
                 <button type="submit" className="px-6 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">Save Teacher</button>
@@ -70,38 +121,206 @@ const TeacherForm: React.FC<{
 
 const TeacherListItem: React.FC<{
     teacher: Teacher;
+    classes: SchoolClass[];
+    subjects: Subject[];
+    department?: Department;
     onEdit: (teacher: Teacher) => void;
     onDelete: (id: string) => void;
     onViewProfile: (id: string) => void;
-}> = ({ teacher, onEdit, onDelete, onViewProfile }) => (
+    onRestore: (id: string) => void;
+    canManage: boolean;
+}> = ({ teacher, classes, subjects, department, onEdit, onDelete, onViewProfile, onRestore, canManage }) => (
     <div className="bg-white p-4 rounded-lg shadow-sm flex justify-between items-center transition hover:shadow-md">
         <div>
-            <p className="font-semibold text-indigo-700 text-lg">{teacher.name}</p>
-            <p className="text-sm text-gray-600">
-                <span className="font-medium">Subjects:</span> {teacher.subjects.join(', ') || 'N/A'}
+            <p className="font-semibold text-indigo-700 text-lg">
+                {teacher.name}
+                {teacher.archived && <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-200 text-gray-700">Archived</span>}
+                {department && <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-indigo-100 text-indigo-800">{department.headTeacherId === teacher.id ? `Head of ${department.name}` : department.name}</span>}
             </p>
             <p className="text-sm text-gray-600">
-                <span className="font-medium">Classes:</span> {teacher.classes.join(', ') || 'N/A'}
+                <span className="font-medium">Teaches:</span> {teacher.assignments.map(a => formatAssignment(a, classes, subjects)).sort().join(', ') || 'N/A'}
             </p>
         </div>
         <div className="space-x-2">
             <button onClick={() => onViewProfile(teacher.id)} className="px-3 py-1 text-sm font-medium text-green-700 bg-green-100 rounded-md hover:bg-green-200">View Profile</button>
-            <button onClick={() => onEdit(teacher)} className="px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">Edit</button>
-            <button onClick={() => onDelete(teacher.id)} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full">
-                <TrashIcon className="w-5 h-5" />
-            </button>
+            {canManage && (
+                <>
+                    <button onClick={() => onEdit(teacher)} className="px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">Edit</button>
+                    {teacher.archived && (
+                        <button onClick={() => onRestore(teacher.id)} className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">Unarchive</button>
+                    )}
+                    <button onClick={() => onDelete(teacher.id)} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full">
+                        <TrashIcon className="w-5 h-5" />
+                    </button>
+                </>
+            )}
         </div>
     </div>
 );
 
+type ReportCounts = Record<ReportTableName, number>;
+
+const DeleteTeacherModal: React.FC<{
+    teacher: Teacher;
+    teachers: Teacher[];
+    onClose: () => void;
+}> = ({ teacher, teachers, onClose }) => {
+    const [counts, setCounts] = useState<ReportCounts | null>(null);
+    const [action, setAction] = useState<'archive' | 'reassign' | 'delete'>(teacher.archived ? 'reassign' : 'archive');
+    const [reassignToId, setReassignToId] = useState('');
+    const [error, setError] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+
+    useEffect(() => {
+        const countReports = async () => {
+            const entries = await Promise.all(REPORT_TABLES.map(async (table: ReportTableName) =>
+                [table, await dbTyped[table].where('teacherId').equals(teacher.id).filter((r: { deletedAt?: string }) => !r.deletedAt).count()] as const
+            ));
+            setCounts(Object.fromEntries(entries) as ReportCounts);
+        };
+        countReports();
+    }, [teacher.id]);
+
+    const totalReports = counts ? REPORT_TABLES.reduce((acc, table) => acc + counts[table], 0) : 0;
+    const reassignOptions = teachers.filter(t => t.id !== teacher.id && !t.archived).sort((a, b) => a.name.localeCompare(b.name));
+
+    const handleConfirm = async () => {
+        if (action === 'reassign' && !reassignToId) {
+            setError('Select a teacher to receive the reports.');
+            return;
+        }
+        setIsWorking(true);
+        try {
+            const tables = [dbTyped.teachers, ...REPORT_TABLES.map(table => dbTyped[table]), ...auditTables()];
+            const deletedAt = new Date().toISOString();
+            const updatedAt = deletedAt;
+            if (action === 'delete' && totalReports > 0) {
+                await createRestorePoint('before-bulk-delete', `Deleted ${teacher.name} and ${totalReports} report(s)`);
+            }
+            await dbTyped.teachers.db.transaction('rw', tables, async () => {
+                await assertAdmin();
+                if (action === 'archive') {
+                    await dbTyped.teachers.update(teacher.id, { archived: true, updatedAt });
+                    return;
+                }
+                const reportsByTable = [];
+                for (const table of REPORT_TABLES) {
+                    reportsByTable.push(await dbTyped[table].where('teacherId').equals(teacher.id).toArray() as Report[]);
+                }
+                // Reassigning moves binned reports too; deleting only touches the live ones.
+                const closedCount = reportsByTable.flat().filter(report => isClosed(report) && (action === 'reassign' || !report.deletedAt)).length;
+                if (closedCount > 0) {
+                    throw new PermissionError(`${closedCount} of ${teacher.name}'s report(s) are closed. Raise an amendment on them before ${action === 'reassign' ? 'reassigning' : 'deleting'}.`);
+                }
+                if (action === 'reassign') {
+                    const target = teachers.find(t => t.id === reassignToId)!;
+                    // The signatures were given for the original teacher, so they no longer hold.
+                    for (let i = 0; i < REPORT_TABLES.length; i++) {
+                        await updateReportsWithAudit(REPORT_TABLES[i], 'update', reportsByTable[i], report =>
+                            withoutInvalidSignatures({ ...report, teacherId: target.id, teacherName: target.name }));
+                    }
+                } else {
+                    for (let i = 0; i < REPORT_TABLES.length; i++) {
+                        await updateReportsWithAudit(REPORT_TABLES[i], 'delete', reportsByTable[i].filter(report => !report.deletedAt), report => ({ ...report, deletedAt }));
+                    }
+                }
+                await dbTyped.teachers.update(teacher.id, { deletedAt, updatedAt });
+            });
+            onClose();
+        } catch (err) {
+            console.error('Failed to delete teacher:', err);
+            setError(err instanceof PermissionError ? err.message : 'The operation failed. No changes were made.');
+            setIsWorking(false);
+        }
+    };
+
+    const optionClass = (value: typeof action) =>
+        `flex items-start p-3 border rounded-md cursor-pointer ${action === value ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300'}`;
+
+    return (
+        <div className="fixed inset-0 bg-gray-800 bg-opacity-75 z-50 flex justify-center items-center p-4" aria-modal="true" role="dialog">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-lg flex flex-col animate-fade-in-scale">
+                <div className="p-4 border-b flex justify-between items-center bg-gray-50 rounded-t-lg">
+                    <h3 className="text-lg font-semibold text-gray-800">Remove {teacher.name}</h3>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-900 text-2xl font-bold">&times;</button>
+                </div>
+                <div className="p-6 space-y-4">
+                    {counts ? (
+                        <div className="flex items-start text-sm text-gray-700">
+                            <ExclamationTriangleIcon className="w-5 h-5 mr-2 text-yellow-500 flex-shrink-0" />
+                            <p>
+                                This teacher is referenced by {counts.supervisionReports} supervision, {counts.bookCheckingReports} book checking,
+                                {' '}{counts.workCoverageReports} work coverage and {counts.customReports} custom report(s).
+                            </p>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-500">Counting reports...</p>
+                    )}
+
+                    {!teacher.archived && (
+                        <label className={optionClass('archive')}>
+                            <input type="radio" name="deleteAction" className="mt-1 mr-3" checked={action === 'archive'} onChange={() => setAction('archive')} />
+                            <span>
+                                <span className="block font-medium text-gray-800">Archive teacher</span>
+                                <span className="block text-sm text-gray-500">Hide from report forms but keep the teacher and all their history.</span>
+                            </span>
+                        </label>
+                    )}
+                    <label className={optionClass('reassign')}>
+                        <input type="radio" name="deleteAction" className="mt-1 mr-3" checked={action === 'reassign'} onChange={() => setAction('reassign')} />
+                        <span className="flex-grow">
+                            <span className="block font-medium text-gray-800">Reassign reports and delete</span>
+                            <span className="block text-sm text-gray-500">Move all {totalReports} report(s) to another teacher, then move this teacher to the recycle bin. Signatures on the reports are removed, and closed reports need an amendment first.</span>
+                            {action === 'reassign' && (
+                                <span className="block mt-2">
+                                    <FormSelect label="Reassign to" id="reassignTo" value={reassignToId} onChange={(e) => { setReassignToId(e.target.value); setError(''); }}>
+                                        <option value="">Select a teacher</option>
+                                        {reassignOptions.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                    </FormSelect>
+                                </span>
+                            )}
+                        </span>
+                    </label>
+                    <label className={optionClass('delete')}>
+                        <input type="radio" name="deleteAction" className="mt-1 mr-3" checked={action === 'delete'} onChange={() => setAction('delete')} />
+                        <span>
+                            <span className="block font-medium text-red-700">Delete teacher and all reports</span>
+                            <span className="block text-sm text-gray-500">Move the teacher and {totalReports} report(s) to the recycle bin. They are purged permanently after the retention period. Closed reports need an amendment first.</span>
+                        </span>
+                    </label>
+                    {error && <p className="text-red-500 text-xs">{error}</p>}
+                </div>
+                <div className="p-4 border-t flex justify-end space-x-4 bg-gray-50 rounded-b-lg">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={!counts || isWorking}
+                        className={`px-4 py-2 text-sm font-medium rounded-md text-white disabled:opacity-50 ${action === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+                    >
+                        {isWorking ? 'Working...' : action === 'archive' ? 'Archive Teacher' : action === 'reassign' ? 'Reassign & Delete' : 'Delete Everything'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 export const TeacherManagementModule: React.FC<{ 
+    user: CurrentUser;
     onViewProfile: (teacherId: string) => void;
     initialTeacherToEditId?: string | null;
     onClearTeacherToEdit: () => void;
-}> = ({ onViewProfile, initialTeacherToEditId, onClearTeacherToEdit }) => {
-    const teachers = useLiveQuery<Teacher[]>(() => dbTyped.teachers.toArray(), []) ?? [];
+}> = ({ user, onViewProfile, initialTeacherToEditId, onClearTeacherToEdit }) => {
+    const teachers = useLiveQuery<Teacher[]>(() => activeRows(dbTyped.teachers), []) ?? [];
+    const classes = useLiveQuery<SchoolClass[]>(() => dbTyped.classes.toArray(), []) ?? [];
+    const subjects = useLiveQuery<Subject[]>(() => dbTyped.subjects.toArray(), []) ?? [];
+    const departments = useLiveQuery<Department[]>(() => dbTyped.departments.toArray(), []) ?? [];
     const [view, setView] = useState<'LIST' | 'FORM'>('LIST');
+    const [departmentFilter, setDepartmentFilter] = useState(ALL_DEPARTMENTS);
     const [selectedTeacher, setSelectedTeacher] = useState<Teacher | undefined>(undefined);
+    const [teacherToDelete, setTeacherToDelete] = useState<Teacher | undefined>(undefined);
 
     useEffect(() => {
         if (initialTeacherToEditId) {
@@ -113,16 +332,41 @@ export const TeacherManagementModule: React.FC<{
         }
     }, [initialTeacherToEditId, teachers]);
 
+    // Errors reach the form, which shows them and stays open.
     const handleSave = useCallback(async (teacher: Teacher) => {
-        await dbTyped.teachers.put(teacher);
+        await dbTyped.teachers.db.transaction('rw', [dbTyped.teachers, dbTyped.departments, ...REPORT_TABLES.map(table => dbTyped[table]), ...auditTables()], async () => {
+            await assertAdmin();
+            const updatedAt = new Date().toISOString();
+            await dbTyped.teachers.put({ ...teacher, updatedAt });
+            // A head of department who moves out of the department no longer leads it.
+            await dbTyped.departments
+                .filter((d: Department) => d.headTeacherId === teacher.id && d.id !== teacher.departmentId)
+                .modify({ headTeacherId: undefined, updatedAt });
+            // Keep the name snapshot on linked reports in sync so lists, search and PDFs show the new name.
+            // The snapshot is not signed, so this applies to closed reports too and keeps their signatures.
+            for (const table of REPORT_TABLES) {
+                const renamed = (await dbTyped[table].where('teacherId').equals(teacher.id).toArray() as Report[])
+                    .filter(report => report.teacherName !== teacher.name);
+                await updateReportsWithAudit(table, 'update', renamed, report => ({ ...report, teacherName: teacher.name }));
+            }
+        });
         setView('LIST');
         setSelectedTeacher(undefined);
         if(initialTeacherToEditId) onClearTeacherToEdit();
     }, [initialTeacherToEditId, onClearTeacherToEdit]);
 
-    const handleDelete = useCallback(async (id: string) => {
-        if (window.confirm('Are you sure you want to delete this teacher? This action cannot be undone.')) {
-            await dbTyped.teachers.delete(id);
+    const handleDelete = useCallback((id: string) => {
+        setTeacherToDelete(teachers.find(t => t.id === id));
+    }, [teachers]);
+
+    const handleRestore = useCallback(async (id: string) => {
+        try {
+            await dbTyped.teachers.db.transaction('rw', dbTyped.teachers, dbTyped.supervisors, async () => {
+                await assertAdmin();
+                await dbTyped.teachers.update(id, { archived: false, updatedAt: new Date().toISOString() });
+            });
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to unarchive the teacher.');
         }
     }, []);
     
@@ -142,28 +386,36 @@ export const TeacherManagementModule: React.FC<{
         if(initialTeacherToEditId) onClearTeacherToEdit();
     }
 
+    const filteredTeachers = teachers.filter(t => isInDepartment(t, departmentFilter));
+
     if (view === 'FORM') {
-        return <TeacherForm onSave={handleSave} onCancel={handleCancelForm} initialData={selectedTeacher} />;
+        return <TeacherForm onSave={handleSave} onCancel={handleCancelForm} initialData={selectedTeacher} classes={classes} subjects={subjects} departments={departments} />;
     }
 
     return (
         <div>
-            <ReportHeader title="Manage Teachers" onAddNew={handleAddNew} />
+            <ReportHeader title={isAdmin(user) ? 'Manage Teachers' : 'Teachers'} onAddNew={isAdmin(user) ? handleAddNew : undefined} />
+            <div className="mb-6 p-4 bg-gray-50 border rounded-lg sm:w-1/3">
+                <DepartmentFilter value={departmentFilter} onChange={setDepartmentFilter} />
+            </div>
             <div className="space-y-4">
-                {teachers.length > 0 ? (
-                    teachers
+                {filteredTeachers.length > 0 ? (
+                    filteredTeachers
                         .sort((a, b) => a.name.localeCompare(b.name))
                         .map(teacher => (
-                            <TeacherListItem key={teacher.id} teacher={teacher} onEdit={handleEdit} onDelete={handleDelete} onViewProfile={onViewProfile} />
+                            <TeacherListItem key={teacher.id} teacher={teacher} classes={classes} subjects={subjects} department={departments.find(d => d.id === teacher.departmentId)} onEdit={handleEdit} onDelete={handleDelete} onViewProfile={onViewProfile} onRestore={handleRestore} canManage={isAdmin(user)} />
                         ))
                 ) : (
                     <div className="text-center text-gray-500 py-12 bg-gray-50 rounded-lg">
                         <UserGroupIcon className="mx-auto h-12 w-12 text-gray-400" />
                         <h3 className="mt-2 text-lg font-medium">No Teachers Found</h3>
-                        <p className="mt-1 text-sm">Get started by adding a new teacher.</p>
+                        <p className="mt-1 text-sm">{departmentFilter ? 'No teachers match the selected department.' : 'Get started by adding a new teacher.'}</p>
                     </div>
                 )}
             </div>
+            {teacherToDelete && (
+                <DeleteTeacherModal teacher={teacherToDelete} teachers={teachers} onClose={() => setTeacherToDelete(undefined)} />
+            )}
         </div>
     );
 };
@@ -1,12 +1,21 @@
 import React, { useMemo } from 'react';
-import { Page, Teacher, SupervisionReport, BookCheckingReport, WorkCoverageReport } from '../types';
-import { dbTyped } from '../utils/db';
+import { Page, Teacher, SupervisionReport, BookCheckingReport, WorkCoverageReport, AcademicTerm, SchoolClass, Subject, Department } from '../types';
+import { dbTyped, activeRows, countedReports } from '../utils/db';
+import { filterByTerm, formatTermLabel } from '../utils/terms';
+import { formatAssignment } from '../utils/catalog';
+import { formatWeeksBehind } from '../utils/schemesOfWork';
 import { ChevronLeftIcon, UserCircleIcon, ClipboardIcon, BookOpenIcon, ChartBarIcon, PencilIcon } from './Icons';
 import { useLiveQuery } from '../hooks/useLocalStorage';
+import { CoverageSummary } from './common/CoverageSummary';
+import { CurrentUser, isAdmin, canWriteReports } from '../utils/permissions';
 
 interface TeacherProfilePageProps {
     teacherId: string;
+    term: AcademicTerm | null;
+    user: CurrentUser;
     onViewReport: (page: Page, reportId: string) => void;
+    // Opens the form for a follow-up report with the same teacher, class and subject.
+    onNewFromPrevious: (page: Page, reportId: string) => void;
     onNavigate: (page: Page) => void;
     onEditTeacher: (teacherId: string) => void;
 }
@@ -30,19 +39,27 @@ const ReportTypeBadge: React.FC<{ type: 'Supervision' | 'Book Checking' | 'Work
     return <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${colors[type]}`}>{type}</span>;
 }
 
-export const TeacherProfilePage: React.FC<TeacherProfilePageProps> = ({ teacherId, onViewReport, onNavigate, onEditTeacher }) => {
-    const teachers = useLiveQuery<Teacher[]>(() => dbTyped.teachers.toArray(), []) ?? [];
-    const supervisionReports = useLiveQuery<SupervisionReport[]>(() => dbTyped.supervisionReports.toArray(), []) ?? [];
-    const bookCheckingReports = useLiveQuery<BookCheckingReport[]>(() => dbTyped.bookCheckingReports.toArray(), []) ?? [];
-    const workCoverageReports = useLiveQuery<WorkCoverageReport[]>(() => dbTyped.workCoverageReports.toArray(), []) ?? [];
+export const TeacherProfilePage: React.FC<TeacherProfilePageProps> = ({ teacherId, term, user, onViewReport, onNewFromPrevious, onNavigate, onEditTeacher }) => {
+    const teachers = useLiveQuery<Teacher[]>(() => activeRows(dbTyped.teachers), []) ?? [];
+    const classes = useLiveQuery<SchoolClass[]>(() => dbTyped.classes.toArray(), []) ?? [];
+    const subjects = useLiveQuery<Subject[]>(() => dbTyped.subjects.toArray(), []) ?? [];
+    const departments = useLiveQuery<Department[]>(() => dbTyped.departments.toArray(), []) ?? [];
+    const allSupervisionReports = useLiveQuery<SupervisionReport[]>(() => activeRows(dbTyped.supervisionReports), []) ?? [];
+    const allBookCheckingReports = useLiveQuery<BookCheckingReport[]>(() => activeRows(dbTyped.bookCheckingReports), []) ?? [];
+    const allWorkCoverageReports = useLiveQuery<WorkCoverageReport[]>(() => activeRows(dbTyped.workCoverageReports), []) ?? [];
+
+    const supervisionReports = useMemo(() => filterByTerm(countedReports(allSupervisionReports), term), [allSupervisionReports, term]);
+    const bookCheckingReports = useMemo(() => filterByTerm(countedReports(allBookCheckingReports), term), [allBookCheckingReports, term]);
+    const workCoverageReports = useMemo(() => filterByTerm(countedReports(allWorkCoverageReports), term), [allWorkCoverageReports, term]);
 
     const teacher = useMemo(() => teachers.find(t => t.id === teacherId), [teachers, teacherId]);
+    const department = useMemo(() => departments.find(d => d.id === teacher?.departmentId), [departments, teacher]);
 
     const allReports = useMemo(() => {
         if (!teacher) return [];
-        const mappedSupervision = supervisionReports.filter(r => r.teacherName === teacher.name).map(r => ({ ...r, type: 'Supervision', page: Page.SUPERVISION }));
-        const mappedBookChecking = bookCheckingReports.filter(r => r.teacherName === teacher.name).map(r => ({ ...r, type: 'Book Checking', page: Page.BOOK_CHECKING }));
-        const mappedWorkCoverage = workCoverageReports.filter(r => r.teacherName === teacher.name).map(r => ({ ...r, type: 'Work Coverage', page: Page.WORK_COVERAGE }));
+        const mappedSupervision = supervisionReports.filter(r => r.teacherId === teacher.id).map(r => ({ ...r, type: 'Supervision', page: Page.SUPERVISION }));
+        const mappedBookChecking = bookCheckingReports.filter(r => r.teacherId === teacher.id).map(r => ({ ...r, type: 'Book Checking', page: Page.BOOK_CHECKING }));
+        const mappedWorkCoverage = workCoverageReports.filter(r => r.teacherId === teacher.id).map(r => ({ ...r, type: 'Work Coverage', page: Page.WORK_COVERAGE }));
 
         return [...mappedSupervision, ...mappedBookChecking, ...mappedWorkCoverage]
             .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
@@ -74,31 +91,43 @@ export const TeacherProfilePage: React.FC<TeacherProfilePageProps> = ({ teacherI
                 <div className="flex flex-col sm:flex-row items-center space-x-0 sm:space-x-6">
                     <UserCircleIcon className="w-24 h-24 text-gray-400 mb-4 sm:mb-0" />
                     <div className="text-center sm:text-left flex-grow">
-                        <h1 className="text-3xl font-bold text-gray-900">{teacher.name}</h1>
+                        <h1 className="text-3xl font-bold text-gray-900">
+                            {teacher.name}
+                            {teacher.archived && <span className="ml-3 px-2 align-middle inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-200 text-gray-700">Archived</span>}
+                        </h1>
                         <p className="text-md text-gray-600 mt-1">
-                            <span className="font-semibold">Subjects:</span> {teacher.subjects.join(', ') || 'N/A'}
-                        </p>
-                        <p className="text-md text-gray-600">
-                            <span className="font-semibold">Classes:</span> {teacher.classes.join(', ') || 'N/A'}
+                            <span className="font-semibold">Teaches:</span> {teacher.assignments.map(a => formatAssignment(a, classes, subjects)).sort().join(', ') || 'N/A'}
                         </p>
+                        {department && (
+                            <p className="text-md text-gray-600 mt-1">
+                                <span className="font-semibold">Department:</span> {department.name}{department.headTeacherId === teacher.id && ' (Head of Department)'}
+                            </p>
+                        )}
                     </div>
-                    <button 
-                        onClick={() => onEditTeacher(teacher.id)} 
-                        className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
-                        <PencilIcon className="w-4 h-4 mr-2" />
-                        Edit Teacher
-                    </button>
+                    {isAdmin(user) && (
+                        <button 
+                            onClick={() => onEditTeacher(teacher.id)} 
+                            className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                            <PencilIcon className="w-4 h-4 mr-2" />
+                            Edit Teacher
+                        </button>
+                    )}
                 </div>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-                <StatCard title="Supervision Reports" value={supervisionReports.filter(r => r.teacherName === teacher.name).length} icon={<ClipboardIcon className="w-6 h-6" />} />
-                <StatCard title="Book Checking Reports" value={bookCheckingReports.filter(r => r.teacherName === teacher.name).length} icon={<BookOpenIcon className="w-6 h-6" />} />
-                <StatCard title="Work Coverage Reports" value={workCoverageReports.filter(r => r.teacherName === teacher.name).length} icon={<ChartBarIcon className="w-6 h-6" />} />
+                <StatCard title="Supervision Reports" value={supervisionReports.filter(r => r.teacherId === teacher.id).length} icon={<ClipboardIcon className="w-6 h-6" />} />
+                <StatCard title="Book Checking Reports" value={bookCheckingReports.filter(r => r.teacherId === teacher.id).length} icon={<BookOpenIcon className="w-6 h-6" />} />
+                <StatCard title="Work Coverage Reports" value={workCoverageReports.filter(r => r.teacherId === teacher.id).length} icon={<ChartBarIcon className="w-6 h-6" />} />
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
+                <h2 className="text-2xl font-bold text-gray-800 mb-4">Syllabus Coverage</h2>
+                <CoverageSummary reports={workCoverageReports.filter(r => r.teacherId === teacher.id)} onViewReport={reportId => onViewReport(Page.WORK_COVERAGE, reportId)} />
             </div>
 
             <div>
-                <h2 className="text-2xl font-bold text-gray-800 mb-4">Recent Activity</h2>
+                <h2 className="text-2xl font-bold text-gray-800 mb-4">Recent Activity{term && <span className="ml-2 text-base font-normal text-gray-500">{formatTermLabel(term)}</span>}</h2>
                 <div className="bg-white rounded-lg shadow-sm">
                     <ul className="divide-y divide-gray-200">
                         {allReports.length > 0 ? allReports.map(report => (
@@ -110,15 +139,23 @@ export const TeacherProfilePage: React.FC<TeacherProfilePageProps> = ({ teacherI
                                     </div>
                                     <p className="text-sm text-gray-500 mt-1">
                                         Class: {report.className} &bull; Date: {new Date(report.date).toLocaleDateString()}
+                                        {report.coveragePercent !== undefined && <> &bull; {report.coveragePercent}% covered, {formatWeeksBehind(report.weeksBehind ?? 0).toLowerCase()}</>}
                                     </p>
                                 </div>
-                                <button onClick={() => onViewReport(report.page, report.id)} className="px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">
-                                    View
-                                </button>
+                                <div className="flex space-x-2">
+                                    {canWriteReports(user) && (
+                                        <button onClick={() => onNewFromPrevious(report.page, report.id)} className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">
+                                            New from Previous
+                                        </button>
+                                    )}
+                                    <button onClick={() => onViewReport(report.page, report.id)} className="px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">
+                                        View
+                                    </button>
+                                </div>
                             </li>
                         )) : (
                             <li className="px-6 py-8 text-center text-gray-500">
-                                No reports found for this teacher.
+                                {term ? 'No reports found for this teacher in the selected term.' : 'No reports found for this teacher.'}
                             </li>
                         )}
                     </ul>
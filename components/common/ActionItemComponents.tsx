@@ -0,0 +1,138 @@
+import React from 'react';
+import { ActionItem, ActionItemChanges, ActionItemStatus } from '../../types';
+import { ACTION_ITEM_STATUS_LABELS, isOverdue, newActionItem } from '../../utils/actionItems';
+import { Fieldset, FormInput, DetailSection } from './ReportComponents';
+import { PlusIcon, TrashIcon, TargetIcon } from '../Icons';
+
+const STATUS_COLORS: Record<ActionItemStatus, string> = {
+    open: 'bg-blue-100 text-blue-800',
+    in_progress: 'bg-yellow-100 text-yellow-800',
+    done: 'bg-green-100 text-green-800',
+    not_met: 'bg-red-100 text-red-800',
+};
+
+export const ActionItemStatusBadge: React.FC<{ item: ActionItem }> = ({ item }) => (
+    <span className="inline-flex items-center space-x-1">
+        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_COLORS[item.status]}`}>{ACTION_ITEM_STATUS_LABELS[item.status]}</span>
+        {isOverdue(item) && <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-600 text-white">Overdue</span>}
+    </span>
+);
+
+const formatDueDate = (item: ActionItem) => (item.dueDate ? new Date(`${item.dueDate}T00:00:00`).toLocaleDateString() : 'No due date');
+
+/**
+ * Inputs for the action items a report raises, e.g. one per recommendation.
+ */
+export const ActionItemsFieldset: React.FC<{
+    items: ActionItem[];
+    onChange: (items: ActionItem[]) => void;
+    // Shown as the owner of items that leave it blank.
+    defaultOwner: string;
+    error?: string;
+}> = ({ items, onChange, defaultOwner, error }) => {
+    const updateItem = (id: string, patch: Partial<ActionItem>) => onChange(items.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+    return (
+        <Fieldset legend="Action Items">
+            <p className="text-sm text-gray-500">Turn recommendations into tasks with an owner and a due date. They are followed up in the teacher's next supervision.</p>
+            {items.map((item, index) => (
+                <div key={item.id} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end border-b border-gray-200 pb-4">
+                    <div className="md:col-span-3">
+                        <FormInput label={`Action ${index + 1}`} id={`action-${item.id}`} value={item.description} onChange={(e) => updateItem(item.id, { description: e.target.value })} placeholder="e.g. Use exit tickets to check understanding" required />
+                    </div>
+                    <FormInput label="Owner" id={`owner-${item.id}`} value={item.owner} onChange={(e) => updateItem(item.id, { owner: e.target.value })} placeholder={defaultOwner || 'The teacher'} />
+                    <FormInput label="Due Date" id={`due-${item.id}`} type="date" value={item.dueDate} onChange={(e) => updateItem(item.id, { dueDate: e.target.value })} />
+                    <button type="button" onClick={() => onChange(items.filter(i => i.id !== item.id))} className="p-2 justify-self-start text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full" aria-label="Remove action item">
+                        <TrashIcon className="w-5 h-5" />
+                    </button>
+                </div>
+            ))}
+            {error && <p className="text-red-500 text-xs">{error}</p>}
+            <button type="button" onClick={() => onChange([...items, newActionItem()])} className="inline-flex items-center px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">
+                <PlusIcon className="w-4 h-4 mr-1" />
+                Add Action Item
+            </button>
+        </Fieldset>
+    );
+};
+
+/**
+ * The teacher's earlier action items, each with an outcome the supervisor can record.
+ */
+export const ActionItemReviewFieldset: React.FC<{
+    items: ActionItem[];
+    reviews: ActionItemChanges['reviews'];
+    onChange: (reviews: ActionItemChanges['reviews']) => void;
+}> = ({ items, reviews, onChange }) => {
+    if (items.length === 0) return null;
+
+    const setReview = (itemId: string, review?: { status: ActionItemStatus; note: string }) => {
+        const { [itemId]: _, ...rest } = reviews;
+        onChange(review ? { ...rest, [itemId]: review } : rest);
+    };
+
+    return (
+        <Fieldset legend="Previous Action Items">
+            <p className="text-sm text-gray-500">Record whether each open item from earlier reports has been addressed.</p>
+            {items.map(item => {
+                const review = reviews[item.id];
+                return (
+                    <div key={item.id} className="border-b border-gray-200 pb-4 space-y-2">
+                        <div className="flex items-start justify-between gap-4">
+                            <div>
+                                <p className="font-medium text-gray-900">{item.description}</p>
+                                <p className="text-xs text-gray-500">Owner: {item.owner} &bull; Due: {formatDueDate(item)}</p>
+                            </div>
+                            <ActionItemStatusBadge item={item} />
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label htmlFor={`review-${item.id}`} className="block text-sm font-medium text-gray-700">Outcome</label>
+                                <select
+                                    id={`review-${item.id}`}
+                                    value={review?.status ?? ''}
+                                    onChange={(e) => setReview(item.id, e.target.value ? { status: e.target.value as ActionItemStatus, note: review?.note ?? '' } : undefined)}
+                                    className="mt-1 block w-full pl-3 pr-10 py-2 text-base text-black border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                                >
+                                    <option value="">Not reviewed</option>
+                                    <option value="done">Addressed ({ACTION_ITEM_STATUS_LABELS.done})</option>
+                                    <option value="in_progress">{ACTION_ITEM_STATUS_LABELS.in_progress}</option>
+                                    <option value="not_met">{ACTION_ITEM_STATUS_LABELS.not_met}</option>
+                                    <option value="open">Still {ACTION_ITEM_STATUS_LABELS.open}</option>
+                                </select>
+                            </div>
+                            {review && (
+                                <div className="md:col-span-2">
+                                    <FormInput label="Note" id={`review-note-${item.id}`} value={review.note} onChange={(e) => setReview(item.id, { ...review, note: e.target.value })} placeholder="What was observed?" />
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+        </Fieldset>
+    );
+};
+
+/**
+ * The action items raised in a report, with their current status.
+ */
+export const ActionItemsDetailSection: React.FC<{ items: ActionItem[] }> = ({ items }) => {
+    if (items.length === 0) return null;
+    return (
+        <DetailSection title="Action Items" icon={<TargetIcon className="w-7 h-7" />}>
+            <ul className="divide-y divide-gray-200">
+                {items.map(item => (
+                    <li key={item.id} className="py-3 flex items-start justify-between gap-4">
+                        <div>
+                            <p className="text-md text-gray-900">{item.description}</p>
+                            <p className="text-sm text-gray-500">Owner: {item.owner} &bull; Due: {formatDueDate(item)}</p>
+                            {item.reviewNote && <p className="text-sm text-gray-600 mt-1">Latest note: {item.reviewNote}</p>}
+                        </div>
+                        <ActionItemStatusBadge item={item} />
+                    </li>
+                ))}
+            </ul>
+        </DetailSection>
+    );
+};
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReportAttachment, ReportTableName } from '../../types';
+import { PDF_IMAGE_TYPES, REPORT_ATTACHMENT_BUDGET_BYTES, addAttachments, attachmentBlob, deleteAttachment, formatFileSize, getAttachments, isImageAttachment, isInlineAttachment, updateAttachment } from '../../utils/attachments';
+import { useLiveQuery } from '../../hooks/useLocalStorage';
+import { DetailSection } from './ReportComponents';
+import { DocumentTextIcon, PaperClipIcon, TrashIcon, UploadIcon } from '../Icons';
+
+// Object URLs for showing the stored files, revoked when the attachments change or the view closes.
+const useObjectUrls = (attachments: ReportAttachment[]): Record<string, string> => {
+    const [urls, setUrls] = useState<Record<string, string>>({});
+    useEffect(() => {
+        const created = Object.fromEntries(attachments.map(attachment => [attachment.id, URL.createObjectURL(attachmentBlob(attachment))]));
+        setUrls(created);
+        return () => Object.values(created).forEach(url => URL.revokeObjectURL(url));
+    }, [attachments]);
+    return urls;
+};
+
+/**
+ * Thumbnails of the photos and files attached to a report, with upload for users who may edit it.
+ */
+export const AttachmentGallery: React.FC<{
+    table: ReportTableName;
+    reportId: string;
+    // False for read-only users and closed reports.
+    canEdit: boolean;
+}> = ({ table, reportId, canEdit }) => {
+    const attachments = useLiveQuery<ReportAttachment[]>(() => getAttachments(reportId), [reportId]) ?? [];
+    const urls = useObjectUrls(attachments);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isUploading, setIsUploading] = useState(false);
+    const [error, setError] = useState('');
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to update the attachments.');
+        }
+    };
+
+    const handleFiles = async (files: FileList | null) => {
+        if (!files || files.length === 0) return;
+        setIsUploading(true);
+        await run(() => addAttachments(table, reportId, Array.from(files)));
+        setIsUploading(false);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handleDelete = (attachment: ReportAttachment) => {
+        if (window.confirm(`Remove "${attachment.fileName}" from this report?`)) {
+            run(() => deleteAttachment(attachment));
+        }
+    };
+
+    if (!canEdit && attachments.length === 0) return null;
+
+    const used = attachments.reduce((total, attachment) => total + attachment.size, 0);
+
+    return (
+        <DetailSection title="Attachments" icon={<PaperClipIcon className="w-7 h-7" />}>
+            {attachments.length > 0 ? (
+                <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 whitespace-normal">
+                    {attachments.map(attachment => (
+                        <li key={attachment.id} className="bg-white border rounded-md overflow-hidden flex flex-col">
+                            <a
+                                href={urls[attachment.id]}
+                                {...(isInlineAttachment(attachment) ? { target: '_blank', rel: 'noopener noreferrer' } : { download: attachment.fileName })}
+                                className="block h-32 bg-gray-100"
+                                title={`${isInlineAttachment(attachment) ? 'Open' : 'Download'} ${attachment.fileName}`}
+                            >
+                                {isImageAttachment(attachment) && urls[attachment.id] ? (
+                                    <img src={urls[attachment.id]} alt={attachment.caption || attachment.fileName} className="h-full w-full object-cover" />
+                                ) : (
+                                    <div className="h-full flex items-center justify-center">
+                                        <DocumentTextIcon className="w-12 h-12 text-gray-400" />
+                                    </div>
+                                )}
+                            </a>
+                            <div className="p-2 space-y-1 text-xs text-gray-600 flex-1">
+                                <p className="font-medium text-gray-800 truncate" title={attachment.fileName}>{attachment.fileName}</p>
+                                <p>{formatFileSize(attachment.size)}</p>
+                                {canEdit ? (
+                                    <input
+                                        aria-label={`Caption for ${attachment.fileName}`}
+                                        defaultValue={attachment.caption ?? ''}
+                                        onBlur={(e) => e.target.value.trim() !== (attachment.caption ?? '') && run(() => updateAttachment(attachment, { caption: e.target.value.trim() || undefined }))}
+                                        placeholder="Add a caption"
+                                        className="block w-full px-2 py-1 border border-gray-300 rounded-md text-black text-xs focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                    />
+                                ) : (
+                                    attachment.caption && <p className="text-gray-800">{attachment.caption}</p>
+                                )}
+                                {PDF_IMAGE_TYPES.includes(attachment.mimeType) && (
+                                    <label className="flex items-center">
+                                        <input type="checkbox" checked={attachment.includeInPdf} disabled={!canEdit} onChange={(e) => run(() => updateAttachment(attachment, { includeInPdf: e.target.checked }))} className="h-3 w-3 mr-1 text-indigo-600 border-gray-300 rounded" />
+                                        Include in PDF
+                                    </label>
+                                )}
+                            </div>
+                            {canEdit && (
+                                <button onClick={() => handleDelete(attachment)} className="self-end m-1 p-1 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full" aria-label={`Remove ${attachment.fileName}`}>
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-sm text-gray-500">No photos or files attached yet, e.g. of exercise books, lesson plans or learner work.</p>
+            )}
+            {canEdit && (
+                <div className="flex items-center justify-between gap-4">
+                    <p className="text-xs text-gray-500">{formatFileSize(used)} of {formatFileSize(REPORT_ATTACHMENT_BUDGET_BYTES)} used. Photos are downscaled before they are stored.</p>
+                    <input ref={fileInputRef} type="file" multiple accept="image/*,application/pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt" onChange={(e) => handleFiles(e.target.files)} className="hidden" />
+                    <button onClick={() => fileInputRef.current?.click()} disabled={isUploading} className="inline-flex items-center px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200 disabled:opacity-50">
+                        <UploadIcon className="w-4 h-4 mr-1" />
+                        {isUploading ? 'Adding...' : 'Add Files'}
+                    </button>
+                </div>
+            )}
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+        </DetailSection>
+    );
+};
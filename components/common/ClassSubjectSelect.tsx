@@ -0,0 +1,58 @@
+import React from 'react';
+import { SchoolClass, Subject, Teacher, TeacherAssignment } from '../../types';
+import { dbTyped } from '../../utils/db';
+import { assignmentKey, formatAssignment } from '../../utils/catalog';
+import { useLiveQuery } from '../../hooks/useLocalStorage';
+import { FormSelect } from './ReportComponents';
+
+export interface ClassSubjectValue {
+    classId: string;
+    subjectId: string;
+    className: string;
+    subject: string;
+}
+
+/**
+ * Picks one of the selected teacher's class/subject assignments and returns the catalog IDs
+ * together with the name snapshots stored on the report.
+ */
+export const ClassSubjectSelect: React.FC<{
+    teacher?: Teacher;
+    value: ClassSubjectValue;
+    onChange: (value: ClassSubjectValue) => void;
+}> = ({ teacher, value, onChange }) => {
+    const classes = useLiveQuery<SchoolClass[]>(() => dbTyped.classes.toArray(), []) ?? [];
+    const subjects = useLiveQuery<Subject[]>(() => dbTyped.subjects.toArray(), []) ?? [];
+
+    const current: TeacherAssignment | null = value.classId && value.subjectId ? { classId: value.classId, subjectId: value.subjectId } : null;
+    const assignments = teacher?.assignments ?? [];
+    // An existing report keeps its pair even if the teacher is no longer assigned to it.
+    const isUnassigned = current !== null && !assignments.some(a => assignmentKey(a) === assignmentKey(current));
+
+    const options = assignments
+        .map(a => ({ key: assignmentKey(a), label: formatAssignment(a, classes, subjects) }))
+        .sort((a, b) => a.label.localeCompare(b.label));
+
+    const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const [classId = '', subjectId = ''] = e.target.value ? e.target.value.split('|') : [];
+        onChange({
+            classId,
+            subjectId,
+            className: classes.find(c => c.id === classId)?.name ?? '',
+            subject: subjects.find(s => s.id === subjectId)?.name ?? '',
+        });
+    };
+
+    return (
+        <div>
+            <FormSelect label="Class & Subject" id="classSubject" value={current ? assignmentKey(current) : ''} onChange={handleChange} required>
+                <option value="">{teacher ? 'Select a class and subject' : 'Select a teacher first'}</option>
+                {isUnassigned && current && <option value={assignmentKey(current)}>{value.className} - {value.subject} (no longer assigned)</option>}
+                {options.map(option => <option key={option.key} value={option.key}>{option.label}</option>)}
+            </FormSelect>
+            {teacher && assignments.length === 0 && (
+                <p className="text-xs text-gray-500 mt-1">This teacher has no class assignments yet. Add them on the Teachers page.</p>
+            )}
+        </div>
+    );
+};
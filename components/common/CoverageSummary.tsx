@@ -0,0 +1,46 @@
+import React from 'react';
+import { WorkCoverageReport } from '../../types';
+import { formatWeeksBehind, latestCoverage } from '../../utils/schemesOfWork';
+
+/**
+ * Syllabus coverage per class and subject from the latest work coverage report checked against
+ * each scheme of work. Reports written without a scheme are not counted.
+ */
+export const CoverageSummary: React.FC<{
+    reports: WorkCoverageReport[];
+    // Whether each row names the teacher, for overviews across teachers.
+    showTeacher?: boolean;
+    onViewReport?: (reportId: string) => void;
+}> = ({ reports, showTeacher, onViewReport }) => {
+    const latest = latestCoverage(reports);
+    if (latest.length === 0) {
+        return <p className="text-sm text-gray-500">No work coverage reports have been checked against a scheme of work yet.</p>;
+    }
+    const average = Math.round(latest.reduce((acc, report) => acc + report.coveragePercent!, 0) / latest.length);
+    const behind = latest.filter(report => (report.weeksBehind ?? 0) > 0).length;
+    return (
+        <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+                Average coverage <span className="font-semibold text-gray-900">{average}%</span> &bull; {behind} of {latest.length} class/subject(s) behind schedule
+            </p>
+            <ul className="divide-y divide-gray-200">
+                {latest.map(report => (
+                    <li key={report.schemeOfWorkId} className="py-2 flex items-center gap-4">
+                        <div className="w-1/3 text-sm">
+                            <p className="font-medium text-gray-800">{report.className} &bull; {report.subject}</p>
+                            {showTeacher && <p className="text-xs text-gray-500">{report.teacherName}</p>}
+                        </div>
+                        <div className="flex-grow h-3 bg-gray-200 rounded-full overflow-hidden" title={`${report.coveragePercent}% covered`}>
+                            <div className="h-full bg-indigo-500" style={{ width: `${report.coveragePercent}%` }} />
+                        </div>
+                        <span className="w-12 text-right text-sm font-medium text-gray-800">{report.coveragePercent}%</span>
+                        <span className={`w-36 text-sm ${(report.weeksBehind ?? 0) > 0 ? 'text-red-600' : 'text-green-700'}`}>{formatWeeksBehind(report.weeksBehind ?? 0)}</span>
+                        {onViewReport && (
+                            <button onClick={() => onViewReport(report.id)} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">View</button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
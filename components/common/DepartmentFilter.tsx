@@ -0,0 +1,32 @@
+import React from 'react';
+import { Department } from '../../types';
+import { dbTyped } from '../../utils/db';
+import { ALL_DEPARTMENTS, NO_DEPARTMENT } from '../../utils/departments';
+import { sortByName } from '../../utils/catalog';
+import { useLiveQuery } from '../../hooks/useLocalStorage';
+
+/**
+ * Department dropdown for list filter panels.
+ */
+export const DepartmentFilter: React.FC<{
+    value: string;
+    onChange: (departmentId: string) => void;
+}> = ({ value, onChange }) => {
+    const departments = useLiveQuery<Department[]>(() => dbTyped.departments.toArray(), []) ?? [];
+
+    return (
+        <div>
+            <label htmlFor="departmentFilter" className="block text-sm font-medium text-gray-700">Department</label>
+            <select
+                id="departmentFilter"
+                value={value}
+                onChange={e => onChange(e.target.value)}
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base text-black border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+            >
+                <option value={ALL_DEPARTMENTS}>All Departments</option>
+                {sortByName<Department>(departments).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                <option value={NO_DEPARTMENT}>No Department</option>
+            </select>
+        </div>
+    );
+};
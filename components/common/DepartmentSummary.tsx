@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { AcademicTerm, BookCheckingReport, Department, SupervisionReport, Teacher } from '../../types';
+import { dbTyped, activeRows, countedReports } from '../../utils/db';
+import { filterByTerm } from '../../utils/terms';
+import { computeDepartmentStats } from '../../utils/departments';
+import { useLiveQuery } from '../../hooks/useLocalStorage';
+
+const CoverageBar: React.FC<{ coverage: Record<BookCheckingReport['workCoverage'], number> }> = ({ coverage }) => {
+    const total = coverage.complete + coverage.partial + coverage.missing;
+    if (total === 0) return <span className="text-sm text-gray-400">No book checks</span>;
+    return (
+        <div className="flex items-center space-x-2 text-xs font-semibold">
+            <span className="px-2 leading-5 rounded-full bg-green-100 text-green-800">{coverage.complete} complete</span>
+            <span className="px-2 leading-5 rounded-full bg-yellow-100 text-yellow-800">{coverage.partial} partial</span>
+            <span className="px-2 leading-5 rounded-full bg-red-100 text-red-800">{coverage.missing} missing</span>
+        </div>
+    );
+};
+
+/**
+ * Per-department observation counts, average supervision rating and work coverage status
+ * for the selected term.
+ */
+export const DepartmentSummary: React.FC<{
+    term: AcademicTerm | null;
+    onSelectDepartment?: (departmentId: string) => void;
+}> = ({ term, onSelectDepartment }) => {
+    const departments = useLiveQuery<Department[]>(() => dbTyped.departments.toArray(), []) ?? [];
+    const teachers = useLiveQuery<Teacher[]>(() => activeRows(dbTyped.teachers), []) ?? [];
+    const supervisionReports = useLiveQuery<SupervisionReport[]>(() => activeRows(dbTyped.supervisionReports), []) ?? [];
+    const bookCheckingReports = useLiveQuery<BookCheckingReport[]>(() => activeRows(dbTyped.bookCheckingReports), []) ?? [];
+
+    const rows = useMemo(
+        () => computeDepartmentStats(departments, teachers, filterByTerm(countedReports(supervisionReports), term), filterByTerm(countedReports(bookCheckingReports), term)),
+        [departments, teachers, supervisionReports, bookCheckingReports, term]
+    );
+
+    if (departments.length === 0) {
+        return <p className="text-sm text-gray-500">No departments yet. Create them on the Departments page to compare them here.</p>;
+    }
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Department</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Teachers</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Observations</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Teachers Observed</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Avg. Rating</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Work Coverage</th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                    {rows.map(row => {
+                        const head = row.department?.headTeacherId ? teachers.find(t => t.id === row.department!.headTeacherId) : undefined;
+                        return (
+                            <tr key={row.department?.id ?? 'none'}>
+                                <td className="px-4 py-3 whitespace-nowrap">
+                                    {row.department && onSelectDepartment ? (
+                                        <button onClick={() => onSelectDepartment(row.department!.id)} className="font-medium text-indigo-600 hover:text-indigo-800">{row.department.name}</button>
+                                    ) : (
+                                        <p className="font-medium text-gray-800">{row.department?.name ?? 'No department'}</p>
+                                    )}
+                                    {head && <p className="text-xs text-gray-500">HoD: {head.name}</p>}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-700">{row.teacherCount}</td>
+                                <td className="px-4 py-3 text-sm text-gray-700">{row.observations}</td>
+                                <td className="px-4 py-3 text-sm text-gray-700">{row.teachersObserved} / {row.teacherCount}</td>
+                                <td className="px-4 py-3 text-sm text-gray-700">{row.averageRating !== null ? row.averageRating.toFixed(1) : 'N/A'}</td>
+                                <td className="px-4 py-3"><CoverageBar coverage={row.coverage} /></td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
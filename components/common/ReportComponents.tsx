@@ -1,6 +1,8 @@
 
 import React, { ChangeEvent, ReactNode, useState, useRef, useEffect } from 'react';
-import { TrashIcon, DownloadIcon, ChevronLeftIcon, PlusIcon, StarIcon, XCircleIcon, LogoIcon } from '../Icons';
+import { ReportStatus } from '../../types';
+import { REPORT_STATUS_LABELS } from '../../utils/reportWorkflow';
+import { TrashIcon, DownloadIcon, ChevronLeftIcon, PlusIcon, StarIcon, XCircleIcon, LogoIcon, PencilIcon, DocumentDuplicateIcon } from '../Icons';
 
 // --- Form Components ---
 
@@ -117,37 +119,58 @@ export const StarRatingDisplay: React.FC<{ rating: number; maxRating?: number }>
 
 interface ReportHeaderProps {
   title: string;
-  onAddNew: () => void;
+  // Omitted for users who cannot write reports.
+  onAddNew?: () => void;
 }
 export const ReportHeader: React.FC<ReportHeaderProps> = ({ title, onAddNew }) => (
     <div className="flex justify-between items-center mb-6">
         <h2 className="text-3xl font-bold text-gray-800">{title}</h2>
-        <button
+        {onAddNew && <button
             onClick={onAddNew}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
         >
             <PlusIcon className="w-5 h-5 mr-2" />
             Add New Report
-        </button>
+        </button>}
     </div>
 );
 
+const STATUS_COLORS: Record<ReportStatus, string> = {
+    draft: 'bg-gray-200 text-gray-800',
+    submitted: 'bg-blue-100 text-blue-800',
+    acknowledged: 'bg-green-100 text-green-800',
+    closed: 'bg-purple-100 text-purple-800',
+};
+
+export const ReportStatusBadge: React.FC<{ status: ReportStatus }> = ({ status }) => (
+    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_COLORS[status]}`}>{REPORT_STATUS_LABELS[status]}</span>
+);
+
 interface ReportListItemProps {
-    report: { id: string; teacherName: string; subject: string; date: string; };
+    report: { id: string; teacherName: string; subject: string; date: string; authorName?: string; status: ReportStatus; };
+    // A short type-specific line, e.g. the rating.
+    summary?: string;
     onSelect: (id: string) => void;
-    onDelete: (id: string) => void;
+    // Omitted when the user may not delete this report.
+    onDelete?: (id: string) => void;
 }
-export const ReportListItem: React.FC<ReportListItemProps> = ({ report, onSelect, onDelete }) => (
+export const ReportListItem: React.FC<ReportListItemProps> = ({ report, summary, onSelect, onDelete }) => (
     <div className="bg-white p-4 rounded-lg shadow-sm flex justify-between items-center transition hover:shadow-md">
         <div>
-            <p className="font-semibold text-indigo-700">{report.teacherName} - {report.subject}</p>
-            <p className="text-sm text-gray-500">Date: {new Date(report.date).toLocaleDateString()}</p>
+            <div className="flex items-center space-x-3">
+                <p className="font-semibold text-indigo-700">{report.teacherName} - {report.subject}</p>
+                <ReportStatusBadge status={report.status} />
+            </div>
+            <p className="text-sm text-gray-500">Date: {new Date(report.date).toLocaleDateString()}{report.authorName && <> &bull; By {report.authorName}</>}</p>
+            {summary && <p className="text-sm text-gray-600">{summary}</p>}
         </div>
         <div className="space-x-2">
             <button onClick={() => onSelect(report.id)} className="px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">View</button>
-            <button onClick={(e) => { e.stopPropagation(); onDelete(report.id); }} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full">
-                <TrashIcon className="w-5 h-5" />
-            </button>
+            {onDelete && (
+                <button onClick={(e) => { e.stopPropagation(); onDelete(report.id); }} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full">
+                    <TrashIcon className="w-5 h-5" />
+                </button>
+            )}
         </div>
     </div>
 );
@@ -156,8 +179,12 @@ interface ReportDetailViewHeaderProps {
     title: string;
     onBack: () => void;
     onExport: () => void;
+    // Omitted when the user may not edit this report.
+    onEdit?: () => void;
+    // Starts a follow-up report for the same teacher, class and subject; omitted when the user may not add reports.
+    onNewFromPrevious?: () => void;
 }
-export const ReportDetailViewHeader: React.FC<ReportDetailViewHeaderProps> = ({ title, onBack, onExport }) => (
+export const ReportDetailViewHeader: React.FC<ReportDetailViewHeaderProps> = ({ title, onBack, onExport, onEdit, onNewFromPrevious }) => (
     <div className="flex justify-between items-center mb-6">
         <button onClick={onBack} className="flex items-center text-sm font-medium text-gray-600 hover:text-gray-900">
             <ChevronLeftIcon className="w-5 h-5 mr-1" />
@@ -165,6 +192,18 @@ export const ReportDetailViewHeader: React.FC<ReportDetailViewHeaderProps> = ({
         </button>
         <div className="flex items-center space-x-4">
             <h2 className="text-2xl font-bold text-gray-800 hidden sm:block">{title}</h2>
+            {onEdit && (
+                <button onClick={onEdit} className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                    <PencilIcon className="w-5 h-5 mr-2" />
+                    Edit
+                </button>
+            )}
+            {onNewFromPrevious && (
+                <button onClick={onNewFromPrevious} className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">
+                    <DocumentDuplicateIcon className="w-5 h-5 mr-2" />
+                    New from Previous
+                </button>
+            )}
             <button onClick={onExport} className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500">
                 <DownloadIcon className="w-5 h-5 mr-2" />
                 Export to PDF
@@ -173,6 +212,26 @@ export const ReportDetailViewHeader: React.FC<ReportDetailViewHeaderProps> = ({
     </div>
 );
 
+export type DetailTab = 'report' | 'history';
+
+export const DetailTabs: React.FC<{ active: DetailTab; onChange: (tab: DetailTab) => void }> = ({ active, onChange }) => (
+    <div className="border-b border-gray-200 mb-4">
+        <nav className="-mb-px flex space-x-6">
+            {(['report', 'history'] as DetailTab[]).map(tab => (
+                <button
+                    key={tab}
+                    onClick={() => onChange(tab)}
+                    className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                        active === tab ? 'border-indigo-500 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                    }`}
+                >
+                    {tab === 'report' ? 'Report' : 'History'}
+                </button>
+            ))}
+        </nav>
+    </div>
+);
+
 interface ReportFieldProps {
     label: string;
     value: ReactNode;
@@ -399,6 +458,15 @@ export const SignaturePad: React.FC<{
 
 // --- PDF Generation Components ---
 
+// A sign-off line in the PDF footer. Lines without a signature are left blank to sign on paper.
+export interface PdfSignature {
+    label: string;
+    signerName?: string;
+    // Data URL of the signature image.
+    signature?: string;
+    signedAt?: string;
+}
+
 export const PdfDocument: React.FC<{
     id: string;
     title: string;
@@ -406,7 +474,8 @@ export const PdfDocument: React.FC<{
     schoolName?: string;
     schoolLogo?: string;
     footerText?: string;
-}> = ({ id, title, children, schoolName, schoolLogo, footerText }) => {
+    signatures?: PdfSignature[];
+}> = ({ id, title, children, schoolName, schoolLogo, footerText, signatures = [] }) => {
     const generatedDate = new Date().toLocaleDateString('en-US', {
         year: 'numeric', month: 'long', day: 'numeric'
     });
@@ -437,13 +506,26 @@ export const PdfDocument: React.FC<{
                     )}
                 </header>
 
-                <main className="pb-24">
+                <main className={signatures.length > 0 ? 'pb-56' : 'pb-24'}>
                     {children}
                 </main>
             </div>
             
-            <footer className="absolute bottom-8 inset-x-16 text-center border-t border-gray-300 pt-2 text-xs text-gray-500">
-                <p>{footerText || `Generated on ${generatedDate} | © ${new Date().getFullYear()} Teacher Monitoring App`}</p>
+            <footer className="absolute bottom-8 inset-x-16 text-center text-xs text-gray-500">
+                {signatures.length > 0 && (
+                    <div className="flex gap-8 mb-6">
+                        {signatures.map(line => (
+                            <div key={line.label} className="flex-1">
+                                <div className="h-16 flex items-end justify-center">
+                                    {line.signature && <img src={line.signature} alt={`${line.label} signature`} className="h-16 w-auto object-contain" />}
+                                </div>
+                                <p className="border-t border-gray-400 pt-1 text-sm text-gray-700">{line.label}{line.signerName && `: ${line.signerName}`}</p>
+                                <p>{line.signedAt ? `Signed ${new Date(line.signedAt).toLocaleDateString()}` : 'Date:'}</p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <p className="border-t border-gray-300 pt-2">{footerText || `Generated on ${generatedDate} | © ${new Date().getFullYear()} Teacher Monitoring App`}</p>
             </footer>
         </div>
     );
@@ -0,0 +1,86 @@
+import React from 'react';
+import { AuditAction, AuditEntry, ReportTableName } from '../../types';
+import { dbTyped } from '../../utils/db';
+import { revertToVersion, formatFieldName, formatFieldValue } from '../../utils/audit';
+import { PermissionError } from '../../utils/permissions';
+import { useLiveQuery } from '../../hooks/useLocalStorage';
+
+const ACTION_STYLES: Record<AuditAction, { label: string; className: string }> = {
+    create: { label: 'Created', className: 'bg-green-100 text-green-800' },
+    update: { label: 'Edited', className: 'bg-blue-100 text-blue-800' },
+    delete: { label: 'Deleted', className: 'bg-red-100 text-red-800' },
+    restore: { label: 'Restored', className: 'bg-yellow-100 text-yellow-800' },
+    revert: { label: 'Reverted', className: 'bg-purple-100 text-purple-800' },
+};
+
+export const ReportHistory: React.FC<{
+    table: ReportTableName;
+    recordId: string;
+    fieldLabels?: Record<string, string>;
+    // False hides the revert buttons for users who may not change the report.
+    canRevert?: boolean;
+}> = ({ table, recordId, fieldLabels = {}, canRevert = true }) => {
+    const entries = useLiveQuery<AuditEntry[]>(
+        () => dbTyped.auditLog.where('recordId').equals(recordId).filter((e: AuditEntry) => e.table === table).reverse().sortBy('timestamp'),
+        [table, recordId]
+    ) ?? [];
+
+    const handleRevert = async (entry: AuditEntry) => {
+        if (window.confirm(`Revert this report to the version saved on ${new Date(entry.timestamp).toLocaleString()}?`)) {
+            try {
+                await revertToVersion(entry);
+            } catch (error) {
+                alert(error instanceof PermissionError ? error.message : 'Failed to revert the report.');
+            }
+        }
+    };
+
+    if (entries.length === 0) {
+        return <p className="text-center text-gray-500 py-8">No history has been recorded for this report yet.</p>;
+    }
+
+    return (
+        <ol className="space-y-4">
+            {entries.map((entry, index) => {
+                const style = ACTION_STYLES[entry.action];
+                return (
+                    <li key={entry.id} className="border rounded-lg p-4 bg-gray-50">
+                        <div className="flex justify-between items-start">
+                            <div className="flex items-center space-x-3">
+                                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${style.className}`}>{style.label}</span>
+                                <p className="text-sm text-gray-700">
+                                    {new Date(entry.timestamp).toLocaleString()} by <span className="font-medium">{entry.actor}</span>
+                                </p>
+                            </div>
+                            {index > 0 && canRevert && (
+                                <button onClick={() => handleRevert(entry)} className="px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">
+                                    Revert to this version
+                                </button>
+                            )}
+                        </div>
+                        {entry.changes.length > 0 && entry.action !== 'create' && (
+                            <table className="mt-3 w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-gray-500">
+                                        <th className="py-1 pr-4 font-medium w-1/4">Field</th>
+                                        <th className="py-1 pr-4 font-medium">Before</th>
+                                        <th className="py-1 font-medium">After</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200">
+                                    {entry.changes.map(change => (
+                                        <tr key={change.field} className="align-top">
+                                            <td className="py-2 pr-4 font-medium text-gray-700">{fieldLabels[change.field] || formatFieldName(change.field)}</td>
+                                            <td className="py-2 pr-4 text-red-700 whitespace-pre-wrap line-through decoration-red-300">{formatFieldValue(change.before)}</td>
+                                            <td className="py-2 text-green-700 whitespace-pre-wrap">{formatFieldValue(change.after)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </li>
+                );
+            })}
+        </ol>
+    );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Rubric } from '../../types';
+import { weightedScore } from '../../utils/rubrics';
+import { Fieldset, StarRatingInput, StarRatingDisplay, DetailSection, PdfSection, PdfField } from './ReportComponents';
+import { StarIcon } from '../Icons';
+
+const formatScore = (score: number) => (Math.round(score * 10) / 10).toString();
+
+const levelFor = (rubric: Rubric, score?: number) => (score ? rubric.scale[score - 1] : undefined);
+
+const hasUnequalWeights = (rubric: Rubric) => rubric.criteria.some(c => c.weight !== rubric.criteria[0].weight);
+
+interface RubricFieldsetProps {
+    rubric: Rubric;
+    scores: Record<string, number>;
+    onChange: (criterionId: string, score: number) => void;
+    error?: string;
+}
+
+/**
+ * Star inputs for every criterion of a rubric, with the descriptor of the chosen level.
+ */
+export const RubricFieldset: React.FC<RubricFieldsetProps> = ({ rubric, scores, onChange, error }) => {
+    const showWeights = hasUnequalWeights(rubric);
+    return (
+        <Fieldset legend={`${rubric.name} (v${rubric.version})`}>
+            {rubric.criteria.map(criterion => {
+                const level = levelFor(rubric, scores[criterion.id]);
+                return (
+                    <div key={criterion.id}>
+                        <StarRatingInput
+                            label={showWeights ? `${criterion.name} (weight ${criterion.weight})` : criterion.name}
+                            id={criterion.id}
+                            value={scores[criterion.id] ?? 0}
+                            onChange={onChange}
+                            maxRating={rubric.scale.length}
+                        />
+                        {criterion.description && <p className="text-xs text-gray-500 mt-1">{criterion.description}</p>}
+                        {level && (
+                            <p className="text-sm text-gray-700 mt-1">
+                                <span className="font-semibold">{level.label}</span>{level.descriptor && <> &mdash; {level.descriptor}</>}
+                            </p>
+                        )}
+                    </div>
+                );
+            })}
+            {error && <p className="text-red-500 text-xs">{error}</p>}
+            <p className="text-sm text-gray-600">
+                Overall score: <span className="font-semibold">{formatScore(weightedScore(rubric, scores))} / {rubric.scale.length}</span>
+            </p>
+        </Fieldset>
+    );
+};
+
+/**
+ * The scores of a report against the rubric version it was captured with.
+ */
+export const RubricDetailSection: React.FC<{ rubric: Rubric; scores?: Record<string, number> }> = ({ rubric, scores = {} }) => {
+    const showWeights = hasUnequalWeights(rubric);
+    return (
+        <DetailSection title={`${rubric.name} (v${rubric.version})`} icon={<StarIcon className="w-7 h-7" />}>
+            {rubric.criteria.map(criterion => {
+                const level = levelFor(rubric, scores[criterion.id]);
+                return (
+                    <div key={criterion.id} className="border-b border-gray-200 pb-3">
+                        <h4 className="text-sm font-medium text-gray-500">{criterion.name}{showWeights && ` (weight ${criterion.weight})`}</h4>
+                        <div className="mt-1"><StarRatingDisplay rating={scores[criterion.id] ?? 0} maxRating={rubric.scale.length} /></div>
+                        {level && <p className="mt-1 text-sm text-gray-700"><span className="font-semibold">{level.label}</span>{level.descriptor && <> &mdash; {level.descriptor}</>}</p>}
+                    </div>
+                );
+            })}
+            <p className="text-md font-semibold text-gray-800">Overall score: {formatScore(weightedScore(rubric, scores))} / {rubric.scale.length}</p>
+        </DetailSection>
+    );
+};
+
+export const RubricPdfSection: React.FC<{ rubric: Rubric; scores?: Record<string, number> }> = ({ rubric, scores = {} }) => {
+    const showWeights = hasUnequalWeights(rubric);
+    return (
+        <PdfSection title={`${rubric.name} (v${rubric.version})`}>
+            {rubric.criteria.map(criterion => {
+                const level = levelFor(rubric, scores[criterion.id]);
+                return (
+                    <PdfField key={criterion.id} label={showWeights ? `${criterion.name} (weight ${criterion.weight})` : criterion.name}>
+                        <StarRatingDisplay rating={scores[criterion.id] ?? 0} maxRating={rubric.scale.length} />
+                        {level && <p className="text-sm">{level.label}{level.descriptor && ` - ${level.descriptor}`}</p>}
+                    </PdfField>
+                );
+            })}
+            <PdfField label="Overall Score">{formatScore(weightedScore(rubric, scores))} / {rubric.scale.length}</PdfField>
+        </PdfSection>
+    );
+};
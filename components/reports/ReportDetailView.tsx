@@ -0,0 +1,191 @@
+import React, { useState, useMemo } from 'react';
+import { ActionItem, AppSetting, Report, Rubric } from '../../types';
+import { dbTyped } from '../../utils/db';
+import { generatePdfDocument } from '../../utils/pdfUtils';
+import { ReportDetailViewHeader, ReportField, PdfPreviewModal, DetailSection, StarRatingDisplay, PdfDocument, DetailTabs, DetailTab } from '../common/ReportComponents';
+import { ReportHistory } from '../common/ReportHistory';
+import { RubricDetailSection } from '../common/RubricComponents';
+import { ActionItemsDetailSection } from '../common/ActionItemComponents';
+import { useLiveQuery } from '../../hooks/useLocalStorage';
+import { CurrentUser } from '../../utils/permissions';
+import { REQUIRED_SIGNATURES_KEY } from '../../utils/signatures';
+import { getAttachments, pdfAppendix } from '../../utils/attachments';
+import { isClosed } from '../../utils/reportWorkflow';
+import { AttachmentGallery } from '../common/AttachmentComponents';
+import { ReportFieldDescriptor, ReportTypeDescriptor, RUBRIC_SECTION, readField, formatFieldText, fieldLabels, isSignatureSection, fileSafe, requiredSignatories } from './descriptor';
+import { ReportPdfContent, pdfSignatures } from './ReportPdfContent';
+import { ReportWorkflowPanel } from './ReportWorkflowPanel';
+import { ReportSignOffPanel } from './ReportSignOffPanel';
+
+const renderSignature = (signatureData: string) => {
+    if (signatureData && signatureData.startsWith('data:image/')) {
+        return <img src={signatureData} alt="Signature" className="h-20 w-auto bg-gray-50 border border-gray-300 rounded-md object-contain p-1" />;
+    }
+    return <p className="mt-1 text-md text-gray-900 font-serif italic">{signatureData || 'N/A'}</p>;
+};
+
+const renderDetailField = (field: ReportFieldDescriptor, report: Report, label = field.label) => {
+    const value = readField(report, field.key);
+    switch (field.type) {
+        case 'rating':
+            return <ReportField label={label} value={value ? <StarRatingDisplay rating={Number(value)} maxRating={field.maxRating} /> : ''} />;
+        case 'signature':
+            return (
+                <div>
+                    <h4 className="text-sm font-medium text-gray-500">{label}</h4>
+                    {renderSignature(value ?? '')}
+                </div>
+            );
+        default:
+            return <ReportField label={label} value={formatFieldText(field, value)} />;
+    }
+};
+
+/**
+ * A report with its history tab and PDF export, built from the descriptor of its type.
+ */
+export const ReportDetailView: React.FC<{
+    descriptor: ReportTypeDescriptor<any>;
+    report: Report;
+    // The rubric version the report was captured with.
+    rubric?: Rubric;
+    user: CurrentUser;
+    onBack: () => void;
+    // Omitted when the user may not edit the report or it is closed.
+    onEdit?: () => void;
+    // Whether the user may move the report through its workflow.
+    canChangeStatus: boolean;
+    onNewFromPrevious?: () => void;
+}> = ({ descriptor, report, rubric, user, onBack, onEdit, canChangeStatus, onNewFromPrevious }) => {
+    const settings = useLiveQuery<AppSetting[]>(() => dbTyped.settings.toArray(), []) ?? [];
+    const actionItems = useLiveQuery<ActionItem[]>(
+        async () => (descriptor.raisesActionItems ? dbTyped.actionItems.where('sourceReportId').equals(report.id).toArray() : []),
+        [descriptor, report.id],
+    ) ?? [];
+    const [isPreviewOpen, setPreviewOpen] = useState(false);
+    const [activeTab, setActiveTab] = useState<DetailTab>('report');
+    const [pdfDoc, setPdfDoc] = useState<any | null>(null);
+    const pdfElementId = `${descriptor.table}-pdf-${report.id}`;
+
+    const appSettings = useMemo(() => {
+        return settings.reduce((acc, setting) => {
+            acc[setting.key] = setting.value;
+            return acc;
+        }, {} as { [key: string]: any });
+    }, [settings]);
+
+    const signatories = requiredSignatories(descriptor, appSettings[REQUIRED_SIGNATURES_KEY]);
+
+    const handlePreview = async () => {
+        try {
+            const doc = await generatePdfDocument(pdfElementId, await pdfAppendix(await getAttachments(report.id)));
+            if (doc) {
+                setPdfDoc(doc);
+                setPreviewOpen(true);
+                return;
+            }
+        } catch (err) {
+            // An attachment that fails to decode or is too large for the PDF.
+            console.error("PDF preview failed:", err);
+        }
+        alert('Could not generate PDF preview.');
+    };
+
+    const handleDownload = () => {
+        if (pdfDoc) {
+            pdfDoc.save(`${fileSafe(descriptor.title)}_${report.teacherName.replace(/\s/g, '_')}_${report.date}.pdf`);
+            setPreviewOpen(false);
+            setPdfDoc(null);
+        }
+    };
+
+    const handleClosePreview = () => {
+        setPreviewOpen(false);
+        setPdfDoc(null);
+    };
+
+    return (
+        <>
+            <div className="bg-white p-8 rounded-lg shadow-lg">
+                <ReportDetailViewHeader title={descriptor.title} onBack={onBack} onExport={handlePreview} onEdit={onEdit} onNewFromPrevious={onNewFromPrevious} />
+                <DetailTabs active={activeTab} onChange={setActiveTab} />
+                {activeTab === 'history' ? (
+                    <div className="p-4 sm:p-8">
+                        <ReportHistory table={descriptor.table} recordId={report.id} fieldLabels={fieldLabels(descriptor)} canRevert={!!onEdit} />
+                    </div>
+                ) : (
+                    <div className="p-4 sm:p-8">
+                        <ReportWorkflowPanel table={descriptor.table} report={report} user={user} canChange={canChangeStatus} requiredSignatories={signatories} />
+
+                        <header className="text-center mb-10 border-b pb-6">
+                            <h1 className="text-3xl font-bold text-gray-900">{descriptor.documentTitle}</h1>
+                            <p className="text-md text-gray-500 mt-2">{appSettings.schoolName || 'Teacher Monitoring App'}</p>
+                        </header>
+
+                        <section className="mb-8 p-6 border rounded-lg bg-gray-50/50">
+                            <h3 className="text-xl font-semibold text-gray-800 mb-4">Summary</h3>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-x-8 gap-y-6 text-md">
+                                <ReportField label="Teacher Name" value={report.teacherName} />
+                                <ReportField label="Class" value={report.className} />
+                                <ReportField label="Subject" value={report.subject} />
+                                <ReportField label="Date" value={new Date(report.date).toLocaleDateString()} />
+                                {report.authorName && <ReportField label="Written By" value={report.authorName} />}
+                                {descriptor.summaryFields.map(field => (
+                                    <React.Fragment key={field.key}>{renderDetailField(field, report, field.shortLabel ?? field.label)}</React.Fragment>
+                                ))}
+                                {descriptor.summaryFacts?.(report).map(fact => <ReportField key={fact.label} label={fact.label} value={fact.value} />)}
+                            </div>
+                        </section>
+
+                        <div className="space-y-8">
+                            {descriptor.sections.map((section, index) => {
+                                if (section === RUBRIC_SECTION) {
+                                    return rubric && <RubricDetailSection key={RUBRIC_SECTION} rubric={rubric} scores={report.rubricScores} />;
+                                }
+                                const Icon = section.icon;
+                                return (
+                                    <DetailSection key={index} title={section.title} icon={<Icon className="w-7 h-7" />}>
+                                        {isSignatureSection(section) ? (
+                                            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                                                {section.fields.map(field => <React.Fragment key={field.key}>{renderDetailField(field, report)}</React.Fragment>)}
+                                            </div>
+                                        ) : (
+                                            section.fields.map((field, fieldIndex) => (
+                                                <React.Fragment key={field.key}>
+                                                    {fieldIndex > 0 && <hr/>}
+                                                    {renderDetailField(field, report)}
+                                                </React.Fragment>
+                                            ))
+                                        )}
+                                    </DetailSection>
+                                );
+                            })}
+                            <ActionItemsDetailSection items={actionItems} />
+                            <AttachmentGallery table={descriptor.table} reportId={report.id} canEdit={canChangeStatus && !isClosed(report)} />
+                            <ReportSignOffPanel table={descriptor.table} report={report} roles={signatories} user={user} canSign={canChangeStatus} />
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <PdfDocument
+                id={pdfElementId}
+                title={descriptor.documentTitle}
+                schoolName={appSettings.schoolName}
+                schoolLogo={appSettings.schoolLogo}
+                footerText={appSettings.reportFooter}
+                signatures={pdfSignatures(report, signatories)}
+            >
+                <ReportPdfContent descriptor={descriptor} report={report} rubric={rubric} />
+            </PdfDocument>
+
+            <PdfPreviewModal
+                isOpen={isPreviewOpen}
+                pdfUrl={pdfDoc ? pdfDoc.output('datauristring') : null}
+                onClose={handleClosePreview}
+                onDownload={handleDownload}
+                title={`${descriptor.title} Preview`}
+            />
+        </>
+    );
+};
@@ -0,0 +1,272 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { ActionItem, ActionItemChanges, CustomReport, Report, Rubric, Teacher } from '../../types';
+import { createId } from '../../utils/ids';
+import { getActionItemsToReview, NO_ACTION_ITEM_CHANGES } from '../../utils/actionItems';
+import { withEditedContent } from '../../utils/reportWorkflow';
+import { useDraftAutosave } from '../../hooks/useDraftAutosave';
+import { useLiveQuery } from '../../hooks/useLocalStorage';
+import { FormInput, FormTextarea, FormSelect, Fieldset, StarRatingInput, SignaturePad } from '../common/ReportComponents';
+import { ClassSubjectSelect, ClassSubjectValue } from '../common/ClassSubjectSelect';
+import { RubricFieldset } from '../common/RubricComponents';
+import { ActionItemsFieldset, ActionItemReviewFieldset } from '../common/ActionItemComponents';
+import { ReportFieldDescriptor, ReportTypeDescriptor, RUBRIC_SECTION, readField, writeField, validateReport, isSignatureSection, allFields, formatFieldText } from './descriptor';
+
+const ReportFieldInput: React.FC<{
+    field: ReportFieldDescriptor;
+    value: any;
+    onChange: (key: string, value: any) => void;
+}> = ({ field, value, onChange }) => {
+    switch (field.type) {
+        case 'textarea': {
+            const length = String(value ?? '').length;
+            return (
+                <>
+                    <FormTextarea label={field.label} id={field.key} value={value ?? ''} onChange={(e) => onChange(field.key, e.target.value)} rows={field.rows ?? 3} placeholder={field.placeholder} required={field.required} />
+                    {field.charLimit && <p className={`text-right text-xs mt-1 ${length > field.charLimit ? 'text-red-500' : 'text-gray-500'}`}>{length} / {field.charLimit}</p>}
+                </>
+            );
+        }
+        case 'select':
+            return (
+                <FormSelect label={field.label} id={field.key} value={String(value ?? '')} onChange={(e) => onChange(field.key, e.target.value)} required={field.required}>
+                    {field.placeholder && <option value="">{field.placeholder}</option>}
+                    {(field.options ?? []).map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </FormSelect>
+            );
+        case 'rating':
+            return <StarRatingInput label={field.label} id={field.key} value={Number(value ?? 0)} onChange={onChange} maxRating={field.maxRating} />;
+        case 'signature':
+            return <SignaturePad label={field.label} onEnd={(dataUrl) => onChange(field.key, dataUrl)} initialDataUrl={value || undefined} />;
+        case 'number':
+        case 'date':
+        case 'text':
+        default:
+            return <FormInput label={field.label} id={field.key} type={field.type === 'text' ? undefined : field.type} value={String(value ?? '')} onChange={(e) => onChange(field.key, e.target.value)} placeholder={field.placeholder} required={field.required} />;
+    }
+};
+
+const PreviousReportPanel: React.FC<{ descriptor: ReportTypeDescriptor<any>; report: Report }> = ({ descriptor, report }) => {
+    const panel = descriptor.previousReportPanel;
+    if (!panel) return null;
+    const fields = allFields(descriptor).filter(field => panel.fields.includes(field.key));
+    return (
+        <section className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <h4 className="text-lg font-semibold text-gray-800">{panel.title}</h4>
+            <p className="text-xs text-gray-500 mb-3">From the report of {new Date(report.date).toLocaleDateString()}. For reference only; it is not copied into this report.</p>
+            <div className="space-y-3">
+                {fields.map(field => (
+                    <div key={field.key}>
+                        <p className="text-sm font-medium text-gray-500">{field.shortLabel ?? field.label}</p>
+                        <p className="text-sm text-gray-900 whitespace-pre-wrap">{formatFieldText(field, readField(report, field.key)) || 'N/A'}</p>
+                    </div>
+                ))}
+            </div>
+        </section>
+    );
+};
+
+/**
+ * The create and edit form of any report type, built from its descriptor. Changes are autosaved
+ * as a draft until the report is saved.
+ */
+export const ReportForm: React.FC<{
+    descriptor: ReportTypeDescriptor<any>;
+    onSave: (report: Report, actionItems: ActionItemChanges) => void;
+    // Leaves the form; the draft is kept so the report can be resumed later.
+    onCancel: () => void;
+    initialData?: Report;
+    teachers: Teacher[];
+    // The current rubric for new reports, or the one the report was captured with.
+    rubric?: Rubric;
+    draftId: string;
+    authorId?: string;
+    // The report this one follows up, shown read-only for reference.
+    previousReport?: Report;
+    initialActionItems?: ActionItemChanges;
+}> = ({ descriptor, onSave, onCancel, initialData, teachers, rubric, draftId, authorId, previousReport, initialActionItems }) => {
+    const [formData, setFormDataState] = useState<Report>(initialData || descriptor.emptyReport);
+    const [actionItems, setActionItemsState] = useState<ActionItemChanges>(initialActionItems ?? NO_ACTION_ITEM_CHANGES);
+    const [errors, setErrors] = useState<Record<string, string | undefined>>({});
+    // Only changes made here are worth a draft; opening a form or a draft saves nothing.
+    const [isDirty, setDirty] = useState(false);
+    // Set by the Submit button of a draft report, so saving also submits it.
+    const submitOnSave = useRef(false);
+
+    const setFormData: typeof setFormDataState = (update) => {
+        setFormDataState(update);
+        setDirty(true);
+    };
+
+    const setActionItems = (next: ActionItemChanges) => {
+        setActionItemsState(next);
+        setDirty(true);
+    };
+
+    const itemsToReview = useLiveQuery<ActionItem[]>(
+        async () => (descriptor.reviewsActionItems && formData.teacherId ? getActionItemsToReview(formData.teacherId, formData.id || undefined) : []),
+        [descriptor, formData.teacherId, formData.id],
+    ) ?? [];
+    const tracksActionItems = descriptor.raisesActionItems || descriptor.reviewsActionItems;
+
+    const draft = useMemo(() => (isDirty ? {
+        id: draftId,
+        table: descriptor.table,
+        reportTypeId: (formData as CustomReport).reportTypeId,
+        reportId: formData.id || undefined,
+        authorId,
+        report: formData,
+        ...(tracksActionItems && { actionItems }),
+    } : null), [isDirty, formData, actionItems, draftId, descriptor, authorId]);
+    const { savedAt, cancelPending } = useDraftAutosave(draft);
+
+    const clearError = (key: string) => {
+        if (errors[key]) {
+            setErrors(prev => ({ ...prev, [key]: undefined }));
+        }
+    };
+
+    const handleFieldChange = (key: string, value: any) => {
+        setFormData(prev => writeField(prev, key, value));
+        clearError(key);
+    };
+
+    const handleTeacherChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const teacher = teachers.find(t => t.id === e.target.value);
+        // The class/subject pair belongs to the previous teacher's assignments, so pick again.
+        setFormData(prev => ({ ...prev, teacherId: e.target.value, teacherName: teacher?.name ?? '', classId: '', subjectId: '', className: '', subject: '' }));
+        // Reviews belong to the previous teacher's action items.
+        if (Object.keys(actionItems.reviews).length > 0) setActionItems({ ...actionItems, reviews: {} });
+        clearError('teacherId');
+    };
+
+    const handleClassSubjectChange = (value: ClassSubjectValue) => {
+        setFormData(prev => ({ ...prev, ...value }));
+        clearError('classId');
+    };
+
+    const handleRubricChange = (criterionId: string, score: number) => {
+        setFormData(prev => ({ ...prev, rubricScores: { ...prev.rubricScores, [criterionId]: score } }));
+        clearError('rubricScores');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const newErrors = validateReport(descriptor, formData, rubric);
+        if (actionItems.raised.some(item => !item.description.trim())) {
+            newErrors.actionItems = "Describe every action item or remove it.";
+        }
+        setErrors(newErrors);
+        if (Object.keys(newErrors).length > 0) {
+            alert("Please fill out all required fields.");
+            return;
+        }
+        cancelPending();
+        // A resumed draft may predate a rename of the teacher.
+        const teacherName = teachers.find(t => t.id === formData.teacherId)?.name ?? formData.teacherName;
+        const report = withEditedContent({
+            ...formData,
+            id: formData.id || createId(),
+            teacherName,
+            ...(rubric && { rubricId: rubric.id }),
+            ...(submitOnSave.current && { status: 'submitted' as const, submittedAt: new Date().toISOString() }),
+        });
+        // Only items still listed for review, e.g. not ones closed from the tracker meanwhile.
+        const reviews = Object.fromEntries(Object.entries(actionItems.reviews).filter(([itemId]) => itemsToReview.some(item => item.id === itemId)));
+        onSave(descriptor.prepareForSave ? descriptor.prepareForSave(report, rubric) : report, { raised: actionItems.raised, reviews });
+    };
+
+    const renderError = (key: string) => {
+        return errors[key] ? <p className="text-red-500 text-xs mt-1">{errors[key]}</p> : null;
+    };
+
+    const renderField = (field: ReportFieldDescriptor) => (
+        <div key={field.key}>
+            <ReportFieldInput field={field} value={readField(formData, field.key)} onChange={handleFieldChange} />
+            {renderError(field.key)}
+        </div>
+    );
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-8 bg-white p-8 rounded-lg shadow-md">
+            <h3 className="text-2xl font-bold text-gray-900 border-b pb-4">{initialData?.id ? 'Edit' : 'Create'} {descriptor.title}</h3>
+
+            {formData.status === 'acknowledged' && (
+                <p className="p-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md">The teacher has acknowledged this report. Saving changes clears the acknowledgement, so the teacher will need to acknowledge it again.</p>
+            )}
+            {(formData.signatures ?? []).length > 0 && (
+                <p className="p-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md">This report has been signed. Saving changes to its content invalidates the signatures, so it will need to be signed again.</p>
+            )}
+
+            {previousReport && <PreviousReportPanel descriptor={descriptor} report={previousReport} />}
+
+            <Fieldset legend="Report Details">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                        <FormSelect label="Teacher Name" id="teacherId" value={formData.teacherId} onChange={handleTeacherChange} required>
+                            <option value="">Select a teacher</option>
+                            {teachers.filter(t => !t.archived || t.id === formData.teacherId).sort((a,b) => a.name.localeCompare(b.name)).map(teacher => (
+                                <option key={teacher.id} value={teacher.id}>{teacher.name}</option>
+                            ))}
+                        </FormSelect>
+                        {renderError('teacherId')}
+                    </div>
+                    <div>
+                        <ClassSubjectSelect teacher={teachers.find(t => t.id === formData.teacherId)} value={formData} onChange={handleClassSubjectChange} />
+                        {renderError('classId')}
+                    </div>
+                    <div>
+                        <FormInput label="Date" id="date" type="date" value={formData.date} onChange={(e) => handleFieldChange('date', e.target.value)} required />
+                        {renderError('date')}
+                    </div>
+                    {descriptor.summaryFields.map(renderField)}
+                </div>
+            </Fieldset>
+
+            {descriptor.reviewsActionItems && (
+                <ActionItemReviewFieldset items={itemsToReview} reviews={actionItems.reviews} onChange={reviews => setActionItems({ ...actionItems, reviews })} />
+            )}
+
+            {descriptor.FormPanel && <descriptor.FormPanel report={formData} onChange={changes => setFormData(prev => ({ ...prev, ...changes }))} />}
+
+            {descriptor.sections.map((section, index) => {
+                if (section === RUBRIC_SECTION) {
+                    return rubric && <RubricFieldset key={RUBRIC_SECTION} rubric={rubric} scores={formData.rubricScores ?? {}} onChange={handleRubricChange} error={errors.rubricScores} />;
+                }
+                const fields = section.fields.filter(field => !field.derivedWhen?.(formData));
+                if (fields.length === 0) return null;
+                return (
+                    <Fieldset key={index} legend={section.title}>
+                        {section.description && <p className="text-sm text-gray-500">{section.description}</p>}
+                        {isSignatureSection(section) ? (
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">{fields.map(renderField)}</div>
+                        ) : (
+                            fields.map(renderField)
+                        )}
+                    </Fieldset>
+                );
+            })}
+
+            {descriptor.raisesActionItems && (
+                <ActionItemsFieldset
+                    items={actionItems.raised}
+                    onChange={raised => { setActionItems({ ...actionItems, raised }); clearError('actionItems'); }}
+                    defaultOwner={formData.teacherName}
+                    error={errors.actionItems}
+                />
+            )}
+
+            <div className="flex justify-end items-center space-x-4 pt-4 border-t">
+                {savedAt && <p className="text-xs text-gray-500 mr-auto">Draft saved at {savedAt.toLocaleTimeString()}</p>}
+                <button type="button" onClick={onCancel} className="px-6 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500">Cancel</button>
+                {formData.status === 'draft' ? (
+                    <>
+                        <button type="submit" onClick={() => { submitOnSave.current = false; }} className="px-6 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">Save as Draft</button>
+                        <button type="submit" onClick={() => { submitOnSave.current = true; }} className="px-6 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">Submit Report</button>
+                    </>
+                ) : (
+                    <button type="submit" className="px-6 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500">Save Report</button>
+                )}
+            </div>
+        </form>
+    );
+};
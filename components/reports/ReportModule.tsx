@@ -0,0 +1,408 @@
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { ActionItemChanges, Report, ReportDraft, ReportStatus, RubricFields, Teacher, AppSetting, AcademicTerm, CustomReport } from '../../types';
+import { dbTyped, activeRows, countedReports } from '../../utils/db';
+import { softDelete } from '../../utils/recycleBin';
+import { getDrafts, deleteDraft, findDraftForReport } from '../../utils/drafts';
+import { createId } from '../../utils/ids';
+import { getActionItemChanges, saveActionItemChanges } from '../../utils/actionItems';
+import { REPORT_STATUSES, REPORT_STATUS_LABELS, isClosed } from '../../utils/reportWorkflow';
+import { filterByTerm, formatTermLabel } from '../../utils/terms';
+import { filterByDepartment, ALL_DEPARTMENTS } from '../../utils/departments';
+import { generateBulkPdfDocument } from '../../utils/pdfUtils';
+import { ReportHeader, ReportListItem, PdfDocument } from '../common/ReportComponents';
+import { DepartmentFilter } from '../common/DepartmentFilter';
+import { saveReportWithAudit } from '../../utils/audit';
+import { CurrentUser, PermissionError, canEditReport, canWriteReports } from '../../utils/permissions';
+import { getFormRubric, getCapturedRubric } from '../../utils/rubrics';
+import { SearchIcon, DocumentDuplicateIcon } from '../Icons';
+import { useLiveQuery } from '../../hooks/useLocalStorage';
+import { useRubrics } from '../../hooks/useRubrics';
+import { REQUIRED_SIGNATURES_KEY } from '../../utils/signatures';
+import { ReportTypeDescriptor, fileSafe, followUpReport, requiredSignatories } from './descriptor';
+import { ReportForm } from './ReportForm';
+import { ReportDetailView } from './ReportDetailView';
+import { ReportPdfContent, pdfSignatures } from './ReportPdfContent';
+
+/**
+ * The list, form and detail pages of one report type, with search, filters, bulk PDF export and
+ * the user's unfinished drafts.
+ */
+export const ReportModule: React.FC<{
+    descriptor: ReportTypeDescriptor<any>;
+    term: AcademicTerm | null;
+    user: CurrentUser;
+    initialReportIdToShow?: string;
+    // Opens the form for a follow-up of this report, e.g. from a teacher profile.
+    initialFollowUpOfId?: string;
+    onClearActiveReport: () => void;
+}> = ({ descriptor, term, user, initialReportIdToShow, initialFollowUpOfId, onClearActiveReport }) => {
+    const { table } = descriptor;
+    const reports = useLiveQuery<Report[]>(() => (descriptor.query ? descriptor.query() : activeRows(dbTyped[table])), [descriptor]) ?? [];
+    const teachers = useLiveQuery<Teacher[]>(() => activeRows(dbTyped.teachers), []) ?? [];
+    const settings = useLiveQuery<AppSetting[]>(() => dbTyped.settings.toArray(), []) ?? [];
+    // Custom report types share one table, so their drafts are told apart by type.
+    const draftReportTypeId = (descriptor.emptyReport as CustomReport).reportTypeId;
+    const drafts = useLiveQuery<ReportDraft[]>(() => getDrafts(table, draftReportTypeId, user), [descriptor, user]) ?? [];
+    const rubrics = useRubrics();
+    const [view, setView] = useState<'LIST' | 'FORM' | 'DETAIL'>('LIST');
+    const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+    // The draft the open form saves to, and what the form starts from.
+    const [editing, setEditing] = useState<{ draftId: string; initialData?: Report; actionItems?: ActionItemChanges } | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [sortBy, setSortBy] = useState('date-desc');
+    const [filterStartDate, setFilterStartDate] = useState('');
+    const [filterEndDate, setFilterEndDate] = useState('');
+    const [departmentFilter, setDepartmentFilter] = useState(ALL_DEPARTMENTS);
+    const [statusFilter, setStatusFilter] = useState<ReportStatus | ''>('');
+    const [isBulkExporting, setIsBulkExporting] = useState(false);
+    const canAdd = canWriteReports(user) && !descriptor.newReportsClosedReason;
+
+    const appSettings = useMemo(() => {
+        return settings.reduce((acc, setting) => {
+            acc[setting.key] = setting.value;
+            return acc;
+        }, {} as { [key: string]: any });
+    }, [settings]);
+
+    useEffect(() => {
+        if (initialReportIdToShow) {
+            setSelectedReportId(initialReportIdToShow);
+            setView('DETAIL');
+        }
+    }, [initialReportIdToShow]);
+
+    useEffect(() => {
+        if (!initialFollowUpOfId) return;
+        const previous = reports.find(r => r.id === initialFollowUpOfId);
+        if (!previous) return;
+        if (canAdd) {
+            handleNewFromPrevious(previous);
+        }
+        onClearActiveReport();
+    }, [initialFollowUpOfId, reports]);
+
+    const handleSave = useCallback(async (report: Report, actionItems: ActionItemChanges) => {
+        try {
+            await saveReportWithAudit(table, report);
+            if (descriptor.raisesActionItems || descriptor.reviewsActionItems) {
+                await saveActionItemChanges(table, report, actionItems);
+            }
+        } catch (error) {
+            alert(error instanceof PermissionError ? error.message : 'Failed to save the report.');
+            return;
+        }
+        if (editing) {
+            await deleteDraft(editing.draftId);
+        }
+        setView('LIST');
+        setSelectedReportId(null);
+        setEditing(null);
+    }, [table, descriptor, editing]);
+
+    const handleDelete = useCallback(async (id: string) => {
+        if (window.confirm('Move this report to the recycle bin? You can restore it from the Recycle Bin page.')) {
+            try {
+                await softDelete(table, id);
+            } catch (error) {
+                alert(error instanceof PermissionError ? error.message : 'Failed to delete the report.');
+            }
+        }
+    }, [table]);
+
+    const openForm = (draftId: string, initialData?: Report, actionItems?: ActionItemChanges) => {
+        setEditing({ draftId, initialData, actionItems });
+        setView('FORM');
+    };
+
+    const handleAddNew = () => {
+        setSelectedReportId(null);
+        openForm(createId());
+    };
+
+    const handleEdit = async (report: Report) => {
+        const draft = findDraftForReport(drafts, report);
+        if (draft) {
+            if (window.confirm(`You have unsaved changes to this report from ${new Date(draft.updatedAt).toLocaleString()}. Continue with them? Choose Cancel to discard them and start from the saved report.`)) {
+                openForm(draft.id, draft.report, draft.actionItems);
+                return;
+            }
+            await deleteDraft(draft.id);
+        }
+        const actionItems = descriptor.raisesActionItems || descriptor.reviewsActionItems ? await getActionItemChanges(report.id) : undefined;
+        openForm(createId(), report, actionItems);
+    };
+
+    const handleResumeDraft = (draft: ReportDraft) => {
+        // A draft of a report deleted since then is resumed as a new report.
+        const stillExists = !draft.reportId || reports.some(r => r.id === draft.reportId);
+        setSelectedReportId(stillExists ? draft.reportId ?? null : null);
+        openForm(draft.id, stillExists ? draft.report : { ...draft.report, id: '' }, draft.actionItems);
+    };
+
+    const handleDiscardDraft = async (draft: ReportDraft) => {
+        if (window.confirm('Discard this draft? This cannot be undone.')) {
+            try {
+                await deleteDraft(draft.id);
+            } catch (error) {
+                alert('Failed to discard the draft.');
+            }
+        }
+    };
+
+    const handleNewFromPrevious = (previous: Report) => {
+        setSelectedReportId(null);
+        openForm(createId(), followUpReport(descriptor, previous));
+    };
+
+    const handleBackToList = () => {
+        setView('LIST');
+        setSelectedReportId(null);
+        setEditing(null);
+        if (initialReportIdToShow) {
+            onClearActiveReport();
+        }
+    };
+
+    const filteredAndSortedReports = useMemo(() => {
+        let filtered = filterByDepartment(filterByTerm(reports, term), teachers, departmentFilter);
+
+        if (searchQuery) {
+            filtered = filtered.filter(report =>
+                report.teacherName.toLowerCase().includes(searchQuery.toLowerCase()) ||
+                report.subject.toLowerCase().includes(searchQuery.toLowerCase())
+            );
+        }
+
+        if (statusFilter) {
+            filtered = filtered.filter(report => report.status === statusFilter);
+        }
+
+        if (filterStartDate) {
+            const startDate = new Date(filterStartDate + 'T00:00:00');
+            filtered = filtered.filter(report => new Date(report.date + 'T00:00:00') >= startDate);
+        }
+        if (filterEndDate) {
+            const endDate = new Date(filterEndDate + 'T00:00:00');
+            filtered = filtered.filter(report => new Date(report.date + 'T00:00:00') <= endDate);
+        }
+
+        return filtered.sort((a, b) => {
+            switch (sortBy) {
+                case 'date-asc':
+                    return new Date(a.date).getTime() - new Date(b.date).getTime();
+                case 'teacher-asc':
+                    return a.teacherName.localeCompare(b.teacherName);
+                case 'date-desc':
+                default:
+                    return new Date(b.date).getTime() - new Date(a.date).getTime();
+            }
+        });
+    }, [reports, teachers, term, departmentFilter, statusFilter, searchQuery, filterStartDate, filterEndDate, sortBy]);
+
+    const exportedReports = useMemo(() => countedReports(filteredAndSortedReports), [filteredAndSortedReports]);
+
+    const handleBulkExport = useCallback(() => {
+        if (exportedReports.length === 0) {
+            alert('No reports to export.');
+            return;
+        }
+        setIsBulkExporting(true);
+    }, [exportedReports]);
+
+    useEffect(() => {
+        if (!isBulkExporting) return;
+
+        const performExport = async () => {
+            const elementIds = exportedReports.map(r => `bulk-pdf-${table}-${r.id}`);
+            const pdf = await generateBulkPdfDocument(elementIds);
+            if (pdf) {
+                const scope = term ? fileSafe(formatTermLabel(term)) : 'Bulk_Export';
+                pdf.save(`${fileSafe(descriptor.listTitle)}_${scope}_${new Date().toISOString().split('T')[0]}.pdf`);
+            } else {
+                alert('Failed to generate bulk PDF.');
+            }
+            setIsBulkExporting(false);
+        };
+        // Timeout to allow React to render the off-screen elements
+        setTimeout(performExport, 100);
+
+    }, [isBulkExporting, exportedReports, term, descriptor, table]);
+
+    const selectedReport = reports.find(r => r.id === selectedReportId);
+    const canEdit = (report: { teacherId: string; authorId?: string }) => canEditReport(user, report, teachers.find(t => t.id === report.teacherId));
+    const capturedRubric = (report: Report) => (descriptor.usesRubrics ? getCapturedRubric(rubrics ?? [], report as RubricFields) : undefined);
+
+    if (view === 'FORM' && editing) {
+        // Wait for the rubrics so a new report is never saved without one.
+        if (descriptor.usesRubrics && !rubrics) return null;
+        const rubric = descriptor.usesRubrics ? getFormRubric(rubrics, table, editing.initialData as RubricFields) : undefined;
+        return (
+            <ReportForm
+                key={editing.draftId}
+                descriptor={descriptor}
+                onSave={handleSave}
+                onCancel={handleBackToList}
+                initialData={editing.initialData}
+                teachers={teachers}
+                rubric={rubric}
+                draftId={editing.draftId}
+                authorId={user?.id}
+                previousReport={reports.find(r => r.id === editing.initialData?.previousReportId)}
+                initialActionItems={editing.actionItems}
+            />
+        );
+    }
+
+    if (view === 'DETAIL' && selectedReport) {
+        return <ReportDetailView descriptor={descriptor} report={selectedReport} rubric={capturedRubric(selectedReport)} user={user} onBack={handleBackToList} onEdit={canEdit(selectedReport) && !isClosed(selectedReport) ? () => handleEdit(selectedReport) : undefined} canChangeStatus={canEdit(selectedReport)} onNewFromPrevious={canAdd ? () => handleNewFromPrevious(selectedReport) : undefined} />;
+    }
+
+    const isFiltered = term || departmentFilter || statusFilter || searchQuery || filterStartDate || filterEndDate;
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-6">
+                <ReportHeader title={descriptor.listTitle} onAddNew={canAdd ? handleAddNew : undefined} />
+                <button
+                    onClick={handleBulkExport}
+                    disabled={isBulkExporting || exportedReports.length === 0}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                    <DocumentDuplicateIcon className="w-5 h-5 mr-2" />
+                    {isBulkExporting ? 'Exporting...' : `Export All (${exportedReports.length})`}
+                </button>
+            </div>
+
+            {descriptor.newReportsClosedReason && (
+                <p className="mb-6 p-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md">{descriptor.newReportsClosedReason}</p>
+            )}
+
+            {drafts.length > 0 && (
+                <section className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                    <h3 className="text-lg font-semibold text-gray-800">Drafts ({drafts.length})</h3>
+                    <p className="text-sm text-gray-600 mb-3">Unsaved reports on this device. They are not included in lists, statistics or exports until saved.</p>
+                    <ul className="divide-y divide-amber-200">
+                        {drafts.map(draft => (
+                            <li key={draft.id} className="flex items-center justify-between py-2 gap-4">
+                                <div>
+                                    <p className="font-medium text-gray-900">
+                                        {draft.report.teacherName || 'No teacher selected'}
+                                        {draft.report.subject && <span className="text-gray-600"> &middot; {draft.report.subject}</span>}
+                                    </p>
+                                    <p className="text-xs text-gray-500">
+                                        {draft.reportId ? 'Changes to a saved report' : 'New report'} &middot; last saved {new Date(draft.updatedAt).toLocaleString()}
+                                    </p>
+                                </div>
+                                <div className="flex space-x-2 flex-shrink-0">
+                                    <button onClick={() => handleResumeDraft(draft)} className="px-3 py-1 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">Resume</button>
+                                    <button onClick={() => handleDiscardDraft(draft)} className="px-3 py-1 text-sm font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100">Discard</button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            <div className="mb-6">
+                <div className="relative rounded-md shadow-sm">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <SearchIcon className="h-5 w-5 text-gray-400" />
+                    </div>
+                    <input
+                        type="search"
+                        placeholder="Search by teacher or subject..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-5 gap-4 mb-6 p-4 bg-gray-50 border rounded-lg">
+                <div>
+                    <label htmlFor="sortBy" className="block text-sm font-medium text-gray-700">Sort By</label>
+                    <select
+                        id="sortBy"
+                        value={sortBy}
+                        onChange={e => setSortBy(e.target.value)}
+                        className="mt-1 block w-full pl-3 pr-10 py-2 text-base text-black border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                    >
+                        <option value="date-desc">Date (Newest First)</option>
+                        <option value="date-asc">Date (Oldest First)</option>
+                        <option value="teacher-asc">Teacher Name (A-Z)</option>
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="statusFilter" className="block text-sm font-medium text-gray-700">Status</label>
+                    <select
+                        id="statusFilter"
+                        value={statusFilter}
+                        onChange={e => setStatusFilter(e.target.value as ReportStatus | '')}
+                        className="mt-1 block w-full pl-3 pr-10 py-2 text-base text-black border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                    >
+                        <option value="">All Statuses</option>
+                        {REPORT_STATUSES.map(status => (
+                            <option key={status} value={status}>{REPORT_STATUS_LABELS[status]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">Start Date</label>
+                    <input
+                        type="date"
+                        id="startDate"
+                        value={filterStartDate}
+                        onChange={e => setFilterStartDate(e.target.value)}
+                        className="mt-1 block w-full px-3 py-2 text-base text-black border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">End Date</label>
+                    <input
+                        type="date"
+                        id="endDate"
+                        value={filterEndDate}
+                        onChange={e => setFilterEndDate(e.target.value)}
+                        className="mt-1 block w-full px-3 py-2 text-base text-black border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+                    />
+                </div>
+                <DepartmentFilter value={departmentFilter} onChange={setDepartmentFilter} />
+            </div>
+
+            <div className="space-y-4">
+                {filteredAndSortedReports.length > 0 ? (
+                    filteredAndSortedReports.map(report => (
+                        <ReportListItem key={report.id} report={report} summary={descriptor.listSummary?.(report)} onSelect={(id) => { setSelectedReportId(id); setView('DETAIL'); }} onDelete={canEdit(report) ? handleDelete : undefined} />
+                    ))
+                ) : (
+                    <div className="text-center text-gray-500 py-8 bg-gray-50 rounded-lg">
+                        <h3 className="text-lg font-medium">
+                            {isFiltered ? 'No Reports Found' : `No ${descriptor.listTitle} Yet`}
+                        </h3>
+                        <p className="mt-1 text-sm">
+                           {isFiltered ? 'No reports match your search and filter criteria.' : canAdd ? 'Click "Add New Report" to get started.' : ''}
+                        </p>
+                    </div>
+                )}
+            </div>
+
+            {isBulkExporting && (
+                <div style={{ position: 'absolute', left: '-9999px', top: 'auto', width: '794px', height: 'auto', overflow: 'hidden' }}>
+                    {exportedReports.map(report => (
+                        <PdfDocument
+                            key={report.id}
+                            id={`bulk-pdf-${table}-${report.id}`}
+                            title={descriptor.documentTitle}
+                            schoolName={appSettings.schoolName}
+                            schoolLogo={appSettings.schoolLogo}
+                            footerText={appSettings.reportFooter}
+                            signatures={pdfSignatures(report, requiredSignatories(descriptor, appSettings[REQUIRED_SIGNATURES_KEY]))}
+                        >
+                            <ReportPdfContent descriptor={descriptor} report={report} rubric={capturedRubric(report)} />
+                        </PdfDocument>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
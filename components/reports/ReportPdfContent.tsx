@@ -0,0 +1,86 @@
+import React from 'react';
+import { Report, Rubric, SignatoryRole } from '../../types';
+import { StarRatingDisplay, PdfSection, PdfField, PdfSignature } from '../common/ReportComponents';
+import { RubricPdfSection } from '../common/RubricComponents';
+import { REPORT_STATUS_LABELS } from '../../utils/reportWorkflow';
+import { SIGNATORY_LABELS, signOffStatus } from '../../utils/signatures';
+import { ReportFieldDescriptor, ReportTypeDescriptor, RUBRIC_SECTION, readField, formatFieldText, isSignatureSection } from './descriptor';
+
+const renderSignatureForPdf = (signatureData: string) => {
+    if (signatureData && signatureData.startsWith('data:image/')) {
+        return <img src={signatureData} alt="Signature" className="h-24 w-auto border border-gray-400 p-1" />;
+    }
+    return <p className="h-24 border border-gray-400 p-1 font-serif italic flex items-center justify-center">{signatureData || 'N/A'}</p>;
+};
+
+const renderPdfField = (field: ReportFieldDescriptor, report: Report) => {
+    const value = readField(report, field.key);
+    const label = field.shortLabel ?? field.label;
+    switch (field.type) {
+        case 'rating':
+            return <PdfField key={field.key} label={label}>{value ? <StarRatingDisplay rating={Number(value)} maxRating={field.maxRating} /> : null}</PdfField>;
+        case 'signature':
+            return <PdfField key={field.key} label={label}>{renderSignatureForPdf(value ?? '')}</PdfField>;
+        default:
+            return <PdfField key={field.key} label={label} fullWidth={field.type === 'textarea'}>{formatFieldText(field, value)}</PdfField>;
+    }
+};
+
+/**
+ * The body of a report's PDF, for single and bulk exports.
+ */
+export const ReportPdfContent: React.FC<{ descriptor: ReportTypeDescriptor<any>; report: Report; rubric?: Rubric }> = ({ descriptor, report, rubric }) => (
+    <>
+        <PdfSection title="Summary">
+            <PdfField label="Teacher Name">{report.teacherName}</PdfField>
+            <PdfField label="Class Name">{report.className}</PdfField>
+            <PdfField label="Subject">{report.subject}</PdfField>
+            <PdfField label="Date">{new Date(report.date).toLocaleDateString()}</PdfField>
+            <PdfField label="Status">{REPORT_STATUS_LABELS[report.status]}</PdfField>
+            {report.authorName && <PdfField label="Written By">{report.authorName}</PdfField>}
+            {descriptor.summaryFields.map(field => renderPdfField(field, report))}
+            {descriptor.summaryFacts?.(report).map(fact => <PdfField key={fact.label} label={fact.label}>{fact.value}</PdfField>)}
+        </PdfSection>
+        {descriptor.sections.map((section, index) => {
+            if (section === RUBRIC_SECTION) {
+                return rubric && <RubricPdfSection key={RUBRIC_SECTION} rubric={rubric} scores={report.rubricScores} />;
+            }
+            return (
+                <PdfSection key={index} title={section.title}>
+                    {isSignatureSection(section) ? (
+                        <div className="grid grid-cols-2 gap-8 pt-4">
+                            {section.fields.map(field => (
+                                <div key={field.key} className="text-center">
+                                    {renderSignatureForPdf(readField(report, field.key) ?? '')}
+                                    <p className="border-t border-gray-400 mt-2 pt-1 text-sm text-gray-600">{field.shortLabel ?? field.label}</p>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        section.fields.map(field => renderPdfField(field, report))
+                    )}
+                </PdfSection>
+            );
+        })}
+        {report.acknowledgement && (
+            <PdfSection title="Teacher Acknowledgement">
+                <PdfField label="Comment" fullWidth>{report.acknowledgement.teacherComment}</PdfField>
+                <div className="w-1/2 text-center">
+                    {renderSignatureForPdf(report.acknowledgement.teacherSignature)}
+                    <p className="border-t border-gray-400 mt-2 pt-1 text-sm text-gray-600">Acknowledged {new Date(report.acknowledgement.acknowledgedAt).toLocaleDateString()}</p>
+                </div>
+            </PdfSection>
+        )}
+    </>
+);
+
+/**
+ * The sign-off lines of the PDF footer. Signatures invalidated by a later edit are left out.
+ */
+export const pdfSignatures = (report: Report, roles: SignatoryRole[]): PdfSignature[] =>
+    signOffStatus(report, roles).map(({ role, signature }) => ({
+        label: SIGNATORY_LABELS[role],
+        signerName: signature?.signerName,
+        signature: signature?.signature,
+        signedAt: signature?.signedAt,
+    }));
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Report, ReportTableName, SignatoryRole } from '../../types';
+import { CurrentUser } from '../../utils/permissions';
+import { SIGNATORY_LABELS, signOffStatus, signReport } from '../../utils/signatures';
+import { isClosed } from '../../utils/reportWorkflow';
+import { DetailSection, FormInput, SignaturePad } from '../common/ReportComponents';
+import { PencilIcon } from '../Icons';
+
+const formatTimestamp = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+/**
+ * The signatures a report type requires, with a step to sign for each party that has not
+ * signed the current content.
+ */
+export const ReportSignOffPanel: React.FC<{
+    table: ReportTableName;
+    report: Report;
+    roles: SignatoryRole[];
+    user: CurrentUser;
+    canSign: boolean;
+}> = ({ table, report, roles, user, canSign }) => {
+    const [signingRole, setSigningRole] = useState<SignatoryRole | null>(null);
+    const [signerName, setSignerName] = useState('');
+    const [signature, setSignature] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    if (roles.length === 0) return null;
+
+    const startSigning = (role: SignatoryRole) => {
+        setSigningRole(role);
+        setSignerName(role === 'teacher' ? report.teacherName : role === 'supervisor' ? user?.name ?? '' : '');
+        setSignature('');
+        setError('');
+    };
+
+    const handleSign = async () => {
+        if (!signingRole) return;
+        setError('');
+        setIsSaving(true);
+        try {
+            await signReport(table, report, signingRole, signerName, signature);
+            setSigningRole(null);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to save the signature.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const canSignNow = canSign && !isClosed(report);
+
+    return (
+        <DetailSection title="Sign-off" icon={<PencilIcon className="w-7 h-7" />}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                {signOffStatus(report, roles).map(({ role, signature: signed, invalidated }) => (
+                    <div key={role}>
+                        <h4 className="text-sm font-medium text-gray-500">{SIGNATORY_LABELS[role]}</h4>
+                        {signed ? (
+                            <>
+                                <img src={signed.signature} alt={`${SIGNATORY_LABELS[role]} signature`} className="h-20 w-auto bg-gray-50 border border-gray-300 rounded-md object-contain p-1" />
+                                <p className="text-sm text-gray-900 mt-1">{signed.signerName}</p>
+                                <p className="text-xs text-gray-500">Signed {formatTimestamp(signed.signedAt)}</p>
+                            </>
+                        ) : (
+                            <>
+                                {invalidated ? (
+                                    <p className="mt-1 text-sm text-red-600">Signed by {invalidated.signerName} on {formatTimestamp(invalidated.signedAt)}, but the report was edited afterwards.</p>
+                                ) : (
+                                    <p className="mt-1 text-sm text-gray-500">Not signed.</p>
+                                )}
+                                {canSignNow && signingRole !== role && (
+                                    <button onClick={() => startSigning(role)} className="mt-2 px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200">
+                                        Sign as {SIGNATORY_LABELS[role]}
+                                    </button>
+                                )}
+                            </>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {signingRole && (
+                <div className="mt-6 space-y-4 border-t pt-4">
+                    <FormInput label={`${SIGNATORY_LABELS[signingRole]}'s Name`} id="signerName" value={signerName} onChange={(e) => setSignerName(e.target.value)} required />
+                    <SignaturePad label={`${SIGNATORY_LABELS[signingRole]}'s Signature`} onEnd={setSignature} />
+                    <div className="flex justify-end space-x-2">
+                        <button onClick={() => setSigningRole(null)} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">Cancel</button>
+                        <button onClick={handleSign} disabled={isSaving || !signature || !signerName.trim()} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50">Save Signature</button>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="mt-2 text-red-500 text-sm">{error}</p>}
+        </DetailSection>
+    );
+};
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Report, ReportTableName, SignatoryRole } from '../../types';
+import { CurrentUser } from '../../utils/permissions';
+import { submitReport, acknowledgeReport, closeReport, raiseAmendment } from '../../utils/reportWorkflow';
+import { FormTextarea, SignaturePad, ReportStatusBadge } from '../common/ReportComponents';
+
+const formatTimestamp = (timestamp?: string) => (timestamp ? new Date(timestamp).toLocaleString() : '');
+
+/**
+ * The status of a report with the step that moves it on: submit, record the teacher's
+ * acknowledgement, close, or raise an amendment to reopen a closed report.
+ */
+export const ReportWorkflowPanel: React.FC<{
+    table: ReportTableName;
+    report: Report;
+    user: CurrentUser;
+    // False when the user may not change this report; the status is then only shown.
+    canChange: boolean;
+    // Signatures the report needs before it can be closed.
+    requiredSignatories: SignatoryRole[];
+}> = ({ table, report, user, canChange, requiredSignatories }) => {
+    const [step, setStep] = useState<'acknowledge' | 'amend' | null>(null);
+    const [teacherComment, setTeacherComment] = useState('');
+    const [teacherSignature, setTeacherSignature] = useState('');
+    const [amendmentReason, setAmendmentReason] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        setIsSaving(true);
+        try {
+            await action();
+            setStep(null);
+            setTeacherComment('');
+            setTeacherSignature('');
+            setAmendmentReason('');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to update the report.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleClose = () => {
+        if (window.confirm('Close this report? It can then only be changed by raising an amendment.')) {
+            run(() => closeReport(table, report, requiredSignatories));
+        }
+    };
+
+    const buttonClass = 'px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50';
+
+    return (
+        <section className="mb-6 p-4 border rounded-lg bg-gray-50">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div className="flex items-center space-x-3">
+                    <span className="text-sm font-medium text-gray-600">Status</span>
+                    <ReportStatusBadge status={report.status} />
+                    {report.submittedAt && <span className="text-xs text-gray-500">Submitted {formatTimestamp(report.submittedAt)}</span>}
+                    {report.closedAt && <span className="text-xs text-gray-500">&bull; Closed {formatTimestamp(report.closedAt)}</span>}
+                </div>
+                {canChange && step === null && (
+                    <div>
+                        {report.status === 'draft' && <button onClick={() => run(() => submitReport(table, report))} disabled={isSaving} className={buttonClass}>Submit Report</button>}
+                        {report.status === 'submitted' && <button onClick={() => setStep('acknowledge')} className={buttonClass}>Record Teacher Acknowledgement</button>}
+                        {report.status === 'acknowledged' && <button onClick={handleClose} disabled={isSaving} className={buttonClass}>Close Report</button>}
+                        {report.status === 'closed' && <button onClick={() => setStep('amend')} className={buttonClass}>Raise Amendment</button>}
+                    </div>
+                )}
+            </div>
+
+            {report.acknowledgement && (
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <h4 className="text-sm font-medium text-gray-500">Teacher's Comment</h4>
+                        <p className="mt-1 text-gray-900 whitespace-pre-wrap">{report.acknowledgement.teacherComment || 'No comment.'}</p>
+                        <p className="text-xs text-gray-500 mt-1">Acknowledged {formatTimestamp(report.acknowledgement.acknowledgedAt)}</p>
+                    </div>
+                    <div>
+                        <h4 className="text-sm font-medium text-gray-500">Teacher's Signature</h4>
+                        <img src={report.acknowledgement.teacherSignature} alt="Teacher's signature" className="h-20 w-auto bg-white border border-gray-300 rounded-md object-contain p-1" />
+                    </div>
+                </div>
+            )}
+
+            {(report.amendments ?? []).length > 0 && (
+                <div className="mt-4">
+                    <h4 className="text-sm font-medium text-gray-500">Amendments</h4>
+                    <ul className="mt-1 space-y-1 text-sm text-gray-700">
+                        {report.amendments!.map((amendment, index) => (
+                            <li key={index}>{formatTimestamp(amendment.raisedAt)}{amendment.raisedBy && ` by ${amendment.raisedBy}`}: {amendment.reason}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {step === 'acknowledge' && (
+                <div className="mt-4 space-y-4">
+                    <p className="text-sm text-gray-600">Ask the teacher to read the report, add any comment and sign below.</p>
+                    <FormTextarea label="Teacher's Comment" id="teacherComment" value={teacherComment} onChange={(e) => setTeacherComment(e.target.value)} rows={3} placeholder="Optional" />
+                    <SignaturePad label="Teacher's Signature" onEnd={setTeacherSignature} initialDataUrl={teacherSignature || undefined} />
+                    <div className="flex justify-end space-x-2">
+                        <button onClick={() => setStep(null)} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">Cancel</button>
+                        <button onClick={() => run(() => acknowledgeReport(table, report, teacherComment, teacherSignature))} disabled={isSaving || !teacherSignature} className={buttonClass}>Save Acknowledgement</button>
+                    </div>
+                </div>
+            )}
+
+            {step === 'amend' && (
+                <div className="mt-4 space-y-4">
+                    <p className="text-sm text-gray-600">An amendment reopens the report for editing. The teacher will need to acknowledge it again before it is closed.</p>
+                    <FormTextarea label="Reason for Amendment" id="amendmentReason" value={amendmentReason} onChange={(e) => setAmendmentReason(e.target.value)} rows={2} required />
+                    <div className="flex justify-end space-x-2">
+                        <button onClick={() => setStep(null)} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">Cancel</button>
+                        <button onClick={() => run(() => raiseAmendment(table, report, amendmentReason, user))} disabled={isSaving || !amendmentReason.trim()} className={buttonClass}>Reopen Report</button>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="mt-2 text-red-500 text-sm">{error}</p>}
+        </section>
+    );
+};
@@ -0,0 +1,78 @@
+import React, { useEffect } from 'react';
+import { AcademicTerm, SchemeOfWork, WorkCoverageReport } from '../../types';
+import { dbTyped } from '../../utils/db';
+import { findTermForDate, formatTermLabel, termWeek } from '../../utils/terms';
+import { NO_SCHEME_COVERAGE, findScheme, formatWeeksBehind, schemeCoverage } from '../../utils/schemesOfWork';
+import { useLiveQuery } from '../../hooks/useLocalStorage';
+import { Fieldset } from '../common/ReportComponents';
+
+const sameValue = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The topics of the scheme of work for the report's class, subject and term, to tick off as
+ * completed. The topic texts, coverage and weeks behind are derived from the ticks.
+ */
+export const SchemeChecklist: React.FC<{
+    report: WorkCoverageReport;
+    onChange: (changes: Partial<WorkCoverageReport>) => void;
+}> = ({ report, onChange }) => {
+    const terms = useLiveQuery<AcademicTerm[]>(() => dbTyped.terms.toArray(), []);
+    const schemes = useLiveQuery<SchemeOfWork[]>(
+        async () => (report.classId ? dbTyped.schemesOfWork.where('classId').equals(report.classId).toArray() : []),
+        [report.classId],
+    );
+    const term = terms && report.date ? findTermForDate(terms, report.date) : undefined;
+    const scheme = term && schemes ? findScheme(schemes, report.classId, report.subjectId, term.id) : undefined;
+    const isLoaded = terms !== undefined && schemes !== undefined;
+
+    // Keeps the derived values in step when the class, subject, date or scheme changes. It waits
+    // for a date, so a follow-up keeps the ticks it copied until its scheme is known, and keeps
+    // ticks only while they belong to that scheme.
+    useEffect(() => {
+        if (!isLoaded || !report.date) return;
+        const completedIds = scheme && report.schemeOfWorkId === scheme.id ? report.completedTopicIds ?? [] : [];
+        const derived = scheme && term ? schemeCoverage(scheme, term, report.date, completedIds) : NO_SCHEME_COVERAGE;
+        if (Object.entries(derived).some(([key, value]) => !sameValue(report[key], value))) onChange(derived);
+    }, [isLoaded, scheme, term, report.date, report.schemeOfWorkId, report.completedTopicIds]);
+
+    if (!report.classId || !report.subjectId || !report.date || !isLoaded) return null;
+
+    if (!scheme) {
+        return (
+            <p className="p-3 text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-md">
+                {term
+                    ? `There is no scheme of work for ${report.className} ${report.subject} in ${formatTermLabel(term)}, so type the topics below.`
+                    : 'The date is not in any academic term, so there is no scheme of work to check against. Type the topics below.'}
+                {' '}Add a scheme on the Schemes of Work page to tick topics off instead.
+            </p>
+        );
+    }
+
+    const completedIds = report.completedTopicIds ?? [];
+    const toggle = (topicId: string) => {
+        const next = completedIds.includes(topicId) ? completedIds.filter(id => id !== topicId) : [...completedIds, topicId];
+        onChange(schemeCoverage(scheme, term!, report.date, next));
+    };
+
+    return (
+        <Fieldset legend="Scheme of Work">
+            <p className="text-sm text-gray-500">
+                Tick the topics completed by the report date (week {termWeek(term!, report.date)} of {formatTermLabel(term!)}).
+            </p>
+            <ul className="divide-y divide-gray-200 border rounded-md">
+                {scheme.topics.map(topic => (
+                    <li key={topic.id} className="px-3 py-2">
+                        <label className="flex items-center text-sm text-gray-700">
+                            <input type="checkbox" checked={completedIds.includes(topic.id)} onChange={() => toggle(topic.id)} className="h-4 w-4 mr-3 text-indigo-600 border-gray-300 rounded" />
+                            <span className="w-20 shrink-0 text-gray-500">Week {topic.plannedWeek}</span>
+                            <span>{topic.title}</span>
+                        </label>
+                    </li>
+                ))}
+            </ul>
+            <p className="text-sm font-medium text-gray-800">
+                {completedIds.length} of {scheme.topics.length} topics completed ({report.coveragePercent ?? 0}%) &bull; {formatWeeksBehind(report.weeksBehind ?? 0)}
+            </p>
+        </Fieldset>
+    );
+};
@@ -0,0 +1,45 @@
+import { BookCheckingReport, Page } from '../../types';
+import { BookOpenIcon } from '../Icons';
+import { ReportTypeDescriptor, RUBRIC_SECTION } from './descriptor';
+
+const WORK_COVERAGE_OPTIONS = [
+    { value: 'complete', label: 'Complete' },
+    { value: 'partial', label: 'Partial' },
+    { value: 'missing', label: 'Missing' },
+];
+
+export const bookCheckingDescriptor: ReportTypeDescriptor<BookCheckingReport> = {
+    table: 'bookCheckingReports',
+    page: Page.BOOK_CHECKING,
+    title: 'Book Checking Report',
+    listTitle: 'Book Checking Reports',
+    documentTitle: 'Book Checking Report',
+    emptyReport: {
+        id: '', teacherId: '', teacherName: '', classId: '', subjectId: '', className: '', subject: '', date: '', status: 'draft', booksChecked: '', workCoverage: 'complete',
+        rubricScores: {},
+        exemplaryWorkNoted: '', commonStudentErrors: '', teacherResponseToFeedback: '', comments: ''
+    },
+    summaryFields: [
+        { key: 'booksChecked', label: 'Number of Books Checked', shortLabel: '# Books Checked', type: 'number', required: true },
+        { key: 'workCoverage', label: 'Coverage of Work', shortLabel: 'Work Coverage', type: 'select', required: true, options: WORK_COVERAGE_OPTIONS },
+    ],
+    sections: [
+        RUBRIC_SECTION,
+        {
+            title: 'Observations & Follow-up',
+            icon: BookOpenIcon,
+            fields: [
+                { key: 'exemplaryWorkNoted', label: 'Exemplary Work Noted', type: 'textarea', rows: 3, placeholder: 'Highlight any outstanding student work or practices.' },
+                { key: 'commonStudentErrors', label: 'Common Student Errors', type: 'textarea', rows: 3, placeholder: 'Note any recurring mistakes or areas of difficulty for students.' },
+                { key: 'teacherResponseToFeedback', label: "Teacher's Response to Previous Feedback", type: 'textarea', rows: 3, placeholder: 'Describe if and how the teacher has acted upon feedback from prior book checks.' },
+                { key: 'comments', label: 'General Comments & Recommendations', type: 'textarea', rows: 4, placeholder: 'Provide overall comments and actionable recommendations.' },
+            ],
+        },
+    ],
+    usesRubrics: true,
+    previousReportPanel: { title: 'Previous Feedback', fields: ['commonStudentErrors', 'comments'] },
+    raisesActionItems: true,
+    defaultSignatories: ['teacher', 'supervisor'],
+    validate: report => (parseInt(report.booksChecked) > 0 ? {} : { booksChecked: "Please enter a valid number of books." }),
+    listSummary: report => `${report.booksChecked} books checked • Work coverage: ${WORK_COVERAGE_OPTIONS.find(o => o.value === report.workCoverage)?.label ?? report.workCoverage}`,
+};
@@ -0,0 +1,36 @@
+import { CustomFieldDefinition, CustomReport, CustomReportType, Page } from '../../types';
+import { dbTyped } from '../../utils/db';
+import { DEFAULT_MAX_RATING } from '../../utils/customReports';
+import { DocumentTextIcon } from '../Icons';
+import { ReportFieldDescriptor, ReportTypeDescriptor } from './descriptor';
+
+const toFieldDescriptor = (field: CustomFieldDefinition): ReportFieldDescriptor => ({
+    key: `values.${field.id}`,
+    label: field.label,
+    type: field.type,
+    required: field.required,
+    placeholder: field.type === 'select' ? 'Select an option' : field.placeholder,
+    rows: field.type === 'textarea' ? 4 : undefined,
+    options: field.options?.map(option => ({ value: option, label: option })),
+    maxRating: field.type === 'rating' ? field.maxRating ?? DEFAULT_MAX_RATING : undefined,
+});
+
+/**
+ * Builds the descriptor of a report type defined in the form builder. Its answers live in the
+ * report's values, keyed by field ID.
+ */
+export const customReportDescriptor = (reportType: CustomReportType): ReportTypeDescriptor<CustomReport> => ({
+    table: 'customReports',
+    page: Page.CUSTOM_REPORTS,
+    title: reportType.name,
+    listTitle: reportType.name,
+    documentTitle: reportType.name,
+    emptyReport: {
+        id: '', reportTypeId: reportType.id, teacherId: '', teacherName: '', classId: '', subjectId: '', className: '', subject: '', date: '', status: 'draft', values: {}
+    },
+    summaryFields: [],
+    sections: [{ title: reportType.name, icon: DocumentTextIcon, description: reportType.description, fields: reportType.fields.map(toFieldDescriptor) }],
+    usesRubrics: false,
+    query: () => dbTyped.customReports.where('reportTypeId').equals(reportType.id).filter((r: CustomReport) => !r.deletedAt).toArray(),
+    newReportsClosedReason: reportType.archived ? 'This report type is archived. Existing reports can be viewed and edited, but no new ones can be added.' : undefined,
+});
@@ -0,0 +1,170 @@
+import React from 'react';
+import { CustomReport, Page, Report, ReportTableName, Rubric, RubricFields, SignatoryRole } from '../../types';
+import { missingCriteria } from '../../utils/rubrics';
+import { RequiredSignaturesSetting } from '../../utils/signatures';
+
+export type ReportFieldType = 'text' | 'textarea' | 'number' | 'select' | 'rating' | 'signature' | 'date';
+
+export interface ReportFieldDescriptor {
+    // Property of the report; "values.<id>" addresses an answer of a custom report, as in the audit log.
+    key: string;
+    label: string;
+    // Used in the detail view and PDF when the form label is too long for them.
+    shortLabel?: string;
+    type: ReportFieldType;
+    required?: boolean;
+    placeholder?: string;
+    rows?: number;
+    options?: { value: string; label: string }[];
+    maxRating?: number;
+    // Shows a character counter under a textarea; the limit is not enforced.
+    charLimit?: number;
+    // True when the form panel derives the value, e.g. topics ticked off a scheme of work. The
+    // form then hides the field and does not require it.
+    derivedWhen?: (report: Report) => boolean;
+}
+
+export interface ReportSectionDescriptor {
+    title: string;
+    icon: React.FC<{ className?: string }>;
+    description?: string;
+    fields: ReportFieldDescriptor[];
+}
+
+// Marks where the rubric goes among the sections of the form, detail view and PDF.
+export const RUBRIC_SECTION = 'rubric';
+
+/**
+ * Everything the generic report list, form, detail view and PDF need to know about one report
+ * type. Adding a report type in code means writing one of these and registering it.
+ */
+export interface ReportTypeDescriptor<R extends Report = Report> {
+    table: ReportTableName;
+    page: Page;
+    // Form and detail headings, e.g. "Supervision Report".
+    title: string;
+    // List heading, e.g. "Supervision Reports".
+    listTitle: string;
+    // Heading of the detail view and the PDF.
+    documentTitle: string;
+    emptyReport: R;
+    // Shown with the teacher, class, subject and date in the report details and summary.
+    summaryFields: ReportFieldDescriptor[];
+    sections: (ReportSectionDescriptor | typeof RUBRIC_SECTION)[];
+    usesRubrics: boolean;
+    // Rules beyond required fields and dropdown choices, keyed by field key.
+    validate?: (report: R) => Record<string, string>;
+    // One line under the teacher and subject in the list.
+    listSummary?: (report: R) => string;
+    // Computed figures shown with the summary fields in the detail view and PDF.
+    summaryFacts?: (report: R) => { label: string; value: string }[];
+    // Rendered above the sections of the form, for input that plain fields cannot capture.
+    FormPanel?: React.FC<{ report: R; onChange: (changes: Partial<R>) => void }>;
+    // Derives stored values from the form, e.g. the supervision rating from the rubric scores.
+    prepareForSave?: (report: R, rubric?: Rubric) => R;
+    // The non-deleted reports of the type; defaults to every active row of the table.
+    query?: () => Promise<R[]>;
+    // Set when no new reports may be added, with the reason shown above the list.
+    newReportsClosedReason?: string;
+    // Fields a follow-up report ("New from previous") starts with, copied from the earlier report.
+    // Ratings and the date are never copied, so every observation is scored afresh.
+    copyFromPrevious?: string[];
+    // Fields of the earlier report shown read-only while its follow-up is written.
+    previousReportPanel?: { title: string; fields: string[] };
+    // Whether the form raises action items, which the Action Items page tracks until resolved.
+    raisesActionItems?: boolean;
+    // Whether the form lists the teacher's open action items so their outcome can be recorded.
+    reviewsActionItems?: boolean;
+    // Who signs the report off when the settings do not say otherwise.
+    defaultSignatories?: SignatoryRole[];
+}
+
+// Identifies the report type in per-type settings: the table, or the ID of a custom type.
+export const reportTypeKey = (descriptor: ReportTypeDescriptor<any>): string =>
+    (descriptor.emptyReport as CustomReport).reportTypeId ?? descriptor.table;
+
+/**
+ * The parties who must sign reports of the type before they can be closed.
+ */
+export const requiredSignatories = (descriptor: ReportTypeDescriptor<any>, setting?: RequiredSignaturesSetting): SignatoryRole[] =>
+    setting?.[reportTypeKey(descriptor)] ?? descriptor.defaultSignatories ?? [];
+
+const VALUES_PREFIX = 'values.';
+
+export const readField = (report: Report, key: string): any =>
+    key.startsWith(VALUES_PREFIX) ? (report as any).values?.[key.slice(VALUES_PREFIX.length)] : (report as any)[key];
+
+export const writeField = <R extends Report>(report: R, key: string, value: any): R =>
+    key.startsWith(VALUES_PREFIX)
+        ? { ...report, values: { ...(report as any).values, [key.slice(VALUES_PREFIX.length)]: value } }
+        : { ...report, [key]: value };
+
+export const allFields = (descriptor: ReportTypeDescriptor<any>): ReportFieldDescriptor[] => [
+    ...descriptor.summaryFields,
+    ...descriptor.sections.flatMap(section => (section === RUBRIC_SECTION ? [] : section.fields)),
+];
+
+/**
+ * Labels for the report history, which otherwise derives them from the property names.
+ */
+export const fieldLabels = (descriptor: ReportTypeDescriptor<any>): Record<string, string> =>
+    Object.fromEntries(allFields(descriptor).map(field => [field.key, field.label]));
+
+/**
+ * A new report for the same teacher, class and subject as an earlier one, with the fields the
+ * report type carries forward.
+ */
+export const followUpReport = <R extends Report>(descriptor: ReportTypeDescriptor<R>, previous: R): R => {
+    const { teacherId, teacherName, classId, subjectId, className, subject } = previous;
+    const base: R = { ...descriptor.emptyReport, teacherId, teacherName, classId, subjectId, className, subject, previousReportId: previous.id };
+    return (descriptor.copyFromPrevious ?? []).reduce((report, key) => writeField(report, key, readField(previous, key)), base);
+};
+
+export const isEmptyFieldValue = (value: any) =>
+    value === undefined || value === null || value === 0 || (typeof value === 'string' && !value.trim());
+
+/**
+ * Returns an error message per field key; an empty object when the report can be saved.
+ */
+export const validateReport = <R extends Report>(descriptor: ReportTypeDescriptor<R>, report: R, rubric?: Rubric): Record<string, string> => {
+    const errors: Record<string, string> = {};
+    if (!report.teacherId) errors.teacherId = "Teacher is required.";
+    if (!report.classId || !report.subjectId) errors.classId = "Class and subject are required.";
+    if (!report.date) errors.date = "Date is required.";
+    if (rubric && missingCriteria(rubric, (report as RubricFields).rubricScores).length > 0) errors.rubricScores = "Score every rubric criterion.";
+    allFields(descriptor).forEach(field => {
+        if (field.derivedWhen?.(report)) return;
+        const value = readField(report, field.key);
+        if (isEmptyFieldValue(value)) {
+            if (field.required) errors[field.key] = `${field.label} is required.`;
+        } else if (field.options && !field.options.some(option => option.value === String(value))) {
+            errors[field.key] = `Choose one of the options for ${field.label}.`;
+        }
+    });
+    return { ...errors, ...descriptor.validate?.(report) };
+};
+
+/**
+ * Plain display text for a value. Ratings and signatures have their own components in the
+ * detail view and PDF.
+ */
+export const formatFieldText = (field: ReportFieldDescriptor, value: any): string => {
+    if (isEmptyFieldValue(value)) return '';
+    switch (field.type) {
+        case 'select':
+            return field.options?.find(option => option.value === String(value))?.label ?? String(value);
+        case 'date':
+            return new Date(`${value}T00:00:00`).toLocaleDateString();
+        case 'rating':
+            return `${value} / ${field.maxRating ?? 5}`;
+        case 'signature':
+            return '(signed)';
+        default:
+            return String(value);
+    }
+};
+
+export const isSignatureSection = (section: ReportSectionDescriptor) =>
+    section.fields.length > 0 && section.fields.every(field => field.type === 'signature');
+
+export const fileSafe = (text: string) => text.replace(/[^A-Za-z0-9]+/g, '_');
@@ -0,0 +1,14 @@
+import { BUILT_IN_REPORT_TABLES } from '../../utils/db';
+import { ReportTypeDescriptor } from './descriptor';
+import { supervisionDescriptor } from './supervision';
+import { bookCheckingDescriptor } from './bookChecking';
+import { workCoverageDescriptor } from './workCoverage';
+
+type BuiltInReportTable = typeof BUILT_IN_REPORT_TABLES[number];
+
+// The report types defined in code. Custom types get their descriptor from customReportDescriptor.
+export const REPORT_DESCRIPTORS: Record<BuiltInReportTable, ReportTypeDescriptor<any>> = {
+    supervisionReports: supervisionDescriptor,
+    bookCheckingReports: bookCheckingDescriptor,
+    workCoverageReports: workCoverageDescriptor,
+};
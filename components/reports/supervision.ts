@@ -0,0 +1,50 @@
+import { Page, SupervisionReport } from '../../types';
+import { fivePointRating } from '../../utils/rubrics';
+import { TargetIcon, ThumbsUpIcon } from '../Icons';
+import { ReportTypeDescriptor, RUBRIC_SECTION } from './descriptor';
+
+const CHAR_LIMIT = 500;
+
+export const supervisionDescriptor: ReportTypeDescriptor<SupervisionReport> = {
+    table: 'supervisionReports',
+    page: Page.SUPERVISION,
+    title: 'Supervision Report',
+    listTitle: 'Supervision Reports',
+    documentTitle: 'Classroom Supervision Report',
+    emptyReport: {
+        id: '', teacherId: '', teacherName: '', classId: '', subjectId: '', className: '', subject: '', date: '', status: 'draft', rating: 0, rubricScores: {}, lessonObjectives: '', teachingMethods: '', learnerEngagement: '', classroomManagement: '', useOfTeachingAids: '', assessmentAndFeedback: '', strengths: '', weaknesses: '', recommendations: ''
+    },
+    summaryFields: [],
+    sections: [
+        {
+            title: 'Lesson Observation',
+            icon: TargetIcon,
+            fields: [
+                { key: 'lessonObjectives', label: 'Lesson Objectives', type: 'textarea', rows: 3, required: true, placeholder: 'Describe the main goals of the lesson.' },
+                { key: 'teachingMethods', label: 'Teaching Methods', type: 'textarea', rows: 3, required: true, placeholder: 'e.g., Lecture, group work, demonstration, etc.' },
+                { key: 'learnerEngagement', label: 'Learner Engagement', type: 'textarea', rows: 3, required: true, placeholder: 'How were the students involved in the lesson?' },
+                { key: 'classroomManagement', label: 'Classroom Management', type: 'textarea', rows: 3, required: true, placeholder: 'Describe the classroom atmosphere, student behavior, and transitions.' },
+                { key: 'useOfTeachingAids', label: 'Use of Teaching Aids', type: 'textarea', rows: 3, required: true, placeholder: 'List the teaching materials used (e.g., whiteboard, projector, charts) and their effectiveness.' },
+                { key: 'assessmentAndFeedback', label: 'Assessment & Feedback', type: 'textarea', rows: 3, required: true, placeholder: 'How did the teacher check for understanding and provide feedback? (e.g., questioning, quizzes, verbal praise).' },
+            ],
+        },
+        RUBRIC_SECTION,
+        {
+            title: 'Evaluation',
+            icon: ThumbsUpIcon,
+            fields: [
+                { key: 'strengths', label: 'Strengths', type: 'textarea', rows: 4, required: true, charLimit: CHAR_LIMIT, placeholder: 'What went well during the lesson?' },
+                { key: 'weaknesses', label: 'Areas for Improvement', type: 'textarea', rows: 4, required: true, charLimit: CHAR_LIMIT, placeholder: 'What could be improved?' },
+                { key: 'recommendations', label: 'Recommendations', type: 'textarea', rows: 4, required: true, charLimit: CHAR_LIMIT, placeholder: 'Actionable steps for the teacher to take.' },
+            ],
+        },
+    ],
+    usesRubrics: true,
+    previousReportPanel: { title: 'Previous Recommendations', fields: ['recommendations'] },
+    raisesActionItems: true,
+    reviewsActionItems: true,
+    // School policy is that both parties sign every observation.
+    defaultSignatories: ['teacher', 'supervisor'],
+    listSummary: report => (report.rating ? `Rating: ${report.rating} / 5` : ''),
+    prepareForSave: (report, rubric) => ({ ...report, rating: rubric ? fivePointRating(rubric, report.rubricScores) : report.rating }),
+};
@@ -0,0 +1,55 @@
+import { Page, Report, WorkCoverageReport } from '../../types';
+import { formatWeeksBehind } from '../../utils/schemesOfWork';
+import { ChartBarIcon, PencilIcon } from '../Icons';
+import { ReportTypeDescriptor, RUBRIC_SECTION } from './descriptor';
+import { SchemeChecklist } from './SchemeChecklist';
+
+// The topic texts are derived from the checklist when the report has a scheme of work.
+const hasScheme = (report: Report) => !!(report as WorkCoverageReport).schemeOfWorkId;
+
+export const workCoverageDescriptor: ReportTypeDescriptor<WorkCoverageReport> = {
+    table: 'workCoverageReports',
+    page: Page.WORK_COVERAGE,
+    title: 'Work Coverage Report',
+    listTitle: 'Work Coverage Reports',
+    documentTitle: 'Work Coverage Report',
+    emptyReport: {
+        id: '', teacherId: '', teacherName: '', classId: '', subjectId: '', className: '', subject: '', date: '', status: 'draft', plannedTopics: '', completedTopics: '', pendingTopics: '', remarks: '', teacherSignature: '', supervisorSignature: '', rubricScores: {}
+    },
+    summaryFields: [],
+    sections: [
+        {
+            title: 'Syllabus Coverage',
+            icon: ChartBarIcon,
+            fields: [
+                { key: 'plannedTopics', label: 'Planned Topics (from scheme of work)', shortLabel: 'Planned Topics', type: 'textarea', rows: 4, required: true, derivedWhen: hasScheme },
+                { key: 'completedTopics', label: 'Topics Completed', type: 'textarea', rows: 4, required: true, derivedWhen: hasScheme },
+                { key: 'pendingTopics', label: 'Topics Pending', type: 'textarea', rows: 4, derivedWhen: hasScheme },
+                { key: 'remarks', label: 'Remarks on Delays / Missed Lessons', shortLabel: 'Remarks', type: 'textarea', rows: 3 },
+            ],
+        },
+        RUBRIC_SECTION,
+        {
+            title: 'Signatures',
+            icon: PencilIcon,
+            fields: [
+                { key: 'teacherSignature', label: 'Teacher Signature', shortLabel: "Teacher's Signature", type: 'signature', required: true },
+                { key: 'supervisorSignature', label: 'Supervisor Signature', shortLabel: "Supervisor's Signature", type: 'signature', required: true },
+            ],
+        },
+    ],
+    usesRubrics: true,
+    // Topics stay completed while the follow-up is checked against the same scheme of work; the
+    // checklist drops them once the follow-up's date resolves to another scheme.
+    copyFromPrevious: ['plannedTopics', 'schemeOfWorkId', 'completedTopicIds'],
+    previousReportPanel: { title: 'Previous Coverage', fields: ['completedTopics', 'pendingTopics', 'remarks'] },
+    listSummary: report => {
+        if (report.coveragePercent !== undefined) return `${report.coveragePercent}% covered • ${formatWeeksBehind(report.weeksBehind ?? 0)}`;
+        return report.pendingTopics.trim() ? `Pending: ${report.pendingTopics.split('\n')[0]}` : 'No topics pending';
+    },
+    summaryFacts: report => (report.coveragePercent !== undefined ? [
+        { label: 'Coverage', value: `${report.coveragePercent}%` },
+        { label: 'Schedule', value: formatWeeksBehind(report.weeksBehind ?? 0) },
+    ] : []),
+    FormPanel: SchemeChecklist,
+};
@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+import { AppLockStatus, getAppLockStatus, onAppLockChange } from '../utils/appLock';
+
+/**
+ * Returns the current app lock status and re-renders when the app is locked, unlocked,
+ * or the lock is turned on or off.
+ */
+export function useAppLockStatus(): AppLockStatus {
+  const [status, setStatus] = useState<AppLockStatus>(getAppLockStatus);
+
+  useEffect(() => {
+    setStatus(getAppLockStatus());
+    return onAppLockChange(() => setStatus(getAppLockStatus()));
+  }, []);
+
+  return status;
+}
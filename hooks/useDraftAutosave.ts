@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from 'react';
+import { ReportDraft } from '../types';
+import { saveDraft, DRAFT_AUTOSAVE_DELAY_MS } from '../utils/drafts';
+
+/**
+ * Saves a draft shortly after it last changed, and straight away when the page is hidden (e.g.
+ * the tablet sleeps) or the form closes. Pass null while there is nothing worth saving. Returns
+ * when the draft was last saved and a function that drops any pending save, for use once the
+ * report itself has been saved.
+ */
+export function useDraftAutosave(draft: Omit<ReportDraft, 'updatedAt'> | null): { savedAt: Date | null; cancelPending: () => void } {
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const pending = useRef<Omit<ReportDraft, 'updatedAt'> | null>(null);
+
+  const flush = () => {
+    const next = pending.current;
+    if (!next) return;
+    pending.current = null;
+    saveDraft(next)
+      .then(() => setSavedAt(new Date()))
+      .catch(error => console.error('Failed to save the draft:', error));
+  };
+
+  useEffect(() => {
+    if (!draft) return;
+    pending.current = draft;
+    const timer = setTimeout(flush, DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush();
+    };
+  }, []);
+
+  return { savedAt, cancelPending: () => { pending.current = null; } };
+}
@@ -0,0 +1,12 @@
+import { useLiveQuery } from './useLocalStorage';
+import { dbTyped } from '../utils/db';
+import { withDefaultRubrics } from '../utils/rubrics';
+import { Rubric } from '../types';
+
+/**
+ * Returns every rubric version, including the built-in ones, and re-renders when a version is added.
+ * Undefined while the first query runs.
+ */
+export function useRubrics(): Rubric[] | undefined {
+  return useLiveQuery<Rubric[]>(async () => withDefaultRubrics(await dbTyped.rubrics.toArray()), []);
+}
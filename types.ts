@@ -7,21 +7,160 @@ export enum Page {
   BOOK_CHECKING = 'BOOK_CHECKING',
   WORK_COVERAGE = 'WORK_COVERAGE',
   SETTINGS = 'SETTINGS',
+  RECYCLE_BIN = 'RECYCLE_BIN',
+  CATALOG = 'CATALOG',
+  DEPARTMENTS = 'DEPARTMENTS',
+  REPORT_TYPES = 'REPORT_TYPES',
+  // Shared by every custom report type; the type being shown is tracked separately.
+  CUSTOM_REPORTS = 'CUSTOM_REPORTS',
+  ACTION_ITEMS = 'ACTION_ITEMS',
+  SCHEMES_OF_WORK = 'SCHEMES_OF_WORK',
+}
+
+export type SupervisorRole = 'admin' | 'hod' | 'observer' | 'readonly';
+
+// A local account for the person writing reports, signed in with a PIN.
+export interface Supervisor {
+  id: string;
+  name: string;
+  role: SupervisorRole;
+  // The department a head of department oversees.
+  departmentId?: string;
+  // PBKDF2 hash of the PIN, base64, with its salt.
+  pinHash: string;
+  pinSalt: string;
+  updatedAt?: string;
+}
+
+export interface Department {
+  id: string;
+  name: string;
+  // Must be a member of the department.
+  headTeacherId?: string;
+  updatedAt?: string;
+}
+
+export interface SchoolClass {
+  id: string;
+  name: string;
+  updatedAt?: string;
+}
+
+export interface Subject {
+  id: string;
+  name: string;
+  updatedAt?: string;
+}
+
+// A class/subject pair a teacher is responsible for.
+export interface TeacherAssignment {
+  classId: string;
+  subjectId: string;
 }
 
 export interface Teacher {
   id: string;
   name: string;
-  subjects: string[];
-  classes: string[];
+  assignments: TeacherAssignment[];
+  departmentId?: string;
+  // Archived teachers are hidden from report form dropdowns but keep their history.
+  archived?: boolean;
+  deletedAt?: string;
+  updatedAt?: string;
+}
+
+// One level of a rubric scale. A criterion's score is the 1-based position of its level.
+export interface RubricLevel {
+  label: string;
+  descriptor: string;
 }
 
-export interface SupervisionReport {
+export interface RubricCriterion {
   id: string;
+  name: string;
+  description: string;
+  // Relative weight in the overall score.
+  weight: number;
+}
+
+// A version of the rubric for one report type. Versions are never edited once saved, so a report
+// can always be shown with the criteria it was scored against.
+export interface Rubric {
+  id: string;
+  reportType: ReportTableName;
+  version: number;
+  name: string;
+  criteria: RubricCriterion[];
+  // Ordered from the lowest level to the highest.
+  scale: RubricLevel[];
+  createdAt: string;
+}
+
+// Rubric fields shared by every report type.
+export interface RubricFields {
+  // The rubric version the report was scored with; unset when the report type has no rubric.
+  rubricId?: string;
+  // Level per criterion ID.
+  rubricScores?: Record<string, number>;
+}
+
+export type ReportStatus = 'draft' | 'submitted' | 'acknowledged' | 'closed';
+
+// A change to a closed report, which reopens it for editing.
+export interface ReportAmendment {
+  reason: string;
+  raisedAt: string;
+  raisedBy?: string;
+}
+
+export type SignatoryRole = 'teacher' | 'supervisor' | 'headTeacher';
+
+// A sign-off of a report by one of the parties its report type requires.
+export interface ReportSignature {
+  role: SignatoryRole;
+  signerName: string;
+  // Data URL of the signature image.
+  signature: string;
+  signedAt: string;
+  // Fingerprint of the report content that was signed; an edit of the content no longer matches it.
+  contentHash: string;
+}
+
+// Where a report is in its lifecycle: draft -> submitted -> acknowledged by the teacher -> closed.
+export interface ReportWorkflowFields {
+  status: ReportStatus;
+  submittedAt?: string;
+  acknowledgement?: {
+    teacherComment: string;
+    // Data URL of the signature image.
+    teacherSignature: string;
+    acknowledgedAt: string;
+  };
+  closedAt?: string;
+  amendments?: ReportAmendment[];
+  // At most one per role; signing again replaces the earlier signature.
+  signatures?: ReportSignature[];
+}
+
+export interface SupervisionReport extends RubricFields, ReportWorkflowFields {
+  id: string;
+  teacherId: string;
+  // Snapshot of the teacher's name, kept in sync when the teacher is renamed.
   teacherName: string;
+  classId: string;
+  subjectId: string;
+  // Snapshots of the catalog names, kept in sync when a class or subject is renamed.
   className: string;
   subject: string;
   date: string;
+  // Derived from date and the academic terms; '' when no term covers the date.
+  termId?: string;
+  // The supervisor who created the report; unset for reports written before accounts existed.
+  authorId?: string;
+  authorName?: string;
+  // The earlier report this one follows up, when it was started with "New from previous".
+  previousReportId?: string;
+  // Weighted rubric score mapped onto 1-5, so statistics stay comparable across rubric versions.
   rating: number;
   lessonObjectives: string;
   teachingMethods: string;
@@ -32,43 +171,253 @@ export interface SupervisionReport {
   strengths: string;
   weaknesses: string;
   recommendations: string;
+  deletedAt?: string;
+  updatedAt?: string;
 }
 
-export interface BookCheckingReport {
+export interface BookCheckingReport extends RubricFields, ReportWorkflowFields {
   id:string;
+  teacherId: string;
   teacherName: string;
+  classId: string;
+  subjectId: string;
   className: string;
   subject: string;
   date: string;
+  termId?: string;
+  authorId?: string;
+  authorName?: string;
+  previousReportId?: string;
   booksChecked: string;
   workCoverage: 'complete' | 'partial' | 'missing';
-  // Ratings
-  markingRegularity: number;
-  feedbackQuality: number;
-  learnerNeatness: number;
   // New detailed fields
   exemplaryWorkNoted: string;
   commonStudentErrors: string;
   teacherResponseToFeedback: string;
   // General comments
   comments: string;
+  deletedAt?: string;
+  updatedAt?: string;
 }
 
-export interface WorkCoverageReport {
+export interface WorkCoverageReport extends RubricFields, ReportWorkflowFields {
   id: string;
+  teacherId: string;
   teacherName: string;
+  classId: string;
+  subjectId: string;
   className: string;
   subject: string;
   date: string;
+  termId?: string;
+  authorId?: string;
+  authorName?: string;
+  previousReportId?: string;
   plannedTopics: string;
   completedTopics: string;
   pendingTopics: string;
+  // Set when the topics were checked off against a scheme of work; the three topic texts
+  // above are then derived from the checklist.
+  schemeOfWorkId?: string;
+  completedTopicIds?: string[];
+  // Derived with the checklist: the share of the scheme's topics completed, 0-100, and how
+  // many weeks the earliest pending topic is past its planned week on the report date.
+  coveragePercent?: number;
+  weeksBehind?: number;
   remarks: string;
   teacherSignature: string;
   supervisorSignature: string;
+  deletedAt?: string;
+  updatedAt?: string;
+}
+
+export type CustomFieldType = 'text' | 'textarea' | 'select' | 'rating' | 'signature' | 'date';
+
+export interface CustomFieldDefinition {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  required: boolean;
+  placeholder?: string;
+  // Choices of a select field.
+  options?: string[];
+  // Number of stars of a rating field.
+  maxRating?: number;
+}
+
+// A report type defined in the form builder. Every type also records the teacher, class,
+// subject and date like the built-in reports, so terms, departments and renames apply to it.
+export interface CustomReportType {
+  id: string;
+  name: string;
+  description?: string;
+  fields: CustomFieldDefinition[];
+  // Archived types are hidden from the navigation but keep their reports.
+  archived?: boolean;
+  updatedAt?: string;
+}
+
+export interface CustomReport extends ReportWorkflowFields {
+  id: string;
+  reportTypeId: string;
+  teacherId: string;
+  teacherName: string;
+  classId: string;
+  subjectId: string;
+  className: string;
+  subject: string;
+  date: string;
+  termId?: string;
+  authorId?: string;
+  authorName?: string;
+  previousReportId?: string;
+  // Answers keyed by field ID: text for most fields, a number for ratings, a data URL for signatures.
+  values: Record<string, string | number>;
+  deletedAt?: string;
+  updatedAt?: string;
 }
 
-export type Report = SupervisionReport | BookCheckingReport | WorkCoverageReport;
+export type ActionItemStatus = 'open' | 'in_progress' | 'done' | 'not_met';
+
+// A follow-up task raised in a report, tracked until a later supervision records its outcome.
+export interface ActionItem {
+  id: string;
+  teacherId: string;
+  // The report the item was raised in.
+  sourceTable: ReportTableName;
+  sourceReportId: string;
+  description: string;
+  // Who is responsible for it; usually the teacher.
+  owner: string;
+  // YYYY-MM-DD; '' when there is no due date.
+  dueDate: string;
+  status: ActionItemStatus;
+  // The report that last recorded progress on the item, and what it noted.
+  reviewedInReportId?: string;
+  reviewNote?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// A photo or file kept with a report as evidence, e.g. a page of an exercise book or a lesson plan.
+export interface ReportAttachment {
+  id: string;
+  table: ReportTableName;
+  reportId: string;
+  fileName: string;
+  mimeType: string;
+  // Bytes stored, after any downscaling.
+  size: number;
+  // The file's bytes, which the app lock can encrypt. Attachments added before that may still
+  // hold a Blob until the lock is turned on.
+  data: Uint8Array | Blob;
+  caption?: string;
+  // Whether the image is added to the PDF export as an appendix page.
+  includeInPdf: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// What a report form records about action items besides the report itself.
+export interface ActionItemChanges {
+  // The items raised in the report; replaces the ones it raised before.
+  raised: ActionItem[];
+  // Outcomes recorded for earlier items of the teacher, by item ID.
+  reviews: Record<string, { status: ActionItemStatus; note: string }>;
+}
+
+// A report form autosaved while it is being filled in. Drafts have their own table, so they
+// never count as reports in lists, statistics or exports.
+export interface ReportDraft {
+  id: string;
+  table: ReportTableName;
+  // Set for custom reports, whose types share one table.
+  reportTypeId?: string;
+  // Set when the draft edits an existing report.
+  reportId?: string;
+  authorId?: string;
+  report: Report;
+  actionItems?: ActionItemChanges;
+  updatedAt: string;
+}
+
+export interface AcademicTerm {
+  id: string;
+  // e.g. "2025/2026"
+  academicYear: string;
+  // e.g. "Term 1"
+  name: string;
+  // Inclusive YYYY-MM-DD bounds, matching the format of report dates.
+  startDate: string;
+  endDate: string;
+  updatedAt?: string;
+}
+
+export interface SchemeTopic {
+  id: string;
+  title: string;
+  // Week of the term the topic is planned to be taught, counting from 1.
+  plannedWeek: number;
+}
+
+// The topics planned for one class and subject in one term, in teaching order.
+export interface SchemeOfWork {
+  id: string;
+  classId: string;
+  subjectId: string;
+  termId: string;
+  topics: SchemeTopic[];
+  updatedAt?: string;
+}
+
+export type Report = SupervisionReport | BookCheckingReport | WorkCoverageReport | CustomReport;
+
+export type ReportTableName = 'supervisionReports' | 'bookCheckingReports' | 'workCoverageReports' | 'customReports';
+
+export interface UnmatchedReport {
+    table: ReportTableName;
+    id: string;
+    teacherName: string;
+}
+
+export interface TeacherLinkMigrationResult {
+    migratedAt: string;
+    linked: number;
+    unmatched: UnmatchedReport[];
+}
+
+export interface CatalogMigrationGroup {
+    id: string;
+    name: string;
+    // Every free-text spelling that was folded into this entry.
+    variants: string[];
+}
+
+export interface CatalogMigrationResult {
+    migratedAt: string;
+    classes: CatalogMigrationGroup[];
+    subjects: CatalogMigrationGroup[];
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'revert';
+
+export interface FieldChange {
+    field: string;
+    before: any;
+    after: any;
+}
+
+export interface AuditEntry {
+    id?: number;
+    table: ReportTableName;
+    recordId: string;
+    action: AuditAction;
+    timestamp: string;
+    actor: string;
+    changes: FieldChange[];
+    // Full copy of the record after this change, used to revert to this version.
+    snapshot: Report;
+}
 
 export interface AppSetting {
     key: string;
@@ -0,0 +1,102 @@
+import { dbTyped } from './db';
+import { createId } from './ids';
+import { assertCanWriteReports } from './permissions';
+import { ActionItem, ActionItemChanges, ActionItemStatus, Report, ReportTableName } from '../types';
+
+export const ACTION_ITEM_STATUS_LABELS: Record<ActionItemStatus, string> = {
+    open: 'Open',
+    in_progress: 'In Progress',
+    done: 'Done',
+    not_met: 'Not Met',
+};
+
+export const NO_ACTION_ITEM_CHANGES: ActionItemChanges = { raised: [], reviews: {} };
+
+export const isOpenActionItem = (item: ActionItem) => item.status === 'open' || item.status === 'in_progress';
+
+export const isOverdue = (item: ActionItem) =>
+    isOpenActionItem(item) && !!item.dueDate && item.dueDate < new Date().toISOString().split('T')[0];
+
+/**
+ * A blank item for the form. The teacher and source report are filled in when the report is saved.
+ */
+export const newActionItem = (): ActionItem => ({
+    id: createId(),
+    teacherId: '',
+    sourceTable: 'supervisionReports',
+    sourceReportId: '',
+    description: '',
+    owner: '',
+    dueDate: '',
+    status: 'open',
+    createdAt: '',
+});
+
+// Items of reports that are in the recycle bin or purged are hidden along with the report.
+const withActiveSource = async (items: ActionItem[]): Promise<ActionItem[]> => {
+    const active = await Promise.all(items.map(async item => {
+        const source = await dbTyped[item.sourceTable].get(item.sourceReportId);
+        return !!source && !source.deletedAt;
+    }));
+    return items.filter((_, index) => active[index]);
+};
+
+/**
+ * Every action item whose report still exists, for the tracker.
+ */
+export const getActionItems = async (): Promise<ActionItem[]> => withActiveSource(await dbTyped.actionItems.toArray());
+
+/**
+ * The items a report raised and the outcomes it recorded, as the form edits them.
+ */
+export const getActionItemChanges = async (reportId: string): Promise<ActionItemChanges> => {
+    const raised: ActionItem[] = await dbTyped.actionItems.where('sourceReportId').equals(reportId).toArray();
+    const reviewed: ActionItem[] = await dbTyped.actionItems.filter((item: ActionItem) => item.reviewedInReportId === reportId).toArray();
+    return {
+        raised,
+        reviews: Object.fromEntries(reviewed.map(item => [item.id, { status: item.status, note: item.reviewNote ?? '' }])),
+    };
+};
+
+/**
+ * The earlier items of a teacher that a report can record progress on: the open ones, plus any
+ * the report already reviewed.
+ */
+export const getActionItemsToReview = async (teacherId: string, reportId?: string): Promise<ActionItem[]> => {
+    const items: ActionItem[] = await dbTyped.actionItems.where('teacherId').equals(teacherId).toArray();
+    const candidates = items.filter(item =>
+        (!reportId || item.sourceReportId !== reportId) && (isOpenActionItem(item) || (!!reportId && item.reviewedInReportId === reportId)));
+    return (await withActiveSource(candidates)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+/**
+ * Writes the action items of a saved report: the items it raises replace those it raised before,
+ * and each review updates the status of an earlier item.
+ */
+export const saveActionItemChanges = async (table: ReportTableName, report: Report, changes: ActionItemChanges): Promise<void> => {
+    await assertCanWriteReports();
+    const now = new Date().toISOString();
+    await dbTyped.teachers.db.transaction('rw', dbTyped.actionItems, async () => {
+        const keptIds = new Set(changes.raised.map(item => item.id));
+        const previous: ActionItem[] = await dbTyped.actionItems.where('sourceReportId').equals(report.id).toArray();
+        await dbTyped.actionItems.bulkDelete(previous.filter(item => !keptIds.has(item.id)).map(item => item.id));
+        await dbTyped.actionItems.bulkPut(changes.raised.map(item => ({
+            ...item,
+            description: item.description.trim(),
+            owner: item.owner.trim() || report.teacherName,
+            teacherId: report.teacherId,
+            sourceTable: table,
+            sourceReportId: report.id,
+            createdAt: item.createdAt || now,
+            updatedAt: now,
+        })));
+        for (const [itemId, review] of Object.entries(changes.reviews)) {
+            await dbTyped.actionItems.update(itemId, { status: review.status, reviewNote: review.note.trim() || undefined, reviewedInReportId: report.id, updatedAt: now });
+        }
+    });
+};
+
+export const setActionItemStatus = async (id: string, status: ActionItemStatus): Promise<void> => {
+    await assertCanWriteReports();
+    await dbTyped.actionItems.update(id, { status, updatedAt: new Date().toISOString() });
+};
@@ -0,0 +1,222 @@
+import { appLockTable, encryptedTables } from './db';
+import { deriveKey, toBase64, fromBase64 } from './backupCrypto';
+import { setFieldEncryptionState } from './fieldEncryption';
+import { KEY_LENGTH } from './chacha20poly1305';
+import { assertAdmin } from './permissions';
+import { storeAttachmentFilesAsBytes } from './attachments';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_AUTO_LOCK_MINUTES = 10;
+export const AUTO_LOCK_OPTIONS = [0, 5, 10, 15, 30, 60];
+
+const KEY_ITERATIONS = 310000;
+const CONFIG_ID = 'config';
+
+// The random data key that encrypts report fields, encrypted (AES-GCM) under a key derived
+// from a secret. The lock keeps one copy for the passphrase and one for the recovery key.
+interface WrappedKey {
+    salt: string;
+    iv: string;
+    wrappedKey: string;
+}
+
+export interface AppLockConfig {
+    id: typeof CONFIG_ID;
+    iterations: number;
+    passphrase: WrappedKey;
+    recovery: WrappedKey;
+    // 0 turns auto-lock off.
+    autoLockMinutes: number;
+    enabledAt: string;
+}
+
+export type AppLockStatus = 'disabled' | 'locked' | 'unlocked';
+
+export class AppLockError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AppLockError';
+    }
+}
+
+let config: AppLockConfig | undefined;
+let dataKey: Uint8Array | null = null;
+const listeners = new Set<() => void>();
+
+const setState = (nextConfig: AppLockConfig | undefined, nextKey: Uint8Array | null) => {
+    config = nextConfig;
+    dataKey = nextKey;
+    setFieldEncryptionState(!!nextConfig, nextKey);
+    listeners.forEach(listener => listener());
+};
+
+export const getAppLockStatus = (): AppLockStatus => !config ? 'disabled' : dataKey ? 'unlocked' : 'locked';
+
+export const getAutoLockMinutes = () => config?.autoLockMinutes ?? 0;
+
+/**
+ * Subscribes to lock, unlock and settings changes. Returns the unsubscribe function.
+ */
+export const onAppLockChange = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+/**
+ * Reads the lock settings. Must finish before anything else reads report data.
+ */
+export const loadAppLock = async (): Promise<AppLockStatus> => {
+    setState(await appLockTable.get(CONFIG_ID), null);
+    return getAppLockStatus();
+};
+
+const wrapKey = async (key: Uint8Array, secret: string, iterations: number): Promise<WrappedKey> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrappingKey = await deriveKey(secret, salt, iterations);
+    const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, wrappingKey, key);
+    return { salt: toBase64(salt), iv: toBase64(iv), wrappedKey: toBase64(new Uint8Array(wrapped)) };
+};
+
+const unwrapKey = async (wrapped: WrappedKey, secret: string, iterations: number, failureMessage: string): Promise<Uint8Array> => {
+    try {
+        const wrappingKey = await deriveKey(secret, fromBase64(wrapped.salt), iterations);
+        return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(wrapped.iv) }, wrappingKey, fromBase64(wrapped.wrappedKey)));
+    } catch (error) {
+        throw new AppLockError(failureMessage);
+    }
+};
+
+const validatePassphrase = (passphrase: string) => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new AppLockError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    }
+};
+
+// 128 random bits written as eight groups of four hex digits.
+const createRecoveryKey = () =>
+    Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0'))
+        .join('').toUpperCase().match(/.{4}/g)!.join('-');
+
+// Accepts the key with or without dashes, spaces or lowercase letters.
+const normalizeRecoveryKey = (recoveryKey: string) =>
+    recoveryKey.toUpperCase().replace(/[^0-9A-F]/g, '').match(/.{1,4}/g)?.join('-') ?? '';
+
+const requireConfig = (): AppLockConfig => {
+    if (!config) throw new AppLockError('The app lock is not enabled.');
+    return config;
+};
+
+const saveConfig = async (nextConfig: AppLockConfig) => {
+    await appLockTable.put(nextConfig);
+    setState(nextConfig, dataKey);
+};
+
+/**
+ * Re-writes every row that has encrypted fields. Rows are read with the current state and written
+ * with the next one, so turning the lock on encrypts them and turning it off decrypts them.
+ */
+const rewriteEncryptedTables = async (nextConfig: AppLockConfig | undefined, nextKey: Uint8Array | null) => {
+    const previousConfig = config;
+    const previousKey = dataKey;
+    try {
+        await appLockTable.db.transaction('rw', [...encryptedTables, appLockTable], async () => {
+            const rowsByTable = [];
+            for (const table of encryptedTables) {
+                rowsByTable.push(await table.toArray());
+            }
+            setFieldEncryptionState(!!nextConfig, nextKey);
+            for (let i = 0; i < encryptedTables.length; i++) {
+                await encryptedTables[i].bulkPut(rowsByTable[i]);
+            }
+            if (nextConfig) {
+                await appLockTable.put(nextConfig);
+            } else {
+                await appLockTable.delete(CONFIG_ID);
+            }
+        });
+    } catch (error) {
+        setFieldEncryptionState(!!previousConfig, previousKey);
+        throw error;
+    }
+    setState(nextConfig, nextKey);
+};
+
+/**
+ * Turns the lock on and encrypts existing data. Returns the recovery key, which is shown once
+ * and cannot be read back later.
+ */
+export const enableAppLock = async (passphrase: string): Promise<string> => {
+    await assertAdmin();
+    if (config) throw new AppLockError('The app lock is already enabled.');
+    validatePassphrase(passphrase);
+    const key = crypto.getRandomValues(new Uint8Array(KEY_LENGTH));
+    const recoveryKey = createRecoveryKey();
+    // Older attachments hold Blobs, which cannot be encrypted inside the write.
+    await storeAttachmentFilesAsBytes();
+    await rewriteEncryptedTables({
+        id: CONFIG_ID,
+        iterations: KEY_ITERATIONS,
+        passphrase: await wrapKey(key, passphrase, KEY_ITERATIONS),
+        recovery: await wrapKey(key, recoveryKey, KEY_ITERATIONS),
+        autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+        enabledAt: new Date().toISOString(),
+    }, key);
+    return recoveryKey;
+};
+
+/**
+ * Turns the lock off and stores all data in plain text again.
+ */
+export const disableAppLock = async (passphrase: string): Promise<void> => {
+    await assertAdmin();
+    const current = requireConfig();
+    await unwrapKey(current.passphrase, passphrase, current.iterations, 'Incorrect passphrase.');
+    await rewriteEncryptedTables(undefined, null);
+};
+
+export const unlockApp = async (passphrase: string): Promise<void> => {
+    const current = requireConfig();
+    setState(current, await unwrapKey(current.passphrase, passphrase, current.iterations, 'Incorrect passphrase.'));
+};
+
+/**
+ * Unlocks with the recovery key and replaces the forgotten passphrase. The recovery key stays valid.
+ */
+export const recoverWithKey = async (recoveryKey: string, newPassphrase: string): Promise<void> => {
+    const current = requireConfig();
+    validatePassphrase(newPassphrase);
+    const key = await unwrapKey(current.recovery, normalizeRecoveryKey(recoveryKey), current.iterations, 'That recovery key is not valid.');
+    const nextConfig = { ...current, passphrase: await wrapKey(key, newPassphrase, current.iterations) };
+    await appLockTable.put(nextConfig);
+    setState(nextConfig, key);
+};
+
+export const lockApp = () => {
+    if (config && dataKey) setState(config, null);
+};
+
+export const changePassphrase = async (currentPassphrase: string, newPassphrase: string): Promise<void> => {
+    await assertAdmin();
+    const current = requireConfig();
+    validatePassphrase(newPassphrase);
+    const key = await unwrapKey(current.passphrase, currentPassphrase, current.iterations, 'Incorrect passphrase.');
+    await saveConfig({ ...current, passphrase: await wrapKey(key, newPassphrase, current.iterations) });
+};
+
+/**
+ * Replaces the recovery key, for when the old one is lost or may have been seen by someone else.
+ */
+export const regenerateRecoveryKey = async (passphrase: string): Promise<string> => {
+    await assertAdmin();
+    const current = requireConfig();
+    const key = await unwrapKey(current.passphrase, passphrase, current.iterations, 'Incorrect passphrase.');
+    const recoveryKey = createRecoveryKey();
+    await saveConfig({ ...current, recovery: await wrapKey(key, recoveryKey, current.iterations) });
+    return recoveryKey;
+};
+
+export const setAutoLockMinutes = async (minutes: number): Promise<void> => {
+    await assertAdmin();
+    await saveConfig({ ...requireConfig(), autoLockMinutes: minutes });
+};
@@ -0,0 +1,165 @@
+import { dbTyped } from './db';
+import { createId } from './ids';
+import { assertCanEditReport } from './permissions';
+import { PdfAppendixItem } from './pdfUtils';
+import { Report, ReportAttachment, ReportTableName } from '../types';
+
+// Photos are downscaled so their longest side is at most this many pixels.
+export const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.8;
+
+// Limits after downscaling: a single file, and everything attached to one report.
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const REPORT_ATTACHMENT_BUDGET_BYTES = 20 * 1024 * 1024;
+
+// Images jsPDF can place on an appendix page. Other files are only listed there.
+export const PDF_IMAGE_TYPES = ['image/jpeg', 'image/png'];
+
+// Files the browser may open in a tab. Anything else, SVG and HTML included, could run script with
+// access to the app's data, so it is stored and offered as a plain download.
+const INLINE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/bmp', 'application/pdf'];
+
+// Raster photos are re-encoded when downscaled. GIFs may be animated and SVGs have no pixel
+// size, so they are kept as they are.
+const DOWNSCALED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/bmp'];
+
+// The type an attachment is stored and opened as, so files from uploads, imports and merges alike
+// can only open inline when they are on the allowlist.
+export const safeMimeType = (mimeType: string | undefined) => mimeType && INLINE_TYPES.includes(mimeType) ? mimeType : 'application/octet-stream';
+
+export const isInlineAttachment = (attachment: Pick<ReportAttachment, 'mimeType'>) => INLINE_TYPES.includes(attachment.mimeType);
+
+export const isImageAttachment = (attachment: Pick<ReportAttachment, 'mimeType'>) => isInlineAttachment(attachment) && attachment.mimeType.startsWith('image/');
+
+// The file of an attachment as a Blob, for showing, downloading and exporting it.
+export const attachmentBlob = (attachment: Pick<ReportAttachment, 'data' | 'mimeType'>): Blob =>
+    new Blob([attachment.data], { type: safeMimeType(attachment.mimeType) });
+
+export const formatFileSize = (bytes: number) =>
+    bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Shrinks a photo to MAX_IMAGE_DIMENSION and re-encodes it as JPEG. Returns the original file
+ * when it is not a raster photo or when re-encoding would not make it smaller.
+ */
+export const downscaleImage = async (file: Blob): Promise<Blob> => {
+    if (!DOWNSCALED_TYPES.includes(file.type)) return file;
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d')!;
+    // JPEG has no transparency, so transparent PNG areas become white rather than black.
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const scaled = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    return scaled && scaled.size < file.size ? scaled : file;
+};
+
+const jpegFileName = (fileName: string) => `${fileName.replace(/\.[^.]+$/, '')}.jpg`;
+
+export const getAttachments = (reportId: string): Promise<ReportAttachment[]> =>
+    dbTyped.attachments.where('reportId').equals(reportId).sortBy('createdAt');
+
+const assertCanChange = async (table: ReportTableName, reportId: string): Promise<void> => {
+    const report: Report | undefined = await dbTyped[table].get(reportId);
+    if (!report) throw new Error('The report no longer exists.');
+    await assertCanEditReport(report);
+    if (report.status === 'closed') throw new Error('This report is closed. Raise an amendment before changing its attachments.');
+};
+
+/**
+ * Downscales and stores files for a report. Nothing is stored when any file is over the
+ * single-file limit or the files would take the report over its budget.
+ */
+export const addAttachments = async (table: ReportTableName, reportId: string, files: File[]): Promise<void> => {
+    await assertCanChange(table, reportId);
+    const now = new Date().toISOString();
+    const prepared: ReportAttachment[] = [];
+    for (const file of files) {
+        const data = await downscaleImage(file);
+        if (data.size > MAX_ATTACHMENT_BYTES) {
+            throw new Error(`"${file.name}" is ${formatFileSize(data.size)}. Files can be at most ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`);
+        }
+        const mimeType = safeMimeType(data.type);
+        prepared.push({
+            id: createId(),
+            table,
+            reportId,
+            fileName: data === file ? file.name : jpegFileName(file.name),
+            mimeType,
+            size: data.size,
+            data: new Uint8Array(await data.arrayBuffer()),
+            includeInPdf: PDF_IMAGE_TYPES.includes(mimeType),
+            createdAt: now,
+        });
+    }
+    const used = (await getAttachments(reportId)).reduce((total, attachment) => total + attachment.size, 0);
+    const added = prepared.reduce((total, attachment) => total + attachment.size, 0);
+    if (used + added > REPORT_ATTACHMENT_BUDGET_BYTES) {
+        throw new Error(`A report can hold ${formatFileSize(REPORT_ATTACHMENT_BUDGET_BYTES)} of attachments. These files need ${formatFileSize(added)} and ${formatFileSize(Math.max(0, REPORT_ATTACHMENT_BUDGET_BYTES - used))} is left.`);
+    }
+    await dbTyped.attachments.bulkAdd(prepared);
+};
+
+export const updateAttachment = async (attachment: ReportAttachment, changes: Pick<Partial<ReportAttachment>, 'caption' | 'includeInPdf'>): Promise<void> => {
+    await assertCanChange(attachment.table, attachment.reportId);
+    await dbTyped.attachments.update(attachment.id, { ...changes, updatedAt: new Date().toISOString() });
+};
+
+export const deleteAttachment = async (attachment: ReportAttachment): Promise<void> => {
+    await assertCanChange(attachment.table, attachment.reportId);
+    await dbTyped.attachments.delete(attachment.id);
+};
+
+/**
+ * Removes the attachments of purged reports, which would otherwise take up space unseen.
+ */
+export const deleteAttachmentsOfReports = async (reportIds: string[]): Promise<void> => {
+    if (reportIds.length > 0) await dbTyped.attachments.where('reportId').anyOf(reportIds).delete();
+};
+
+/**
+ * Turns attachments stored as Blobs into bytes, which the app lock's field encryption can seal.
+ * The files are read first, because awaiting them inside a transaction would end it early.
+ */
+export const storeAttachmentFilesAsBytes = async (): Promise<void> => {
+    const legacy = (await dbTyped.attachments.toArray()).filter(attachment => attachment.data instanceof Blob);
+    const converted = await Promise.all(legacy.map(async attachment =>
+        ({ ...attachment, data: new Uint8Array(await (attachment.data as Blob).arrayBuffer()) })));
+    if (converted.length > 0) await dbTyped.attachments.bulkPut(converted);
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+/**
+ * The appendix of a report's PDF: the images marked for it, and the names of files a PDF
+ * cannot show.
+ */
+export const pdfAppendix = async (attachments: ReportAttachment[]): Promise<PdfAppendixItem[]> => {
+    const items: PdfAppendixItem[] = [];
+    for (const attachment of attachments) {
+        const title = attachment.caption ? `${attachment.caption} (${attachment.fileName})` : attachment.fileName;
+        if (!PDF_IMAGE_TYPES.includes(attachment.mimeType)) {
+            items.push({ title });
+        } else if (attachment.includeInPdf) {
+            items.push({ title, imageDataUrl: await blobToDataUrl(attachmentBlob(attachment)), format: attachment.mimeType === 'image/png' ? 'PNG' : 'JPEG' });
+        }
+    }
+    return items;
+};
+
+// Backups are JSON, so attachment files travel in them as data URLs.
+export const attachmentToBackup = async (attachment: ReportAttachment) => ({ ...attachment, data: await blobToDataUrl(attachmentBlob(attachment)) });
+
+export const attachmentFromBackup = async (record: Omit<ReportAttachment, 'data'> & { data: string }): Promise<ReportAttachment> =>
+    ({ ...record, mimeType: safeMimeType(record.mimeType), data: new Uint8Array(await (await fetch(record.data)).arrayBuffer()) });
@@ -0,0 +1,152 @@
+import { dbTyped, REPORT_TABLES } from './db';
+import { tagReportTerm } from './terms';
+import { getSignedInSupervisor } from './supervisors';
+import { PermissionError, assertAdmin, assertCanEditReport, assertCanWriteReports } from './permissions';
+import { AuditAction, AuditEntry, FieldChange, Report, ReportTableName, Supervisor } from '../types';
+
+export const ACTING_SUPERVISOR_KEY = 'actingSupervisor';
+
+// Bookkeeping and derived fields that are not part of the report's content.
+const IGNORED_FIELDS = new Set(['id', 'deletedAt', 'updatedAt', 'termId']);
+
+// Custom reports keep their answers in this map; its entries are compared one by one.
+const NESTED_VALUES_FIELD = 'values';
+
+const diffFields = (before: any, after: any, prefix: string, changes: FieldChange[]) => {
+    const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    keys.forEach(key => {
+        if (!prefix && IGNORED_FIELDS.has(key)) return;
+        const oldValue = before?.[key];
+        const newValue = after?.[key];
+        if (!prefix && key === NESTED_VALUES_FIELD) {
+            diffFields(oldValue, newValue, `${key}.`, changes);
+        } else if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+            changes.push({ field: prefix + key, before: oldValue, after: newValue });
+        }
+    });
+};
+
+/**
+ * Returns the field-level differences between two versions of a record. Custom report answers
+ * are listed per field as "values.<fieldId>".
+ */
+export const diffRecords = (before: Partial<Report> | undefined, after: Partial<Report> | undefined): FieldChange[] => {
+    const changes: FieldChange[] = [];
+    diffFields(before, after, '', changes);
+    return changes;
+};
+
+/**
+ * Turns a camelCase field name into a readable label, e.g. "lessonObjectives" -> "Lesson Objectives".
+ */
+export const formatFieldName = (field: string) => field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+/**
+ * Renders a stored field value as short display text for diffs.
+ */
+export const formatFieldValue = (value: any): string => {
+    if (value === undefined || value === null || value === '') return '(empty)';
+    if (typeof value === 'string' && value.startsWith('data:image/')) return '(signature)';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+// Tables read while recording an audit entry, to include in the caller's transaction.
+export const auditTables = () => [dbTyped.auditLog, dbTyped.settings, dbTyped.supervisors];
+
+// The signed-in supervisor, or the name typed in Settings while no accounts exist.
+const getActor = async (): Promise<string> => {
+    const supervisor = await getSignedInSupervisor();
+    if (supervisor) return supervisor.name;
+    const setting = await dbTyped.settings.get(ACTING_SUPERVISOR_KEY);
+    return setting?.value || 'Unknown';
+};
+
+/**
+ * Appends an entry to the audit log. Call inside the transaction that changes the record
+ * so the history can never drift from the data.
+ */
+export const recordAudit = async (table: ReportTableName, action: AuditAction, before: Report | undefined, after: Report): Promise<void> => {
+    const entry: AuditEntry = {
+        table,
+        recordId: after.id,
+        action,
+        timestamp: new Date().toISOString(),
+        actor: await getActor(),
+        changes: diffRecords(before, after),
+        snapshot: after,
+    };
+    await dbTyped.auditLog.add(entry);
+};
+
+/**
+ * Applies a change made outside the report form, e.g. renaming or reassigning the teacher, to
+ * each report with an audit entry per report. Only administrators make these changes. Call inside
+ * a transaction that includes the table and auditTables().
+ */
+export const updateReportsWithAudit = async <T extends Report>(table: ReportTableName, action: AuditAction, reports: T[], change: (report: T) => T): Promise<void> => {
+    await assertAdmin();
+    const updatedAt = new Date().toISOString();
+    for (const before of reports) {
+        const after = { ...change(before), updatedAt };
+        await dbTyped[table].put(after);
+        await recordAudit(table, action, before, after);
+    }
+};
+
+export const CLOSED_REPORT_MESSAGE = 'This report is closed. Raise an amendment before changing it.';
+
+// The fields raising an amendment changes; see raiseAmendment.
+const AMENDMENT_FIELDS = new Set(['status', 'acknowledgement', 'closedAt', 'amendments']);
+
+// Whether a save of a closed report only reopens it with a new amendment.
+const isAmendment = (existing: Report, authored: Report, changes: FieldChange[]) =>
+    authored.status === 'submitted'
+    && (authored.amendments?.length ?? 0) > (existing.amendments?.length ?? 0)
+    && changes.every(change => AMENDMENT_FIELDS.has(change.field));
+
+// Keeps the author of an existing report, or stamps a new report with the signed-in supervisor.
+const authorFields = (existing: Report | undefined, user: Supervisor | null): Pick<Report, 'authorId' | 'authorName'> => {
+    if (existing) {
+        return existing.authorId ? { authorId: existing.authorId, authorName: existing.authorName } : {};
+    }
+    return user ? { authorId: user.id, authorName: user.name } : {};
+};
+
+/**
+ * Creates or updates a report and records the change in the audit log. Permissions are
+ * checked against the stored version, so an edit cannot take over someone else's report.
+ * Closed reports are read-only: the only change accepted is the amendment that reopens them.
+ */
+export const saveReportWithAudit = async <T extends Report>(table: ReportTableName, report: T): Promise<void> => {
+    await dbTyped.teachers.db.transaction('rw', [dbTyped[table], dbTyped.terms, dbTyped.teachers, ...auditTables()], async () => {
+        const existing: T | undefined = await dbTyped[table].get(report.id);
+        const user = existing ? await assertCanEditReport(existing) : await assertCanWriteReports();
+        const { authorId, authorName, ...content } = report;
+        const authored = { ...content, ...authorFields(existing, user) } as T;
+        const changes = diffRecords(existing, authored);
+        if (existing && changes.length === 0) return;
+        if (existing?.status === 'closed' && !isAmendment(existing, authored, changes)) throw new PermissionError(CLOSED_REPORT_MESSAGE);
+        const stamped = { ...await tagReportTerm(authored), updatedAt: new Date().toISOString() };
+        await dbTyped[table].put(stamped);
+        await recordAudit(table, existing ? 'update' : 'create', existing, stamped);
+    });
+};
+
+/**
+ * Restores a report to the state captured by an earlier audit entry.
+ */
+export const revertToVersion = async (entry: AuditEntry): Promise<void> => {
+    await dbTyped.teachers.db.transaction('rw', [dbTyped[entry.table], dbTyped.terms, dbTyped.teachers, ...auditTables()], async () => {
+        const current: Report | undefined = await dbTyped[entry.table].get(entry.recordId);
+        if (current) await assertCanEditReport(current);
+        if (current?.status === 'closed') throw new PermissionError(CLOSED_REPORT_MESSAGE);
+        const { authorId, authorName, ...snapshot } = entry.snapshot;
+        const restored = { ...await tagReportTerm({ ...snapshot, ...authorFields(current ?? entry.snapshot, null) } as Report), deletedAt: current?.deletedAt, updatedAt: new Date().toISOString() };
+        await dbTyped[entry.table].put(restored);
+        await recordAudit(entry.table, 'revert', current, restored);
+    });
+};
+
+export const isReportTable = (table: string): table is ReportTableName =>
+    (REPORT_TABLES as readonly string[]).includes(table);
@@ -0,0 +1,527 @@
+import { dbTyped, SCHEMA_VERSION, REPORT_TABLES } from './db';
+import { inferSchemaVersion, upgradeBackupData } from './backupUpgrades';
+import { retagAllReports } from './terms';
+import { attachmentFromBackup, attachmentToBackup } from './attachments';
+import { assertAdmin } from './permissions';
+
+export const BACKUP_TABLES = [
+    'teachers',
+    'supervisionReports',
+    'bookCheckingReports',
+    'workCoverageReports',
+    'customReportTypes',
+    'customReports',
+    'actionItems',
+    'attachments',
+    'terms',
+    'schemesOfWork',
+    'classes',
+    'subjects',
+    'departments',
+    'supervisors',
+    'rubrics',
+    'settings',
+    'auditLog',
+] as const;
+
+export type BackupTable = typeof BACKUP_TABLES[number];
+
+export type BackupData = Partial<Record<BackupTable, any[]>>;
+
+// Hold PIN hashes, which a short PIN cannot protect once copied off this computer. Only
+// password-encrypted exports include them, and importing a file keeps any accounts already here.
+export const ACCOUNT_TABLES: BackupTable[] = ['supervisors'];
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+    teachers: 'Teachers',
+    supervisionReports: 'Supervision Reports',
+    bookCheckingReports: 'Book Checking Reports',
+    workCoverageReports: 'Work Coverage Reports',
+    customReportTypes: 'Custom Report Types',
+    customReports: 'Custom Reports',
+    actionItems: 'Action Items',
+    attachments: 'Report Attachments',
+    terms: 'Academic Terms',
+    schemesOfWork: 'Schemes of Work',
+    classes: 'Classes',
+    subjects: 'Subjects',
+    departments: 'Departments',
+    supervisors: 'Supervisor Accounts',
+    rubrics: 'Evaluation Rubrics',
+    settings: 'Settings',
+    auditLog: 'Audit History',
+};
+
+// --- Envelope ---
+
+export const BACKUP_FORMAT = 'teacher-monitor-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+export const APP_VERSION = process.env.APP_VERSION || 'dev';
+
+export interface BackupEnvelope {
+    format: typeof BACKUP_FORMAT;
+    formatVersion: number;
+    appVersion: string;
+    schemaVersion: number;
+    exportedAt: string;
+    // SHA-256 of JSON.stringify(data), used to detect truncated or hand-edited files.
+    checksum: string;
+    data: BackupData;
+}
+
+export interface BackupInfo {
+    // 0 for legacy exports that were a bare object of tables.
+    formatVersion: number;
+    appVersion?: string;
+    schemaVersion: number;
+    exportedAt?: string;
+    upgradesApplied: string[];
+}
+
+const sha256 = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Wraps the given tables in a versioned envelope with a checksum.
+ */
+export const createBackupEnvelope = async (data: BackupData): Promise<BackupEnvelope> => ({
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion: APP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: await sha256(JSON.stringify(data)),
+    data,
+});
+
+/**
+ * Unwraps parsed backup JSON of any format version, verifies its checksum and runs the
+ * upgrade steps needed to bring its data up to the current schema.
+ */
+export const unwrapBackup = async (json: unknown): Promise<{ data: BackupData; info: BackupInfo }> => {
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        throw new BackupFormatError('The file does not contain a backup object.');
+    }
+    const envelope = json as Partial<BackupEnvelope>;
+
+    let data: BackupData;
+    let info: BackupInfo;
+    if (envelope.format === BACKUP_FORMAT) {
+        if (typeof envelope.formatVersion !== 'number' || envelope.formatVersion > BACKUP_FORMAT_VERSION) {
+            throw new BackupFormatError('This backup was created by a newer version of the app. Please update before importing it.');
+        }
+        if (typeof envelope.schemaVersion !== 'number' || envelope.schemaVersion > SCHEMA_VERSION) {
+            throw new BackupFormatError(`This backup uses database version ${envelope.schemaVersion}, which is newer than this app supports (${SCHEMA_VERSION}).`);
+        }
+        if (!envelope.data || typeof envelope.data !== 'object') {
+            throw new BackupFormatError('The backup file is missing its data section.');
+        }
+        if (envelope.checksum !== await sha256(JSON.stringify(envelope.data))) {
+            throw new BackupFormatError('The backup checksum does not match. The file may be damaged or has been edited.');
+        }
+        data = envelope.data;
+        info = {
+            formatVersion: envelope.formatVersion,
+            appVersion: envelope.appVersion,
+            schemaVersion: envelope.schemaVersion,
+            exportedAt: envelope.exportedAt,
+            upgradesApplied: [],
+        };
+    } else {
+        data = json as BackupData;
+        info = { formatVersion: 0, schemaVersion: inferSchemaVersion(data), upgradesApplied: [] };
+    }
+
+    const upgraded = upgradeBackupData(data, info.schemaVersion);
+    info.upgradesApplied = upgraded.applied;
+    return { data: upgraded.data, info };
+};
+
+// --- Validation ---
+
+type FieldRule = 'string' | 'number' | 'boolean' | 'string[]' | 'date' | 'any' | readonly string[];
+
+interface TableSchema {
+    primaryKey: string;
+    required: Record<string, FieldRule>;
+    optional?: Record<string, FieldRule>;
+}
+
+const REPORT_BASE_FIELDS: Record<string, FieldRule> = {
+    id: 'string',
+    teacherId: 'string',
+    teacherName: 'string',
+    classId: 'string',
+    subjectId: 'string',
+    className: 'string',
+    subject: 'string',
+    date: 'date',
+    status: ['draft', 'submitted', 'acknowledged', 'closed'],
+};
+
+const REPORT_OPTIONAL_FIELDS: Record<string, FieldRule> = {
+    termId: 'string',
+    authorId: 'string',
+    authorName: 'string',
+    previousReportId: 'string',
+    submittedAt: 'string',
+    acknowledgement: 'any',
+    closedAt: 'string',
+    amendments: 'any',
+    signatures: 'any',
+    rubricId: 'string',
+    rubricScores: 'any',
+    deletedAt: 'string',
+    updatedAt: 'string',
+};
+
+// Mirrors the interfaces in types.ts.
+const TABLE_SCHEMAS: Record<BackupTable, TableSchema> = {
+    teachers: {
+        primaryKey: 'id',
+        required: { id: 'string', name: 'string', assignments: 'any' },
+        optional: { departmentId: 'string', archived: 'boolean', deletedAt: 'string', updatedAt: 'string' },
+    },
+    supervisionReports: {
+        primaryKey: 'id',
+        required: {
+            ...REPORT_BASE_FIELDS,
+            rating: 'number',
+            lessonObjectives: 'string',
+            teachingMethods: 'string',
+            learnerEngagement: 'string',
+            classroomManagement: 'string',
+            useOfTeachingAids: 'string',
+            assessmentAndFeedback: 'string',
+            strengths: 'string',
+            weaknesses: 'string',
+            recommendations: 'string',
+        },
+        optional: REPORT_OPTIONAL_FIELDS,
+    },
+    bookCheckingReports: {
+        primaryKey: 'id',
+        required: {
+            ...REPORT_BASE_FIELDS,
+            booksChecked: 'string',
+            workCoverage: ['complete', 'partial', 'missing'],
+            exemplaryWorkNoted: 'string',
+            commonStudentErrors: 'string',
+            teacherResponseToFeedback: 'string',
+            comments: 'string',
+        },
+        optional: REPORT_OPTIONAL_FIELDS,
+    },
+    workCoverageReports: {
+        primaryKey: 'id',
+        required: {
+            ...REPORT_BASE_FIELDS,
+            plannedTopics: 'string',
+            completedTopics: 'string',
+            pendingTopics: 'string',
+            remarks: 'string',
+            teacherSignature: 'string',
+            supervisorSignature: 'string',
+        },
+        optional: { ...REPORT_OPTIONAL_FIELDS, schemeOfWorkId: 'string', completedTopicIds: 'string[]', coveragePercent: 'number', weeksBehind: 'number' },
+    },
+    customReportTypes: {
+        primaryKey: 'id',
+        required: { id: 'string', name: 'string', fields: 'any' },
+        optional: { description: 'string', archived: 'boolean', updatedAt: 'string' },
+    },
+    customReports: {
+        primaryKey: 'id',
+        required: { ...REPORT_BASE_FIELDS, reportTypeId: 'string', values: 'any' },
+        optional: REPORT_OPTIONAL_FIELDS,
+    },
+    actionItems: {
+        primaryKey: 'id',
+        required: {
+            id: 'string',
+            teacherId: 'string',
+            sourceTable: REPORT_TABLES,
+            sourceReportId: 'string',
+            description: 'string',
+            owner: 'string',
+            dueDate: 'string',
+            status: ['open', 'in_progress', 'done', 'not_met'],
+            createdAt: 'string',
+        },
+        optional: { reviewedInReportId: 'string', reviewNote: 'string', updatedAt: 'string' },
+    },
+    attachments: {
+        primaryKey: 'id',
+        required: {
+            id: 'string',
+            table: REPORT_TABLES,
+            reportId: 'string',
+            fileName: 'string',
+            mimeType: 'string',
+            size: 'number',
+            // A data URL; see attachmentToBackup.
+            data: 'string',
+            includeInPdf: 'boolean',
+            createdAt: 'string',
+        },
+        optional: { caption: 'string', updatedAt: 'string' },
+    },
+    terms: {
+        primaryKey: 'id',
+        required: { id: 'string', academicYear: 'string', name: 'string', startDate: 'date', endDate: 'date' },
+        optional: { updatedAt: 'string' },
+    },
+    schemesOfWork: {
+        primaryKey: 'id',
+        required: { id: 'string', classId: 'string', subjectId: 'string', termId: 'string', topics: 'any' },
+        optional: { updatedAt: 'string' },
+    },
+    classes: {
+        primaryKey: 'id',
+        required: { id: 'string', name: 'string' },
+        optional: { updatedAt: 'string' },
+    },
+    subjects: {
+        primaryKey: 'id',
+        required: { id: 'string', name: 'string' },
+        optional: { updatedAt: 'string' },
+    },
+    departments: {
+        primaryKey: 'id',
+        required: { id: 'string', name: 'string' },
+        optional: { headTeacherId: 'string', updatedAt: 'string' },
+    },
+    supervisors: {
+        primaryKey: 'id',
+        required: { id: 'string', name: 'string', role: ['admin', 'hod', 'observer', 'readonly'], pinHash: 'string', pinSalt: 'string' },
+        optional: { departmentId: 'string', updatedAt: 'string' },
+    },
+    rubrics: {
+        primaryKey: 'id',
+        required: {
+            id: 'string',
+            reportType: ['supervisionReports', 'bookCheckingReports', 'workCoverageReports'],
+            version: 'number',
+            name: 'string',
+            criteria: 'any',
+            scale: 'any',
+            createdAt: 'string',
+        },
+    },
+    settings: {
+        primaryKey: 'key',
+        required: { key: 'string', value: 'any' },
+    },
+    auditLog: {
+        primaryKey: 'id',
+        required: { table: 'string', recordId: 'string', action: ['create', 'update', 'delete', 'restore', 'revert'], timestamp: 'string', actor: 'string', snapshot: 'any' },
+        optional: { id: 'number', changes: 'any' },
+    },
+};
+
+const checkRule = (value: any, rule: FieldRule): string | null => {
+    if (Array.isArray(rule)) {
+        return rule.includes(value) ? null : `must be one of ${rule.join(', ')}`;
+    }
+    switch (rule) {
+        case 'any':
+            return value === undefined ? 'is missing' : null;
+        case 'string[]':
+            return Array.isArray(value) && value.every(v => typeof v === 'string') ? null : 'must be a list of text values';
+        case 'date':
+            return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : 'must be a date (YYYY-MM-DD)';
+        case 'number':
+            return typeof value === 'number' && !isNaN(value) ? null : 'must be a number';
+        default:
+            return typeof value === rule ? null : `must be ${rule === 'string' ? 'text' : `a ${rule}`}`;
+    }
+};
+
+/**
+ * Checks a single record against its table's schema and returns every problem found.
+ */
+export const validateRecord = (table: BackupTable, record: any): string[] => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+        return ['is not an object'];
+    }
+    const schema = TABLE_SCHEMAS[table];
+    const reasons: string[] = [];
+    Object.entries(schema.required).forEach(([field, rule]) => {
+        if (record[field] === undefined) {
+            reasons.push(`"${field}" is missing`);
+            return;
+        }
+        const problem = checkRule(record[field], rule);
+        if (problem) reasons.push(`"${field}" ${problem}`);
+    });
+    Object.entries(schema.optional ?? {}).forEach(([field, rule]) => {
+        if (record[field] === undefined) return;
+        const problem = checkRule(record[field], rule);
+        if (problem) reasons.push(`"${field}" ${problem}`);
+    });
+    return reasons;
+};
+
+// --- Preview ---
+
+export interface InvalidRecord {
+    table: BackupTable;
+    index: number;
+    key: string;
+    reasons: string[];
+}
+
+export interface TablePreview {
+    table: BackupTable;
+    total: number;
+    valid: number;
+    invalid: number;
+    // Valid records whose key already exists in the database.
+    collisions: string[];
+    // Records currently in the database that the import will remove.
+    existing: number;
+}
+
+export interface ImportPreview {
+    tables: TablePreview[];
+    invalidRecords: InvalidRecord[];
+    unknownTables: string[];
+    // The records that passed validation, ready to be written.
+    validData: BackupData;
+    // Tables left exactly as they are by the import, e.g. attachments when restoring a restore point.
+    keptTables: BackupTable[];
+}
+
+export class BackupFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BackupFormatError';
+    }
+}
+
+const describeKey = (record: any, primaryKey: string) =>
+    record && typeof record === 'object' && record[primaryKey] !== undefined ? String(record[primaryKey]) : '(no id)';
+
+/**
+ * Validates backup data (already unwrapped and upgraded) against the current data model
+ * without writing anything. Kept tables are neither validated nor replaced.
+ */
+export const previewBackup = async (data: unknown, keptTables: BackupTable[] = []): Promise<ImportPreview> => {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new BackupFormatError('The file does not contain a backup object.');
+    }
+    const raw = data as Record<string, unknown>;
+    const importedTables = BACKUP_TABLES.filter(table => !keptTables.includes(table));
+    const knownTables = importedTables.filter(table => raw[table] !== undefined);
+    if (knownTables.length === 0) {
+        throw new BackupFormatError('The file does not contain any recognised data tables.');
+    }
+
+    const preview: ImportPreview = {
+        tables: [],
+        invalidRecords: [],
+        unknownTables: Object.keys(raw).filter(key => !(BACKUP_TABLES as readonly string[]).includes(key)),
+        validData: {},
+        keptTables,
+    };
+
+    for (const table of importedTables) {
+        const { primaryKey } = TABLE_SCHEMAS[table];
+        const records = raw[table];
+        const existingKeys: string[] = (await dbTyped[table].toCollection().primaryKeys()).map(String);
+
+        if (records === undefined) {
+            preview.tables.push({ table, total: 0, valid: 0, invalid: 0, collisions: [], existing: existingKeys.length });
+            continue;
+        }
+        if (!Array.isArray(records)) {
+            throw new BackupFormatError(`"${table}" should be a list of records.`);
+        }
+
+        const existingKeySet = new Set(existingKeys);
+        const seenKeys = new Set<string>();
+        const valid: any[] = [];
+        const collisions: string[] = [];
+
+        records.forEach((record, index) => {
+            const key = describeKey(record, primaryKey);
+            const reasons = validateRecord(table, record);
+            if (reasons.length === 0 && record[primaryKey] !== undefined) {
+                if (seenKeys.has(key)) {
+                    reasons.push(`duplicate ${primaryKey} "${key}" within the file`);
+                }
+                seenKeys.add(key);
+            }
+            if (reasons.length > 0) {
+                preview.invalidRecords.push({ table, index, key, reasons });
+                return;
+            }
+            if (existingKeySet.has(key)) collisions.push(key);
+            valid.push(record);
+        });
+
+        preview.validData[table] = valid;
+        preview.tables.push({
+            table,
+            total: records.length,
+            valid: valid.length,
+            invalid: records.length - valid.length,
+            collisions,
+            existing: existingKeys.length,
+        });
+    }
+
+    return preview;
+};
+
+// --- Read / write ---
+
+/**
+ * Reads a table in its backup form, which for attachments means the files as data URLs.
+ */
+export const readBackupTable = async (table: BackupTable): Promise<any[]> => {
+    const rows = await dbTyped[table].toArray();
+    return table === 'attachments' ? Promise.all(rows.map(attachmentToBackup)) : rows;
+};
+
+/**
+ * Turns backup records back into database rows; the reverse of readBackupTable.
+ */
+export const fromBackupRecords = async (table: BackupTable, records: any[]): Promise<any[]> =>
+    table === 'attachments' ? Promise.all(records.map(attachmentFromBackup)) : records;
+
+/**
+ * Reads every table, except the excluded ones, into a plain object suitable for JSON export.
+ */
+export const readAllTables = async (excludedTables: BackupTable[] = []): Promise<BackupData> => {
+    const data: BackupData = {};
+    for (const table of BACKUP_TABLES.filter(table => !excludedTables.includes(table))) {
+        data[table] = await readBackupTable(table);
+    }
+    return data;
+};
+
+/**
+ * Replaces the contents of every table with the validated records from a preview,
+ * in a single transaction so a failure leaves the existing data untouched.
+ */
+export const applyBackup = async (preview: ImportPreview): Promise<void> => {
+    const tables = BACKUP_TABLES.filter(table => !preview.keptTables.includes(table));
+    // Converted first, because awaiting anything but Dexie would end the transaction early.
+    const validData: BackupData = {};
+    for (const table of tables) {
+        validData[table] = await fromBackupRecords(table, preview.validData[table] ?? []);
+    }
+    // Accounts and settings are read by the permission check even when the backup keeps them.
+    await dbTyped.teachers.db.transaction('rw', [...tables.map(table => dbTyped[table]), dbTyped.supervisors, dbTyped.settings], async () => {
+        await assertAdmin();
+        for (const table of tables) {
+            await dbTyped[table].clear();
+            const records = validData[table] ?? [];
+            if (records.length > 0) await dbTyped[table].bulkAdd(records);
+        }
+    });
+    await retagAllReports();
+};
@@ -0,0 +1,83 @@
+import { BackupEnvelope, BACKUP_FORMAT } from './backup';
+
+export const ENCRYPTED_BACKUP_FORMAT = `${BACKUP_FORMAT}-encrypted`;
+export const ENCRYPTED_BACKUP_EXTENSION = '.tmbackup';
+export const MIN_BACKUP_PASSWORD_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 310000;
+
+/**
+ * On-disk shape of an encrypted backup. The plaintext is the JSON of a normal backup envelope.
+ */
+export interface EncryptedBackupFile {
+    format: typeof ENCRYPTED_BACKUP_FORMAT;
+    version: 1;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    cipher: { name: 'AES-GCM'; iv: string };
+    ciphertext: string;
+}
+
+export class BackupPasswordError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BackupPasswordError';
+    }
+}
+
+export const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+export const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const deriveKey = async (password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+export const isEncryptedBackup = (json: unknown): json is EncryptedBackupFile =>
+    !!json && typeof json === 'object' && (json as { format?: unknown }).format === ENCRYPTED_BACKUP_FORMAT;
+
+/**
+ * Encrypts a backup envelope with a key derived from the password.
+ */
+export const encryptBackup = async (envelope: BackupEnvelope, password: string): Promise<EncryptedBackupFile> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(envelope)));
+    return {
+        format: ENCRYPTED_BACKUP_FORMAT,
+        version: 1,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+        cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+        ciphertext: toBase64(new Uint8Array(ciphertext)),
+    };
+};
+
+/**
+ * Decrypts an encrypted backup and returns the parsed envelope JSON, ready for `unwrapBackup`.
+ * AES-GCM authenticates the ciphertext, so a wrong password always fails here rather than
+ * producing garbage.
+ */
+export const decryptBackup = async (file: EncryptedBackupFile, password: string): Promise<unknown> => {
+    if (file.version !== 1 || file.kdf?.name !== 'PBKDF2' || file.cipher?.name !== 'AES-GCM') {
+        throw new BackupPasswordError('This encrypted backup uses a format this app does not support.');
+    }
+    let plaintext: ArrayBuffer;
+    try {
+        const key = await deriveKey(password, fromBase64(file.kdf.salt), file.kdf.iterations);
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(file.cipher.iv) }, key, fromBase64(file.ciphertext));
+    } catch (error) {
+        throw new BackupPasswordError('Incorrect password, or the encrypted file is damaged.');
+    }
+    return JSON.parse(new TextDecoder().decode(plaintext));
+};
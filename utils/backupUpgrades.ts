@@ -0,0 +1,153 @@
+import { normalizeTeacherName, REPORT_TABLES } from './db';
+import { migrateToCatalog, CATALOG_MIGRATION_KEY } from './catalogMigration';
+import { migrateLegacyRatings } from './rubricDefaults';
+import { BackupData } from './backup';
+
+interface BackupUpgrade {
+    // The schema version the data is in after this step runs.
+    toVersion: number;
+    description: string;
+    upgrade: (data: BackupData) => BackupData;
+}
+
+const mapReports = (data: BackupData, fn: (report: any) => any): BackupData => {
+    const next = { ...data };
+    REPORT_TABLES.forEach(table => {
+        if (next[table]) next[table] = next[table]!.map(fn);
+    });
+    return next;
+};
+
+/**
+ * Upgrade steps for backups, in schema order. Each step mirrors the matching
+ * db.version() upgrade in utils/db.ts so restored data looks like migrated data.
+ */
+export const BACKUP_UPGRADES: BackupUpgrade[] = [
+    {
+        toVersion: 3,
+        description: 'Link reports to teachers by ID',
+        upgrade: (data) => {
+            const idsByName = new Map((data.teachers ?? []).map(t => [normalizeTeacherName(t.name), t.id]));
+            return mapReports(data, report => ({
+                ...report,
+                teacherId: report.teacherId ?? idsByName.get(normalizeTeacherName(report.teacherName)) ?? '',
+            }));
+        },
+    },
+    {
+        toVersion: 4,
+        description: 'Add recycle bin support',
+        // Rows without deletedAt are active, so there is nothing to rewrite.
+        upgrade: (data) => data,
+    },
+    {
+        toVersion: 5,
+        description: 'Add audit history',
+        upgrade: (data) => ({ ...data, auditLog: data.auditLog ?? [] }),
+    },
+    {
+        toVersion: 7,
+        description: 'Add academic terms',
+        // Reports are tagged to terms by date once the data has been written.
+        upgrade: (data) => ({ ...mapReports(data, report => ({ ...report, termId: report.termId ?? '' })), terms: data.terms ?? [] }),
+    },
+    {
+        toVersion: 8,
+        description: 'Replace free-text classes and subjects with the catalog',
+        upgrade: (data) => {
+            const reportsByTable = Object.fromEntries(REPORT_TABLES.map(table => [table, data[table] ?? []]));
+            const migrated = migrateToCatalog(data.teachers ?? [], reportsByTable);
+            const next: BackupData = { ...data, teachers: migrated.teachers, classes: migrated.classes, subjects: migrated.subjects };
+            REPORT_TABLES.forEach(table => {
+                if (data[table]) next[table] = migrated.reportsByTable[table];
+            });
+            // Carry the folded spellings along so they can be reviewed after a replace import.
+            const settings = (data.settings ?? []).filter(s => s.key !== CATALOG_MIGRATION_KEY);
+            next.settings = [...settings, { key: CATALOG_MIGRATION_KEY, value: migrated.result }];
+            return next;
+        },
+    },
+    {
+        toVersion: 9,
+        description: 'Add departments',
+        upgrade: (data) => ({ ...data, departments: data.departments ?? [] }),
+    },
+    {
+        toVersion: 10,
+        description: 'Add supervisor accounts',
+        upgrade: (data) => ({ ...data, supervisors: data.supervisors ?? [] }),
+    },
+    {
+        toVersion: 13,
+        description: 'Score reports against evaluation rubrics',
+        upgrade: (data) => {
+            const next: BackupData = { ...data, rubrics: data.rubrics ?? [] };
+            (['supervisionReports', 'bookCheckingReports'] as const).forEach(table => {
+                if (data[table]) next[table] = data[table]!.map(report => migrateLegacyRatings(table, report));
+            });
+            return next;
+        },
+    },
+    {
+        toVersion: 14,
+        description: 'Add custom report types',
+        upgrade: (data) => ({ ...data, customReportTypes: data.customReportTypes ?? [], customReports: data.customReports ?? [] }),
+    },
+    {
+        toVersion: 16,
+        description: 'Add action items',
+        upgrade: (data) => ({ ...data, actionItems: data.actionItems ?? [] }),
+    },
+    {
+        toVersion: 17,
+        description: 'Add the report workflow',
+        upgrade: (data) => mapReports(data, report => ({ ...report, status: report.status ?? 'submitted' })),
+    },
+    {
+        toVersion: 18,
+        description: 'Add report attachments',
+        upgrade: (data) => ({ ...data, attachments: data.attachments ?? [] }),
+    },
+    {
+        toVersion: 19,
+        description: 'Add schemes of work',
+        upgrade: (data) => ({ ...data, schemesOfWork: data.schemesOfWork ?? [] }),
+    },
+];
+
+/**
+ * Guesses the schema version of an unversioned backup from the shape of its data.
+ */
+export const inferSchemaVersion = (data: BackupData): number => {
+    const reports = REPORT_TABLES.flatMap(table => data[table] ?? []);
+    if (data.schemesOfWork) return 19;
+    if (data.attachments) return 18;
+    if (reports.some(r => r.status !== undefined)) return 17;
+    if (data.actionItems) return 16;
+    if (data.customReportTypes) return 14;
+    if (data.rubrics) return 13;
+    if (data.supervisors) return 10;
+    if (data.departments) return 9;
+    if (data.classes || (data.teachers ?? []).some(t => t.assignments !== undefined)) return 8;
+    if (data.terms) return 7;
+    if (data.auditLog) return 5;
+    if (reports.some(r => r.deletedAt !== undefined) || (data.teachers ?? []).some(t => t.deletedAt !== undefined)) return 4;
+    if (reports.some(r => r.teacherId !== undefined)) return 3;
+    return 2;
+};
+
+/**
+ * Runs every upgrade step after the given schema version and returns the upgraded data
+ * together with the descriptions of the steps that ran.
+ */
+export const upgradeBackupData = (data: BackupData, fromVersion: number): { data: BackupData; applied: string[] } => {
+    const applied: string[] = [];
+    let upgraded = data;
+    BACKUP_UPGRADES
+        .filter(step => step.toVersion > fromVersion)
+        .forEach(step => {
+            upgraded = step.upgrade(upgraded);
+            applied.push(step.description);
+        });
+    return { data: upgraded, applied };
+};
@@ -0,0 +1,135 @@
+import { dbTyped, REPORT_TABLES } from './db';
+import { normalizeCatalogKey } from './catalogMigration';
+import { assertAdmin } from './permissions';
+import { SchemeOfWork, SchoolClass, Subject, Teacher, TeacherAssignment } from '../types';
+
+export type CatalogTable = 'classes' | 'subjects';
+
+export type CatalogItem = SchoolClass | Subject;
+
+// The report fields that hold the catalog ID and its name snapshot, per catalog table.
+const REPORT_FIELDS: Record<CatalogTable, { idField: 'classId' | 'subjectId'; nameField: 'className' | 'subject' }> = {
+    classes: { idField: 'classId', nameField: 'className' },
+    subjects: { idField: 'subjectId', nameField: 'subject' },
+};
+
+const ASSIGNMENT_FIELD: Record<CatalogTable, keyof TeacherAssignment> = {
+    classes: 'classId',
+    subjects: 'subjectId',
+};
+
+export const CATALOG_LABELS: Record<CatalogTable, { singular: string; plural: string }> = {
+    classes: { singular: 'Class', plural: 'Classes' },
+    subjects: { singular: 'Subject', plural: 'Subjects' },
+};
+
+// Everything a catalog change reads or writes, with the accounts the permission check reads.
+const catalogTables = () => [dbTyped.teachers, dbTyped.classes, dbTyped.subjects, dbTyped.schemesOfWork, ...REPORT_TABLES.map(table => dbTyped[table]), dbTyped.supervisors];
+
+export const sortByName = <T extends { name: string }>(items: T[]) => [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Formats a teacher assignment as "Class - Subject" using the catalog names.
+ */
+export const formatAssignment = (assignment: TeacherAssignment, classes: SchoolClass[], subjects: Subject[]) => {
+    const className = classes.find(c => c.id === assignment.classId)?.name ?? 'Unknown class';
+    const subjectName = subjects.find(s => s.id === assignment.subjectId)?.name ?? 'Unknown subject';
+    return `${className} - ${subjectName}`;
+};
+
+export const assignmentKey = (assignment: TeacherAssignment) => `${assignment.classId}|${assignment.subjectId}`;
+
+/**
+ * Counts the teachers and reports (including those in the recycle bin) that use a catalog entry.
+ */
+export const getCatalogUsage = async (table: CatalogTable, id: string): Promise<{ teachers: number; reports: number; schemes: number }> => {
+    const field = ASSIGNMENT_FIELD[table];
+    const teachers = await dbTyped.teachers.filter((t: Teacher) => t.assignments.some(a => a[field] === id)).count();
+    const counts = await Promise.all(REPORT_TABLES.map(reportTable => dbTyped[reportTable].where(REPORT_FIELDS[table].idField).equals(id).count()));
+    const schemes = await dbTyped.schemesOfWork.where(REPORT_FIELDS[table].idField).equals(id).count();
+    return { teachers, reports: counts.reduce((acc, n) => acc + n, 0), schemes };
+};
+
+/**
+ * Creates or renames a catalog entry. Names must stay unique after normalization, and a
+ * rename updates the name snapshot on every linked report.
+ */
+export const saveCatalogItem = async (table: CatalogTable, item: CatalogItem): Promise<void> => {
+    const name = item.name.trim();
+    const key = normalizeCatalogKey(name);
+    if (!key) {
+        throw new Error(`${CATALOG_LABELS[table].singular} name is required.`);
+    }
+    const existing: CatalogItem[] = await dbTyped[table].toArray();
+    const duplicate = existing.find(other => other.id !== item.id && normalizeCatalogKey(other.name) === key);
+    if (duplicate) {
+        throw new Error(`"${duplicate.name}" already exists. Merge the entries instead of creating a second one.`);
+    }
+
+    const { idField, nameField } = REPORT_FIELDS[table];
+    await dbTyped.teachers.db.transaction('rw', catalogTables(), async () => {
+        await assertAdmin();
+        const updatedAt = new Date().toISOString();
+        await dbTyped[table].put({ ...item, name, updatedAt });
+        await Promise.all(REPORT_TABLES.map(reportTable =>
+            dbTyped[reportTable].where(idField).equals(item.id).filter((r: any) => r[nameField] !== name).modify({ [nameField]: name, updatedAt })
+        ));
+    });
+};
+
+// The other catalog table, which together with the term identifies a scheme of work.
+const OTHER_TABLE: Record<CatalogTable, CatalogTable> = {
+    classes: 'subjects',
+    subjects: 'classes',
+};
+
+/**
+ * Folds one catalog entry into another: teacher assignments, reports and schemes of work move
+ * to the target and the source entry is deleted. Refused while both entries have a scheme of work
+ * for the same class or subject and term, as the target would end up with two.
+ */
+export const mergeCatalogItems = async (table: CatalogTable, sourceId: string, targetId: string): Promise<void> => {
+    if (sourceId === targetId) return;
+    const field = ASSIGNMENT_FIELD[table];
+    const { idField, nameField } = REPORT_FIELDS[table];
+    await dbTyped.teachers.db.transaction('rw', catalogTables(), async () => {
+        await assertAdmin();
+        const target: CatalogItem | undefined = await dbTyped[table].get(targetId);
+        if (!target) throw new Error('The entry to merge into no longer exists.');
+        const otherField = REPORT_FIELDS[OTHER_TABLE[table]].idField;
+        const targetSchemes: SchemeOfWork[] = await dbTyped.schemesOfWork.where(idField).equals(targetId).toArray();
+        const sourceSchemes: SchemeOfWork[] = await dbTyped.schemesOfWork.where(idField).equals(sourceId).toArray();
+        if (sourceSchemes.some(scheme => targetSchemes.some(other => other.termId === scheme.termId && other[otherField] === scheme[otherField]))) {
+            throw new Error(`Both entries have a scheme of work for the same ${CATALOG_LABELS[OTHER_TABLE[table]].singular.toLowerCase()} and term. Delete one of the duplicate schemes before merging.`);
+        }
+        const updatedAt = new Date().toISOString();
+
+        await dbTyped.teachers.filter((t: Teacher) => t.assignments.some(a => a[field] === sourceId)).modify((teacher: Teacher) => {
+            const pairs = new Map<string, TeacherAssignment>();
+            teacher.assignments
+                .map(a => (a[field] === sourceId ? { ...a, [field]: targetId } : a))
+                .forEach(a => pairs.set(assignmentKey(a), a));
+            teacher.assignments = [...pairs.values()];
+            teacher.updatedAt = updatedAt;
+        });
+        await Promise.all(REPORT_TABLES.map(reportTable =>
+            dbTyped[reportTable].where(idField).equals(sourceId).modify({ [idField]: targetId, [nameField]: target.name, updatedAt })
+        ));
+        await dbTyped.schemesOfWork.where(idField).equals(sourceId).modify({ [idField]: targetId, updatedAt });
+        await dbTyped[table].delete(sourceId);
+    });
+};
+
+/**
+ * Deletes a catalog entry that nothing refers to.
+ */
+export const deleteCatalogItem = async (table: CatalogTable, id: string): Promise<void> => {
+    await dbTyped.teachers.db.transaction('rw', catalogTables(), async () => {
+        await assertAdmin();
+        const usage = await getCatalogUsage(table, id);
+        if (usage.teachers > 0 || usage.reports > 0 || usage.schemes > 0) {
+            throw new Error(`This ${CATALOG_LABELS[table].singular.toLowerCase()} is used by ${usage.teachers} teacher(s), ${usage.reports} report(s) and ${usage.schemes} scheme(s) of work. Merge it into another entry instead.`);
+        }
+        await dbTyped[table].delete(id);
+    });
+};
@@ -0,0 +1,120 @@
+import { CatalogMigrationGroup, CatalogMigrationResult, SchoolClass, Subject, TeacherAssignment } from '../types';
+
+// Shared by the database upgrade and the backup upgrade, so it must not import utils/db.
+
+export const CATALOG_MIGRATION_KEY = 'catalogMigration';
+
+/**
+ * Reduces a free-text class or subject name to a comparison key, so that "Grade 5A",
+ * "grade 5a" and "Grade-5A" are treated as the same entry.
+ */
+export const normalizeCatalogKey = (name: string) => (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+interface LegacyTeacher {
+    id: string;
+    subjects?: string[];
+    classes?: string[];
+    assignments?: TeacherAssignment[];
+    [key: string]: any;
+}
+
+interface LegacyReport {
+    teacherId: string;
+    className: string;
+    subject: string;
+    [key: string]: any;
+}
+
+// Collects spellings per key and picks the most used one (first seen on a tie) as the name.
+class VariantCollector {
+    private groups = new Map<string, Map<string, number>>();
+
+    constructor(private idPrefix: string) {}
+
+    add(name: string): string {
+        const key = normalizeCatalogKey(name);
+        if (!key) return '';
+        const spellings = this.groups.get(key) ?? new Map<string, number>();
+        const spelling = name.trim();
+        spellings.set(spelling, (spellings.get(spelling) ?? 0) + 1);
+        this.groups.set(key, spellings);
+        return this.idFor(key);
+    }
+
+    // Derived from the key so that two devices migrating the same data agree on IDs.
+    idFor(key: string) {
+        return `${this.idPrefix}-${key}`;
+    }
+
+    groupsList(): CatalogMigrationGroup[] {
+        return [...this.groups.entries()].map(([key, spellings]) => {
+            const variants = [...spellings.keys()];
+            const name = variants.reduce((best, v) => (spellings.get(v)! > spellings.get(best)! ? v : best), variants[0]);
+            return { id: this.idFor(key), name, variants };
+        }).sort((a, b) => a.name.localeCompare(b.name));
+    }
+}
+
+/**
+ * Builds the class and subject catalog from the old free-text values, gives each teacher
+ * assignments and links each report to catalog IDs with normalized snapshot names.
+ *
+ * Teachers get every combination of their old classes and subjects, plus any pair they
+ * have reports for, because the old lists did not record which subject went with which class.
+ */
+export const migrateToCatalog = <T extends LegacyTeacher, R extends LegacyReport>(teachers: T[], reportsByTable: Record<string, R[]>) => {
+    const classCollector = new VariantCollector('class');
+    const subjectCollector = new VariantCollector('subject');
+
+    const pairsByTeacher = new Map<string, Map<string, TeacherAssignment>>();
+    const addPair = (teacherId: string, classId: string, subjectId: string) => {
+        if (!classId || !subjectId) return;
+        const pairs = pairsByTeacher.get(teacherId) ?? new Map<string, TeacherAssignment>();
+        pairs.set(`${classId}|${subjectId}`, { classId, subjectId });
+        pairsByTeacher.set(teacherId, pairs);
+    };
+
+    teachers.forEach(teacher => {
+        const classIds = (teacher.classes ?? []).map(c => classCollector.add(c));
+        const subjectIds = (teacher.subjects ?? []).map(s => subjectCollector.add(s));
+        classIds.forEach(classId => subjectIds.forEach(subjectId => addPair(teacher.id, classId, subjectId)));
+    });
+
+    const linkedReports: Record<string, R[]> = {};
+    Object.entries(reportsByTable).forEach(([table, reports]) => {
+        linkedReports[table] = reports.map(report => {
+            const classId = classCollector.add(report.className);
+            const subjectId = subjectCollector.add(report.subject);
+            if (report.teacherId) addPair(report.teacherId, classId, subjectId);
+            return { ...report, classId, subjectId };
+        });
+    });
+
+    const classGroups = classCollector.groupsList();
+    const subjectGroups = subjectCollector.groupsList();
+    const classNames = new Map(classGroups.map(g => [g.id, g.name]));
+    const subjectNames = new Map(subjectGroups.map(g => [g.id, g.name]));
+
+    Object.keys(linkedReports).forEach(table => {
+        linkedReports[table] = linkedReports[table].map(report => ({
+            ...report,
+            className: classNames.get(report.classId) ?? report.className,
+            subject: subjectNames.get(report.subjectId) ?? report.subject,
+        }));
+    });
+
+    const migratedTeachers = teachers.map(({ subjects, classes, ...teacher }) => ({
+        ...teacher,
+        assignments: [...(pairsByTeacher.get(teacher.id)?.values() ?? [])],
+    }));
+
+    const result: CatalogMigrationResult = { migratedAt: new Date().toISOString(), classes: classGroups, subjects: subjectGroups };
+
+    return {
+        classes: classGroups.map(({ id, name }): SchoolClass => ({ id, name })),
+        subjects: subjectGroups.map(({ id, name }): Subject => ({ id, name })),
+        teachers: migratedTeachers,
+        reportsByTable: linkedReports,
+        result,
+    };
+};
@@ -0,0 +1,125 @@
+// ChaCha20-Poly1305 (RFC 8439) in plain TypeScript.
+//
+// Dexie hooks and middleware run synchronously inside IndexedDB transactions, and awaiting
+// WebCrypto there lets the transaction commit early, so field encryption needs a cipher that
+// runs synchronously. Key derivation and key wrapping still use WebCrypto.
+
+export const KEY_LENGTH = 32;
+export const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export class DecryptionError extends Error {
+    constructor(message = 'The data could not be decrypted.') {
+        super(message);
+        this.name = 'DecryptionError';
+    }
+}
+
+const readUint32LE = (bytes: Uint8Array, offset: number) =>
+    (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+const rotl = (v: number, c: number) => (v << c) | (v >>> (32 - c));
+
+const quarterRound = (s: Uint32Array, a: number, b: number, c: number, d: number) => {
+    s[a] += s[b]; s[d] = rotl(s[d] ^ s[a], 16);
+    s[c] += s[d]; s[b] = rotl(s[b] ^ s[c], 12);
+    s[a] += s[b]; s[d] = rotl(s[d] ^ s[a], 8);
+    s[c] += s[d]; s[b] = rotl(s[b] ^ s[c], 7);
+};
+
+const chachaBlock = (key: Uint8Array, counter: number, nonce: Uint8Array, out: Uint8Array) => {
+    const input = new Uint32Array(16);
+    input[0] = 0x61707865; input[1] = 0x3320646e; input[2] = 0x79622d32; input[3] = 0x6b206574;
+    for (let i = 0; i < 8; i++) input[4 + i] = readUint32LE(key, i * 4);
+    input[12] = counter;
+    for (let i = 0; i < 3; i++) input[13 + i] = readUint32LE(nonce, i * 4);
+
+    const s = input.slice();
+    for (let i = 0; i < 10; i++) {
+        quarterRound(s, 0, 4, 8, 12); quarterRound(s, 1, 5, 9, 13); quarterRound(s, 2, 6, 10, 14); quarterRound(s, 3, 7, 11, 15);
+        quarterRound(s, 0, 5, 10, 15); quarterRound(s, 1, 6, 11, 12); quarterRound(s, 2, 7, 8, 13); quarterRound(s, 3, 4, 9, 14);
+    }
+    for (let i = 0; i < 16; i++) {
+        const v = (s[i] + input[i]) >>> 0;
+        out[i * 4] = v & 0xff;
+        out[i * 4 + 1] = (v >>> 8) & 0xff;
+        out[i * 4 + 2] = (v >>> 16) & 0xff;
+        out[i * 4 + 3] = (v >>> 24) & 0xff;
+    }
+};
+
+const chacha20 = (key: Uint8Array, nonce: Uint8Array, counter: number, data: Uint8Array): Uint8Array => {
+    const out = new Uint8Array(data.length);
+    const block = new Uint8Array(64);
+    for (let offset = 0; offset < data.length; offset += 64, counter++) {
+        chachaBlock(key, counter, nonce, block);
+        const end = Math.min(64, data.length - offset);
+        for (let i = 0; i < end; i++) out[offset + i] = data[offset + i] ^ block[i];
+    }
+    return out;
+};
+
+const P1305 = (1n << 130n) - 5n;
+
+const readUintLE = (bytes: Uint8Array, start: number, end: number): bigint => {
+    let n = 0n;
+    for (let i = end - 1; i >= start; i--) n = (n << 8n) | BigInt(bytes[i]);
+    return n;
+};
+
+const poly1305 = (key: Uint8Array, message: Uint8Array): Uint8Array => {
+    const r = readUintLE(key, 0, 16) & 0x0ffffffc0ffffffc0ffffffc0fffffffn;
+    const s = readUintLE(key, 16, 32);
+    let acc = 0n;
+    for (let offset = 0; offset < message.length; offset += 16) {
+        const end = Math.min(offset + 16, message.length);
+        const n = readUintLE(message, offset, end) | (1n << BigInt(8 * (end - offset)));
+        acc = ((acc + n) * r) % P1305;
+    }
+    acc = (acc + s) & ((1n << 128n) - 1n);
+    const tag = new Uint8Array(TAG_LENGTH);
+    for (let i = 0; i < TAG_LENGTH; i++) {
+        tag[i] = Number(acc & 0xffn);
+        acc >>= 8n;
+    }
+    return tag;
+};
+
+const pad16 = (length: number) => (16 - (length % 16)) % 16;
+
+const computeTag = (key: Uint8Array, nonce: Uint8Array, ciphertext: Uint8Array): Uint8Array => {
+    const polyKey = new Uint8Array(64);
+    chachaBlock(key, 0, nonce, polyKey);
+    // No additional authenticated data: ciphertext, padding, then the two 64-bit lengths.
+    const macData = new Uint8Array(ciphertext.length + pad16(ciphertext.length) + 16);
+    macData.set(ciphertext);
+    let length = ciphertext.length;
+    for (let i = 0; i < 8; i++, length = Math.floor(length / 256)) {
+        macData[macData.length - 8 + i] = length & 0xff;
+    }
+    return poly1305(polyKey.subarray(0, 32), macData);
+};
+
+/**
+ * Encrypts and authenticates the plaintext. Returns the ciphertext followed by the 16-byte tag.
+ */
+export const seal = (key: Uint8Array, nonce: Uint8Array, plaintext: Uint8Array): Uint8Array => {
+    const ciphertext = chacha20(key, nonce, 1, plaintext);
+    const sealed = new Uint8Array(ciphertext.length + TAG_LENGTH);
+    sealed.set(ciphertext);
+    sealed.set(computeTag(key, nonce, ciphertext), ciphertext.length);
+    return sealed;
+};
+
+/**
+ * Checks the tag and decrypts. Throws a DecryptionError if the key is wrong or the data was altered.
+ */
+export const open = (key: Uint8Array, nonce: Uint8Array, sealed: Uint8Array): Uint8Array => {
+    if (sealed.length < TAG_LENGTH) throw new DecryptionError();
+    const ciphertext = sealed.subarray(0, sealed.length - TAG_LENGTH);
+    const expected = computeTag(key, nonce, ciphertext);
+    let diff = 0;
+    for (let i = 0; i < TAG_LENGTH; i++) diff |= expected[i] ^ sealed[ciphertext.length + i];
+    if (diff !== 0) throw new DecryptionError();
+    return chacha20(key, nonce, 1, ciphertext);
+};
@@ -0,0 +1,85 @@
+import { dbTyped } from './db';
+import { assertAdmin } from './permissions';
+import { CustomFieldDefinition, CustomFieldType, CustomReportType } from '../types';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+    text: 'Short Text',
+    textarea: 'Long Text',
+    select: 'Dropdown',
+    rating: 'Star Rating',
+    signature: 'Signature',
+    date: 'Date',
+};
+
+export const DEFAULT_MAX_RATING = 5;
+export const MAX_RATING_LIMIT = 10;
+
+/**
+ * Checks a report type definition and returns a cleaned copy: trimmed labels, options only on
+ * dropdowns and a star count only on ratings.
+ */
+const normalizeReportType = (reportType: CustomReportType): CustomReportType => {
+    const name = reportType.name.trim();
+    if (!name) throw new Error('Report type name is required.');
+    if (reportType.fields.length === 0) throw new Error('Add at least one field.');
+    const fields = reportType.fields.map((field): CustomFieldDefinition => {
+        const label = field.label.trim();
+        if (!label) throw new Error('Every field needs a label.');
+        const cleaned: CustomFieldDefinition = { id: field.id, label, type: field.type, required: field.required };
+        if (field.placeholder?.trim() && (field.type === 'text' || field.type === 'textarea')) {
+            cleaned.placeholder = field.placeholder.trim();
+        }
+        if (field.type === 'select') {
+            const options = [...new Set((field.options ?? []).map(o => o.trim()).filter(Boolean))];
+            if (options.length < 2) throw new Error(`The dropdown "${label}" needs at least two options.`);
+            cleaned.options = options;
+        }
+        if (field.type === 'rating') {
+            const maxRating = field.maxRating ?? DEFAULT_MAX_RATING;
+            if (!Number.isInteger(maxRating) || maxRating < 2 || maxRating > MAX_RATING_LIMIT) {
+                throw new Error(`The rating "${label}" must have between 2 and ${MAX_RATING_LIMIT} stars.`);
+            }
+            cleaned.maxRating = maxRating;
+        }
+        return cleaned;
+    });
+    return { ...reportType, name, description: reportType.description?.trim() || undefined, fields };
+};
+
+/**
+ * Creates or updates a report type. Names must be unique. Answers to removed fields stay on
+ * existing reports but are no longer shown.
+ */
+export const saveCustomReportType = async (reportType: CustomReportType): Promise<void> => {
+    await assertAdmin();
+    const cleaned = normalizeReportType(reportType);
+    const existing: CustomReportType[] = await dbTyped.customReportTypes.toArray();
+    if (existing.some(t => t.id !== cleaned.id && t.name.toLowerCase() === cleaned.name.toLowerCase())) {
+        throw new Error(`A report type named "${cleaned.name}" already exists.`);
+    }
+    await dbTyped.customReportTypes.put({ ...cleaned, updatedAt: new Date().toISOString() });
+};
+
+/**
+ * Counts the reports of a type, including those in the recycle bin.
+ */
+export const countCustomReports = (reportTypeId: string): Promise<number> =>
+    dbTyped.customReports.where('reportTypeId').equals(reportTypeId).count();
+
+/**
+ * Deletes a report type that has no reports. Types with reports can only be archived.
+ */
+export const deleteCustomReportType = async (id: string): Promise<void> => {
+    await assertAdmin();
+    await dbTyped.teachers.db.transaction('rw', dbTyped.customReportTypes, dbTyped.customReports, async () => {
+        if (await countCustomReports(id) > 0) {
+            throw new Error('This report type has reports. Archive it instead, or delete its reports and empty them from the recycle bin first.');
+        }
+        await dbTyped.customReportTypes.delete(id);
+    });
+};
+
+export const setCustomReportTypeArchived = async (id: string, archived: boolean): Promise<void> => {
+    await assertAdmin();
+    await dbTyped.customReportTypes.update(id, { archived, updatedAt: new Date().toISOString() });
+};
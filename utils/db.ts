@@ -1,8 +1,393 @@
-
 // @ts-nocheck
+import { migrateToCatalog, CATALOG_MIGRATION_KEY } from './catalogMigration';
+import { ENCRYPTED_FIELDS, fieldEncryptionMiddleware, decryptRow } from './fieldEncryption';
+import { isLegacyId } from './ids';
+import { migrateLegacyRatings } from './rubricDefaults';
 
 const db = new window.Dexie('TeacherMonitorDB');
 
+// The report tables that existed before custom report types. Upgrades to versions before 14
+// must use this list, because the custom reports table does not exist yet when they run.
+export const BUILT_IN_REPORT_TABLES = ['supervisionReports', 'bookCheckingReports', 'workCoverageReports'] as const;
+
+export const REPORT_TABLES = [...BUILT_IN_REPORT_TABLES, 'customReports'] as const;
+
+export const TEACHER_LINK_MIGRATION_KEY = 'teacherLinkMigration';
+export const ID_MIGRATION_KEY = 'idMigration';
+
+export const normalizeTeacherName = (name) => (name || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Upgrades run when the database opens, which is before the app lock is unlocked, so they
+// must never read or rewrite the fields listed in ENCRYPTED_FIELDS.
+db.version(20).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  customReports: 'id, reportTypeId, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  customReportTypes: 'id, name',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  restorePointBackups: 'id',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+  supervisors: 'id, name',
+  appLock: 'id',
+  rubrics: 'id, reportType',
+  reportDrafts: 'id, table, reportId, updatedAt',
+  actionItems: 'id, teacherId, sourceReportId, status, dueDate',
+  attachments: 'id, reportId, table',
+  schemesOfWork: 'id, classId, subjectId, termId',
+}).upgrade(async (tx) => {
+  // Snapshots move out of the restore point rows, so listing restore points no longer loads (or,
+  // with the app lock on, decrypts) every full backup. Each backup is moved as stored, encrypted
+  // or not, without being read.
+  const backups = [];
+  await tx.table('restorePoints').toCollection().modify(point => {
+    backups.push({ id: point.id, backup: point.backup });
+    delete point.backup;
+  });
+  await tx.table('restorePointBackups').bulkAdd(backups);
+});
+
+db.version(19).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  customReports: 'id, reportTypeId, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  customReportTypes: 'id, name',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+  supervisors: 'id, name',
+  appLock: 'id',
+  rubrics: 'id, reportType',
+  reportDrafts: 'id, table, reportId, updatedAt',
+  actionItems: 'id, teacherId, sourceReportId, status, dueDate',
+  attachments: 'id, reportId, table',
+  schemesOfWork: 'id, classId, subjectId, termId',
+});
+
+db.version(18).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  customReports: 'id, reportTypeId, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  customReportTypes: 'id, name',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+  supervisors: 'id, name',
+  appLock: 'id',
+  rubrics: 'id, reportType',
+  reportDrafts: 'id, table, reportId, updatedAt',
+  actionItems: 'id, teacherId, sourceReportId, status, dueDate',
+  attachments: 'id, reportId, table',
+});
+
+db.version(17).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  customReports: 'id, reportTypeId, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId, status',
+  customReportTypes: 'id, name',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+  supervisors: 'id, name',
+  appLock: 'id',
+  rubrics: 'id, reportType',
+  reportDrafts: 'id, table, reportId, updatedAt',
+  actionItems: 'id, teacherId, sourceReportId, status, dueDate',
+}).upgrade(async (tx) => {
+  // Reports written before the workflow existed were complete when saved, so they count as
+  // submitted. The status is not encrypted.
+  for (const table of REPORT_TABLES) {
+    await tx.table(table).toCollection().modify(report => {
+      if (!report.status) report.status = 'submitted';
+    });
+  }
+});
+
+db.version(16).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  customReports: 'id, reportTypeId, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  customReportTypes: 'id, name',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+  supervisors: 'id, name',
+  appLock: 'id',
+  rubrics: 'id, reportType',
+  reportDrafts: 'id, table, reportId, updatedAt',
+  actionItems: 'id, teacherId, sourceReportId, status, dueDate',
+});
+
+db.version(15).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  customReports: 'id, reportTypeId, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  customReportTypes: 'id, name',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+  supervisors: 'id, name',
+  appLock: 'id',
+  rubrics: 'id, reportType',
+  reportDrafts: 'id, table, reportId, updatedAt',
+});
+
+db.version(14).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  customReports: 'id, reportTypeId, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  customReportTypes: 'id, name',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+  supervisors: 'id, name',
+  appLock: 'id',
+  rubrics: 'id, reportType',
+});
+
+db.version(13).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+  supervisors: 'id, name',
+  appLock: 'id',
+  rubrics: 'id, reportType',
+}).upgrade(async (tx) => {
+  // Score existing reports against the built-in version 1 rubrics. Ratings are not encrypted,
+  // and modify writes the encrypted text fields back unchanged.
+  for (const table of ['supervisionReports', 'bookCheckingReports']) {
+    await tx.table(table).toCollection().modify(function (report) {
+      this.value = migrateLegacyRatings(table, report);
+    });
+  }
+});
+
+db.version(12).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+  supervisors: 'id, name',
+  appLock: 'id',
+}).upgrade(async (tx) => {
+  // New records get UUIDs from here on. Existing records keep their Date.now() IDs because
+  // reports, departments, audit entries, backups and other devices refer to them, and new IDs
+  // would make the next merge treat every record as new. Merges check these legacy IDs for
+  // collisions instead; the counts are kept for reference.
+  const legacyIds = {};
+  for (const table of ['teachers', ...BUILT_IN_REPORT_TABLES, 'terms', 'classes', 'subjects', 'departments', 'supervisors']) {
+    const keys = await tx.table(table).toCollection().primaryKeys();
+    legacyIds[table] = keys.filter(key => isLegacyId(String(key))).length;
+  }
+  await tx.table('settings').put({ key: ID_MIGRATION_KEY, value: { migratedAt: new Date().toISOString(), legacyIds } });
+});
+
+db.version(11).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+  supervisors: 'id, name',
+  appLock: 'id',
+});
+
+db.version(10).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId, authorId',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+  supervisors: 'id, name',
+});
+
+db.version(9).stores({
+  teachers: 'id, name, deletedAt, departmentId',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+  departments: 'id, name',
+});
+
+db.version(8).stores({
+  teachers: 'id, name, deletedAt',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId, classId, subjectId',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+  classes: 'id, name',
+  subjects: 'id, name',
+}).upgrade(async (tx) => {
+  // Replace free-text class and subject values with catalog entries. The folded spellings
+  // are stored in settings so they can be reviewed on the Classes & Subjects page.
+  const reportsByTable = {};
+  for (const table of BUILT_IN_REPORT_TABLES) {
+    reportsByTable[table] = await tx.table(table).toArray();
+  }
+  const migrated = migrateToCatalog(await tx.table('teachers').toArray(), reportsByTable);
+
+  await tx.table('classes').bulkPut(migrated.classes);
+  await tx.table('subjects').bulkPut(migrated.subjects);
+  await tx.table('teachers').bulkPut(migrated.teachers);
+  for (const table of BUILT_IN_REPORT_TABLES) {
+    await tx.table(table).bulkPut(migrated.reportsByTable[table]);
+  }
+  if (migrated.classes.length > 0 || migrated.subjects.length > 0) {
+    await tx.table('settings').put({ key: CATALOG_MIGRATION_KEY, value: migrated.result });
+  }
+});
+
+db.version(7).stores({
+  teachers: 'id, name, deletedAt',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt, termId',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt, termId',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt, termId',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+  terms: 'id, startDate, endDate',
+}).upgrade(async (tx) => {
+  // No terms exist yet, so every report starts untagged.
+  for (const table of BUILT_IN_REPORT_TABLES) {
+    await tx.table(table).toCollection().modify(report => {
+      report.termId = '';
+    });
+  }
+});
+
+db.version(6).stores({
+  teachers: 'id, name, deletedAt',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+  restorePoints: '++id, createdAt, reason',
+});
+
+db.version(5).stores({
+  teachers: 'id, name, deletedAt',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt',
+  settings: 'key',
+  auditLog: '++id, recordId, timestamp',
+});
+
+db.version(4).stores({
+  teachers: 'id, name, deletedAt',
+  supervisionReports: 'id, teacherId, teacherName, date, deletedAt',
+  bookCheckingReports: 'id, teacherId, teacherName, date, deletedAt',
+  workCoverageReports: 'id, teacherId, teacherName, date, deletedAt',
+  settings: 'key',
+});
+
+db.version(3).stores({
+  teachers: 'id, name',
+  supervisionReports: 'id, teacherId, teacherName, date',
+  bookCheckingReports: 'id, teacherId, teacherName, date',
+  workCoverageReports: 'id, teacherId, teacherName, date',
+  settings: 'key',
+}).upgrade(async (tx) => {
+  // Link existing reports to teachers by matching names. Reports that cannot be
+  // matched keep an empty teacherId and are listed in settings for manual review.
+  const teachers = await tx.table('teachers').toArray();
+  const idsByName = new Map(teachers.map(t => [normalizeTeacherName(t.name), t.id]));
+  const result = { migratedAt: new Date().toISOString(), linked: 0, unmatched: [] };
+
+  for (const table of BUILT_IN_REPORT_TABLES) {
+    await tx.table(table).toCollection().modify(report => {
+      const teacherId = idsByName.get(normalizeTeacherName(report.teacherName));
+      report.teacherId = teacherId || '';
+      if (teacherId) {
+        result.linked++;
+      } else {
+        result.unmatched.push({ table, id: report.id, teacherName: report.teacherName });
+      }
+    });
+  }
+
+  await tx.table('settings').put({ key: TEACHER_LINK_MIGRATION_KEY, value: result });
+});
+
 db.version(2).stores({
   teachers: 'id, name',
   supervisionReports: 'id, teacherName, date',
@@ -18,6 +403,9 @@ db.version(1).stores({
   workCoverageReports: 'id, teacherName, date',
 });
 
+// The highest schema version declared above; recorded in backups so older files can be upgraded.
+export const SCHEMA_VERSION = db.verno;
+
 // This is to help with type inference in components
 export const dbTyped = {
     teachers: db.table('teachers'),
@@ -25,4 +413,46 @@ export const dbTyped = {
     bookCheckingReports: db.table('bookCheckingReports'),
     workCoverageReports: db.table('workCoverageReports'),
     settings: db.table('settings'),
+    auditLog: db.table('auditLog'),
+    terms: db.table('terms'),
+    classes: db.table('classes'),
+    subjects: db.table('subjects'),
+    departments: db.table('departments'),
+    supervisors: db.table('supervisors'),
+    rubrics: db.table('rubrics'),
+    customReportTypes: db.table('customReportTypes'),
+    customReports: db.table('customReports'),
+    actionItems: db.table('actionItems'),
+    attachments: db.table('attachments'),
+    schemesOfWork: db.table('schemesOfWork'),
+    // Cleared with the other data, but not backed up or merged: drafts belong to this device.
+    reportDrafts: db.table('reportDrafts'),
 };
+
+// Kept outside dbTyped so that clearing or replacing application data never touches
+// the snapshots that exist to undo exactly that.
+export const restorePointsTable = db.table('restorePoints');
+
+// The snapshot of each restore point, keyed by its ID and only read when one is previewed.
+export const restorePointBackupsTable = db.table('restorePointBackups');
+
+// Holds the wrapped data key of the app lock. Like restore points it is kept outside dbTyped,
+// so clearing, importing or backing up data never removes or exports it.
+export const appLockTable = db.table('appLock');
+
+db.use(fieldEncryptionMiddleware);
+
+// Every table with encrypted fields; these are re-written when the app lock is turned on or off.
+export const encryptedTables = Object.keys(ENCRYPTED_FIELDS).map(name => {
+  const table = db.table(name);
+  table.hook('reading', row => decryptRow(name, row));
+  return table;
+});
+
+// Soft-deleted rows stay in their table with a deletedAt timestamp until they are
+// purged from the recycle bin, so every normal read should go through this helper.
+export const activeRows = (table) => table.filter(row => !row.deletedAt).toArray();
+
+// Reports still in draft are work in progress: their lists show them, but stats, overviews and
+// bulk exports leave them out.
+export const countedReports = <T extends { status?: string }>(reports: T[]): T[] => reports.filter(report => report.status !== 'draft');
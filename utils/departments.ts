@@ -0,0 +1,118 @@
+import { dbTyped } from './db';
+import { assertAdmin } from './permissions';
+import { BookCheckingReport, Department, SupervisionReport, Supervisor, Teacher } from '../types';
+
+// Value of the department filters when every department is shown.
+export const ALL_DEPARTMENTS = '';
+
+// Value of the department filters for teachers who are not in any department.
+export const NO_DEPARTMENT = 'none';
+
+/**
+ * Keeps only the records whose teacher belongs to the selected department.
+ */
+export const filterByDepartment = <T extends { teacherId: string }>(records: T[], teachers: Teacher[], departmentId: string): T[] => {
+    if (departmentId === ALL_DEPARTMENTS) return records;
+    const teacherIds = new Set(teachers.filter(t => isInDepartment(t, departmentId)).map(t => t.id));
+    return records.filter(record => teacherIds.has(record.teacherId));
+};
+
+export const isInDepartment = (teacher: Teacher, departmentId: string) =>
+    departmentId === ALL_DEPARTMENTS || (departmentId === NO_DEPARTMENT ? !teacher.departmentId : teacher.departmentId === departmentId);
+
+/**
+ * Saves a department and sets its members. Teachers are in at most one department, so
+ * adding a member moves them out of their previous department, and the head of department
+ * is always made a member.
+ */
+export const saveDepartment = async (department: Department, memberIds: string[]): Promise<void> => {
+    const members = new Set(memberIds);
+    if (department.headTeacherId) members.add(department.headTeacherId);
+
+    await dbTyped.teachers.db.transaction('rw', dbTyped.departments, dbTyped.teachers, dbTyped.supervisors, async () => {
+        await assertAdmin();
+        const updatedAt = new Date().toISOString();
+        await dbTyped.departments.put({ ...department, updatedAt });
+        await dbTyped.teachers
+            .filter((t: Teacher) => (t.departmentId === department.id) !== members.has(t.id))
+            .modify((teacher: Teacher) => {
+                if (members.has(teacher.id)) {
+                    teacher.departmentId = department.id;
+                } else {
+                    delete teacher.departmentId;
+                }
+                teacher.updatedAt = updatedAt;
+            });
+        // A member who headed another department can no longer lead it.
+        await dbTyped.departments
+            .filter((d: Department) => d.id !== department.id && !!d.headTeacherId && members.has(d.headTeacherId))
+            .modify({ headTeacherId: undefined, updatedAt });
+    });
+};
+
+/**
+ * Deletes a department. Its members stay, without a department, and heads of department
+ * accounts that oversaw it no longer oversee any.
+ */
+export const deleteDepartment = async (id: string): Promise<void> => {
+    await dbTyped.teachers.db.transaction('rw', dbTyped.departments, dbTyped.teachers, dbTyped.supervisors, async () => {
+        await assertAdmin();
+        const updatedAt = new Date().toISOString();
+        await dbTyped.teachers.where('departmentId').equals(id).modify({ departmentId: undefined, updatedAt });
+        await dbTyped.supervisors.filter((s: Supervisor) => s.departmentId === id).modify({ departmentId: undefined, updatedAt });
+        await dbTyped.departments.delete(id);
+    });
+};
+
+export interface DepartmentStats {
+    // undefined for the "No department" row.
+    department?: Department;
+    teacherCount: number;
+    observations: number;
+    teachersObserved: number;
+    averageRating: number | null;
+    // From each member's latest book check.
+    coverage: Record<BookCheckingReport['workCoverage'], number>;
+}
+
+/**
+ * Summarises observations and work coverage per department. Teachers without a department
+ * get a final row, which is left out when there are none.
+ */
+export const computeDepartmentStats = (
+    departments: Department[],
+    teachers: Teacher[],
+    supervisionReports: SupervisionReport[],
+    bookCheckingReports: BookCheckingReport[],
+): DepartmentStats[] => {
+    const latestBookCheck = new Map<string, BookCheckingReport>();
+    bookCheckingReports.forEach(report => {
+        const current = latestBookCheck.get(report.teacherId);
+        if (!current || report.date > current.date) latestBookCheck.set(report.teacherId, report);
+    });
+
+    const summarise = (department: Department | undefined, departmentId: string): DepartmentStats => {
+        const members = teachers.filter(t => isInDepartment(t, departmentId));
+        const memberIds = new Set(members.map(t => t.id));
+        const observations = supervisionReports.filter(r => memberIds.has(r.teacherId));
+        const coverage = { complete: 0, partial: 0, missing: 0 };
+        members.forEach(t => {
+            const check = latestBookCheck.get(t.id);
+            if (check) coverage[check.workCoverage]++;
+        });
+        return {
+            department,
+            teacherCount: members.length,
+            observations: observations.length,
+            teachersObserved: new Set(observations.map(r => r.teacherId)).size,
+            averageRating: observations.length > 0 ? observations.reduce((acc, r) => acc + r.rating, 0) / observations.length : null,
+            coverage,
+        };
+    };
+
+    const rows = [...departments]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(d => summarise(d, d.id));
+    const unassigned = summarise(undefined, NO_DEPARTMENT);
+    return unassigned.teacherCount > 0 ? [...rows, unassigned] : rows;
+};
@@ -0,0 +1,25 @@
+import { dbTyped } from './db';
+import { Report, ReportDraft, ReportTableName } from '../types';
+import { CurrentUser } from './permissions';
+
+// How long the form waits after the last change before it saves the draft.
+export const DRAFT_AUTOSAVE_DELAY_MS = 1000;
+
+export const saveDraft = (draft: Omit<ReportDraft, 'updatedAt'>): Promise<void> =>
+    dbTyped.reportDrafts.put({ ...draft, updatedAt: new Date().toISOString() });
+
+export const deleteDraft = (id: string): Promise<void> => dbTyped.reportDrafts.delete(id);
+
+/**
+ * The drafts of a report type started by the user, newest first. While no accounts exist
+ * every draft belongs to whoever uses the app.
+ */
+export const getDrafts = async (table: ReportTableName, reportTypeId: string | undefined, user: CurrentUser): Promise<ReportDraft[]> => {
+    const drafts: ReportDraft[] = await dbTyped.reportDrafts.where('table').equals(table).toArray();
+    return drafts
+        .filter(draft => draft.reportTypeId === reportTypeId && draft.authorId === user?.id)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const findDraftForReport = (drafts: ReportDraft[], report: Report): ReportDraft | undefined =>
+    drafts.find(draft => draft.reportId === report.id);
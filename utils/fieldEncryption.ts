@@ -0,0 +1,121 @@
+import { seal, open, NONCE_LENGTH } from './chacha20poly1305';
+
+// Free-text content, signatures and attachment files that are encrypted at rest while the app lock is enabled.
+// Indexed fields (teacher, class, subject, date, term, author) and ratings stay readable so
+// queries, filters and stats keep working.
+export const ENCRYPTED_FIELDS: Record<string, string[]> = {
+    supervisionReports: [
+        'lessonObjectives', 'teachingMethods', 'learnerEngagement', 'classroomManagement', 'useOfTeachingAids',
+        'assessmentAndFeedback', 'strengths', 'weaknesses', 'recommendations', 'acknowledgement', 'signatures',
+    ],
+    bookCheckingReports: ['booksChecked', 'exemplaryWorkNoted', 'commonStudentErrors', 'teacherResponseToFeedback', 'comments', 'acknowledgement', 'signatures'],
+    workCoverageReports: ['plannedTopics', 'completedTopics', 'pendingTopics', 'remarks', 'teacherSignature', 'supervisorSignature', 'acknowledgement', 'signatures'],
+    customReports: ['values', 'acknowledgement', 'signatures'],
+    reportDrafts: ['report', 'actionItems'],
+    actionItems: ['description', 'reviewNote'],
+    // The files are sealed as raw bytes rather than JSON; see encryptValue.
+    attachments: ['fileName', 'caption', 'data'],
+    // Audit entries and restore points hold full copies of reports.
+    auditLog: ['changes', 'snapshot'],
+    restorePointBackups: ['backup'],
+};
+
+// Stored in place of an encrypted field. The plaintext is the JSON of the original value, or the
+// value itself when it is binary.
+interface EncryptedValue {
+    $encrypted: 1;
+    nonce: Uint8Array;
+    data: Uint8Array;
+    binary?: 1;
+}
+
+// enabled is true whenever the app lock is on; dataKey is only set while it is unlocked.
+let enabled = false;
+let dataKey: Uint8Array | null = null;
+
+export const setFieldEncryptionState = (isEnabled: boolean, key: Uint8Array | null) => {
+    enabled = isEnabled;
+    dataKey = key;
+};
+
+export const isEncryptedValue = (value: unknown): value is EncryptedValue =>
+    !!value && typeof value === 'object' && (value as { $encrypted?: unknown }).$encrypted === 1;
+
+const encryptValue = (key: Uint8Array, value: unknown): EncryptedValue => {
+    const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+    if (value instanceof Uint8Array) {
+        return { $encrypted: 1, nonce, data: seal(key, nonce, value), binary: 1 };
+    }
+    // A Blob cannot be read synchronously and would turn into "{}" as JSON.
+    if (value instanceof Blob) {
+        throw new Error('Files must be stored as bytes while the app lock is on.');
+    }
+    return { $encrypted: 1, nonce, data: seal(key, nonce, new TextEncoder().encode(JSON.stringify(value))) };
+};
+
+const decryptValue = (key: Uint8Array, value: EncryptedValue): unknown => {
+    const plaintext = open(key, value.nonce, value.data);
+    return value.binary ? plaintext : JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+const encryptRow = (fields: string[], row: any) => {
+    let copy: any = null;
+    for (const field of fields) {
+        const value = row[field];
+        if (value === undefined || isEncryptedValue(value)) continue;
+        if (!dataKey) {
+            throw new Error('The app is locked. Unlock it before saving changes.');
+        }
+        copy = copy || { ...row };
+        copy[field] = encryptValue(dataKey, value);
+    }
+    return copy || row;
+};
+
+/**
+ * Reading hook target: replaces encrypted fields with their plaintext. Rows read while the app
+ * is locked keep their encrypted values, but nothing reads them then because the app is not
+ * mounted until it is unlocked.
+ */
+export const decryptRow = (table: string, row: any) => {
+    const fields = ENCRYPTED_FIELDS[table];
+    if (!row || !fields || !dataKey) return row;
+    let copy: any = null;
+    for (const field of fields) {
+        if (!isEncryptedValue(row[field])) continue;
+        copy = copy || { ...row };
+        copy[field] = decryptValue(dataKey, row[field]);
+    }
+    return copy || row;
+};
+
+/**
+ * DBCore middleware that encrypts fields on every add and put, including bulk writes, imports
+ * and Collection.modify. It runs synchronously inside the write, so no WebCrypto here.
+ *
+ * Only reads through get/toArray/each pass the reading hook. Collection.filter and modify
+ * callbacks receive the stored values, so they must never look at encrypted fields.
+ */
+export const fieldEncryptionMiddleware = {
+    stack: 'dbcore' as const,
+    name: 'fieldEncryption',
+    create: (down: any) => ({
+        ...down,
+        table: (tableName: string) => {
+            const downTable = down.table(tableName);
+            const fields = ENCRYPTED_FIELDS[tableName];
+            if (!fields) return downTable;
+            return {
+                ...downTable,
+                mutate: (req: any) => {
+                    if (!enabled || (req.type !== 'add' && req.type !== 'put')) return downTable.mutate(req);
+                    try {
+                        return downTable.mutate({ ...req, values: req.values.map((row: any) => encryptRow(fields, row)) });
+                    } catch (error) {
+                        return Promise.reject(error);
+                    }
+                },
+            };
+        },
+    }),
+};
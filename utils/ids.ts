@@ -0,0 +1,19 @@
+/**
+ * Creates the ID for a new record. Random UUIDs cannot collide between two quick saves or
+ * between devices whose data is later merged, unlike the Date.now() IDs used before.
+ */
+export const createId = (): string => {
+    if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+    // randomUUID is missing outside secure contexts, e.g. when the app is opened over plain http.
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+/**
+ * Whether an ID was made by the old Date.now() scheme, including the `<timestamp>-<n>` form
+ * given to records kept twice in a merge.
+ */
+export const isLegacyId = (id: string) => /^\d{10,}(-\d+)?$/.test(id);
@@ -0,0 +1,224 @@
+import { dbTyped, REPORT_TABLES, normalizeTeacherName } from './db';
+import { retagAllReports } from './terms';
+import { BackupData, fromBackupRecords, readBackupTable } from './backup';
+import { createId, isLegacyId } from './ids';
+import { isReportTable } from './audit';
+import { assertAdmin } from './permissions';
+import { AppSetting, AuditEntry, ReportTableName, TeacherAssignment } from '../types';
+
+export const LAST_MERGE_KEY = 'lastMergeAt';
+
+export type MergeTable = 'teachers' | 'terms' | 'classes' | 'subjects' | 'departments' | 'rubrics' | 'customReportTypes' | 'schemesOfWork' | ReportTableName | 'actionItems' | 'attachments';
+
+// Supervisor accounts are left out: merging a file must never add an account (or change a PIN)
+// that can sign in on this device.
+export const MERGE_TABLES: MergeTable[] = ['teachers', 'terms', 'classes', 'subjects', 'departments', 'rubrics', 'customReportTypes', 'schemesOfWork', ...REPORT_TABLES, 'actionItems', 'attachments'];
+
+export type ConflictResolution = 'mine' | 'theirs' | 'both';
+
+export interface MergeConflict {
+    table: MergeTable;
+    id: string;
+    mine: any;
+    theirs: any;
+    // Both copies share an old timestamp ID but describe different records.
+    idCollision?: boolean;
+    // The local copy is a closed report, which the import would replace without an amendment.
+    closedReport?: boolean;
+}
+
+export interface MergeTableSummary {
+    added: number;
+    updated: number;
+    keptLocal: number;
+    unchanged: number;
+    conflicts: number;
+}
+
+export interface MergePlan {
+    inserts: { table: MergeTable; record: any }[];
+    updates: { table: MergeTable; record: any }[];
+    conflicts: MergeConflict[];
+    newSettings: AppSetting[];
+    newAuditEntries: AuditEntry[];
+    summary: Record<MergeTable, MergeTableSummary>;
+}
+
+export const conflictKey = (conflict: Pick<MergeConflict, 'table' | 'id'>) => `${conflict.table}:${conflict.id}`;
+
+// Compares two versions of a record, ignoring the last-modified stamp and the derived term tag.
+const sameContent = (a: any, b: any) => {
+    const { updatedAt: _a, termId: _ta, ...restA } = a;
+    const { updatedAt: _b, termId: _tb, ...restB } = b;
+    const keys = new Set([...Object.keys(restA), ...Object.keys(restB)]);
+    return [...keys].every(key => JSON.stringify(restA[key]) === JSON.stringify(restB[key]));
+};
+
+// Whether two records with the same ID are versions of one record. Names and report details can be
+// edited, so a false "no" is possible; it only turns an automatic update into a conflict to review.
+const sameIdentity = (table: MergeTable, a: any, b: any) => {
+    if (isReportTable(table)) return a.teacherId === b.teacherId && a.date === b.date && a.classId === b.classId && a.subjectId === b.subjectId;
+    if (table === 'terms') return normalizeTeacherName(`${a.academicYear} ${a.name}`) === normalizeTeacherName(`${b.academicYear} ${b.name}`);
+    if (table === 'rubrics') return a.reportType === b.reportType && a.version === b.version;
+    if (table === 'actionItems') return a.sourceReportId === b.sourceReportId;
+    if (table === 'attachments') return a.reportId === b.reportId && a.fileName === b.fileName;
+    if (table === 'schemesOfWork') return a.classId === b.classId && a.subjectId === b.subjectId && a.termId === b.termId;
+    return normalizeTeacherName(a.name) === normalizeTeacherName(b.name);
+};
+
+/**
+ * Whether a conflict can be resolved by keeping both copies. Reports always can; other records
+ * only when they are an ID collision, because then the imported references belong to the copy.
+ */
+export const canKeepBoth = (conflict: MergeConflict) => isReportTable(conflict.table) || !!conflict.idCollision;
+
+const changedSince = (record: any, since: string | undefined) => !since || (record.updatedAt ?? '') > since;
+
+const auditKey = (entry: AuditEntry) => `${entry.table}|${entry.recordId}|${entry.timestamp}|${entry.action}`;
+
+/**
+ * Works out how an imported backup combines with the local data without writing anything.
+ *
+ * A record that exists on both sides with different content is a conflict when both copies
+ * were modified since the last merge on this device; otherwise the side that changed wins.
+ * Imported changes to a closed local report are always a conflict.
+ */
+export const planMerge = async (incoming: BackupData): Promise<MergePlan> => {
+    const lastMerge: string | undefined = (await dbTyped.settings.get(LAST_MERGE_KEY))?.value;
+    const plan: MergePlan = {
+        inserts: [],
+        updates: [],
+        conflicts: [],
+        newSettings: [],
+        newAuditEntries: [],
+        summary: {} as Record<MergeTable, MergeTableSummary>,
+    };
+
+    for (const table of MERGE_TABLES) {
+        const summary: MergeTableSummary = { added: 0, updated: 0, keptLocal: 0, unchanged: 0, conflicts: 0 };
+        plan.summary[table] = summary;
+        // In backup form, so attachments compare by their files as data URLs.
+        const localRows: any[] = await readBackupTable(table);
+        const localById = new Map(localRows.map(row => [row.id, row]));
+
+        for (const theirs of incoming[table] ?? []) {
+            const mine = localById.get(theirs.id);
+            if (!mine) {
+                plan.inserts.push({ table, record: theirs });
+                summary.added++;
+            } else if (sameContent(mine, theirs)) {
+                summary.unchanged++;
+            } else {
+                const mineChanged = changedSince(mine, lastMerge);
+                const theirsChanged = changedSince(theirs, lastMerge);
+                // Date.now() IDs from two devices can clash, so an old ID alone does not prove both
+                // sides hold the same record. Such a pair is never merged without asking.
+                const idCollision = isLegacyId(String(theirs.id)) && !sameIdentity(table, mine, theirs);
+                const theirsWins = theirsChanged || (!mineChanged && (theirs.updatedAt ?? '') > (mine.updatedAt ?? ''));
+                const closedReport = isReportTable(table) && mine.status === 'closed';
+                if (idCollision) {
+                    plan.conflicts.push({ table, id: theirs.id, mine, theirs, idCollision });
+                    summary.conflicts++;
+                } else if ((mineChanged && theirsChanged) || (closedReport && theirsWins)) {
+                    plan.conflicts.push({ table, id: theirs.id, mine, theirs, ...(closedReport && { closedReport }) });
+                    summary.conflicts++;
+                } else if (theirsWins) {
+                    plan.updates.push({ table, record: theirs });
+                    summary.updated++;
+                } else {
+                    summary.keptLocal++;
+                }
+            }
+        }
+    }
+
+    // Local settings (school branding, preferences) always win; only missing keys are added.
+    const localSettingKeys = new Set((await dbTyped.settings.toCollection().primaryKeys()).map(String));
+    plan.newSettings = (incoming.settings ?? []).filter((s: AppSetting) => !localSettingKeys.has(s.key) && s.key !== LAST_MERGE_KEY);
+
+    const localAuditKeys = new Set((await dbTyped.auditLog.toArray()).map(auditKey));
+    plan.newAuditEntries = (incoming.auditLog ?? [])
+        .filter((entry: AuditEntry) => !localAuditKeys.has(auditKey(entry)))
+        .map(({ id, ...entry }: AuditEntry) => entry);
+
+    return plan;
+};
+
+/**
+ * Points an imported record at the new IDs of imported records that were kept as a second copy.
+ */
+const remapReferences = (table: MergeTable, record: any, newIds: Map<string, string>) => {
+    const mapId = (refTable: MergeTable, id: string | undefined) => (id && newIds.get(conflictKey({ table: refTable, id }))) || id;
+    const mapAssignment = (a: TeacherAssignment) => ({ ...a, classId: mapId('classes', a.classId)!, subjectId: mapId('subjects', a.subjectId)! });
+    if (isReportTable(table)) {
+        return {
+            ...record,
+            teacherId: mapId('teachers', record.teacherId),
+            classId: mapId('classes', record.classId),
+            subjectId: mapId('subjects', record.subjectId),
+            ...(table === 'customReports' ? { reportTypeId: mapId('customReportTypes', record.reportTypeId) } : { rubricId: mapId('rubrics', record.rubricId) }),
+            ...(table === 'workCoverageReports' && { schemeOfWorkId: mapId('schemesOfWork', record.schemeOfWorkId) }),
+        };
+    }
+    if (table === 'teachers') {
+        return { ...record, departmentId: mapId('departments', record.departmentId), assignments: (record.assignments ?? []).map(mapAssignment) };
+    }
+    if (table === 'departments') {
+        return { ...record, headTeacherId: mapId('teachers', record.headTeacherId) };
+    }
+    if (table === 'actionItems') {
+        return { ...record, teacherId: mapId('teachers', record.teacherId), sourceReportId: mapId(record.sourceTable, record.sourceReportId) };
+    }
+    if (table === 'attachments') {
+        return { ...record, reportId: mapId(record.table, record.reportId) };
+    }
+    if (table === 'schemesOfWork') {
+        return { ...record, classId: mapId('classes', record.classId), subjectId: mapId('subjects', record.subjectId), termId: mapId('terms', record.termId) };
+    }
+    return record;
+};
+
+/**
+ * Writes a merge plan in a single transaction, applying the chosen resolution to each conflict.
+ * Conflicts without a resolution keep the local copy. A copy kept alongside the local record
+ * gets a new ID, and the other imported records that referred to it are updated to match.
+ */
+export const applyMerge = async (plan: MergePlan, resolutions: Record<string, ConflictResolution>): Promise<void> => {
+    const resolutionFor = (conflict: MergeConflict) => resolutions[conflictKey(conflict)] ?? 'mine';
+    const newIds = new Map<string, string>(plan.conflicts
+        .filter(conflict => resolutionFor(conflict) === 'both')
+        .map(conflict => [conflictKey(conflict), createId()]));
+    // Attachment files are turned back into bytes first, because awaiting anything but Dexie
+    // would end the transaction early.
+    const toRow = async (table: MergeTable, record: any) => (await fromBackupRecords(table, [remapReferences(table, record, newIds)]))[0];
+    const writes = await Promise.all([...plan.inserts, ...plan.updates].map(async ({ table, record }) => ({ table, row: await toRow(table, record) })));
+    const resolved = await Promise.all(plan.conflicts.map(async conflict => ({ conflict, row: await toRow(conflict.table, conflict.theirs) })));
+    const tables = [...MERGE_TABLES.map(table => dbTyped[table]), dbTyped.settings, dbTyped.auditLog, dbTyped.supervisors];
+    await dbTyped.teachers.db.transaction('rw', tables, async () => {
+        await assertAdmin();
+        for (const { table, row } of writes) {
+            await dbTyped[table].put(row);
+        }
+
+        for (const { conflict, row } of resolved) {
+            const resolution = resolutionFor(conflict);
+            if (resolution === 'theirs') {
+                await dbTyped[conflict.table].put(row);
+            } else if (resolution === 'both') {
+                await dbTyped[conflict.table].add({ ...row, id: newIds.get(conflictKey(conflict)) });
+            }
+        }
+
+        if (plan.newSettings.length > 0) await dbTyped.settings.bulkAdd(plan.newSettings);
+        if (plan.newAuditEntries.length > 0) {
+            // The imported history of a report kept as a copy belongs to the copy.
+            await dbTyped.auditLog.bulkAdd(plan.newAuditEntries.map(entry => {
+                const newId = newIds.get(conflictKey({ table: entry.table, id: entry.recordId }));
+                return newId ? { ...entry, recordId: newId, snapshot: { ...entry.snapshot, id: newId } } : entry;
+            }));
+        }
+        await dbTyped.settings.put({ key: LAST_MERGE_KEY, value: new Date().toISOString() });
+    });
+    // Merged terms may cover reports from either side.
+    await retagAllReports();
+};
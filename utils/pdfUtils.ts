@@ -18,7 +18,40 @@ const generateCanvas = async (elementId: string) => {
     });
 };
 
-export const generatePdfDocument = async (elementId: string): Promise<any | null> => {
+// An attachment added after the report: images get a page each, other files are listed by name.
+export interface PdfAppendixItem {
+    title: string;
+    imageDataUrl?: string;
+    format?: 'JPEG' | 'PNG';
+}
+
+const APPENDIX_MARGIN = 15;
+
+const addAppendix = (pdf, items: PdfAppendixItem[]) => {
+    const pdfWidth = pdf.internal.pageSize.getWidth();
+    const pdfHeight = pdf.internal.pageSize.getHeight();
+    const images = items.filter(item => item.imageDataUrl);
+    const files = items.filter(item => !item.imageDataUrl);
+
+    images.forEach((item, index) => {
+        pdf.addPage();
+        pdf.setFontSize(12);
+        pdf.text(`Appendix ${index + 1}: ${item.title}`, APPENDIX_MARGIN, APPENDIX_MARGIN);
+        const { width, height } = pdf.getImageProperties(item.imageDataUrl);
+        const scale = Math.min((pdfWidth - 2 * APPENDIX_MARGIN) / width, (pdfHeight - 3 * APPENDIX_MARGIN) / height);
+        pdf.addImage(item.imageDataUrl, item.format, APPENDIX_MARGIN, 2 * APPENDIX_MARGIN, width * scale, height * scale);
+    });
+
+    if (files.length > 0) {
+        pdf.addPage();
+        pdf.setFontSize(12);
+        pdf.text('Other attached files (kept with the report in the app)', APPENDIX_MARGIN, APPENDIX_MARGIN);
+        pdf.setFontSize(10);
+        files.forEach((item, index) => pdf.text(`- ${item.title}`, APPENDIX_MARGIN, 2 * APPENDIX_MARGIN + index * 7));
+    }
+};
+
+export const generatePdfDocument = async (elementId: string, appendix: PdfAppendixItem[] = []): Promise<any | null> => {
     const canvas = await generateCanvas(elementId);
     if (!canvas) return null;
 
@@ -49,6 +82,7 @@ export const generatePdfDocument = async (elementId: string): Promise<any | null
     const y = 0;
 
     pdf.addImage(imgData, 'PNG', x, y, imgWidth, imgHeight);
+    addAppendix(pdf, appendix);
     return pdf;
 };
 
@@ -0,0 +1,82 @@
+import { dbTyped } from './db';
+import { getSignedInSupervisor } from './supervisors';
+import { Page, Report, Supervisor, Teacher } from '../types';
+
+// null while no supervisor accounts exist: the app is then open to whoever uses it, as it
+// was before accounts were introduced.
+export type CurrentUser = Supervisor | null;
+
+export class PermissionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PermissionError';
+    }
+}
+
+/**
+ * Administrators manage teachers, departments, the catalog, accounts, settings and backups.
+ */
+export const isAdmin = (user: CurrentUser) => !user || user.role === 'admin';
+
+export const canWriteReports = (user: CurrentUser) => !user || user.role !== 'readonly';
+
+/**
+ * Whether the user may edit or delete a report. Observers are limited to the reports they
+ * wrote; heads of department may also change any report for a teacher in their department.
+ */
+export const canEditReport = (user: CurrentUser, report: Pick<Report, 'authorId'>, teacher?: Teacher) => {
+    if (!user) return true;
+    switch (user.role) {
+        case 'admin':
+            return true;
+        case 'hod':
+            return report.authorId === user.id || (!!user.departmentId && teacher?.departmentId === user.departmentId);
+        case 'observer':
+            return report.authorId === user.id;
+        default:
+            return false;
+    }
+};
+
+const ADMIN_PAGES = new Set<Page>([Page.CATALOG, Page.RECYCLE_BIN, Page.REPORT_TYPES]);
+
+export const canOpenPage = (user: CurrentUser, page: Page) => isAdmin(user) || !ADMIN_PAGES.has(page);
+
+/**
+ * Resolves the user behind a data change. Throws when accounts exist but nobody is signed in,
+ * so a stale tab cannot write as an anonymous user.
+ */
+export const requireCurrentUser = async (): Promise<CurrentUser> => {
+    const supervisor = await getSignedInSupervisor();
+    if (supervisor) return supervisor;
+    if (await dbTyped.supervisors.count() > 0) {
+        throw new PermissionError('Sign in to make changes.');
+    }
+    return null;
+};
+
+export const assertAdmin = async (): Promise<CurrentUser> => {
+    const user = await requireCurrentUser();
+    if (!isAdmin(user)) throw new PermissionError('Only administrators can do this.');
+    return user;
+};
+
+export const assertCanWriteReports = async (): Promise<CurrentUser> => {
+    const user = await requireCurrentUser();
+    if (!canWriteReports(user)) throw new PermissionError('Read-only accounts cannot change reports.');
+    return user;
+};
+
+/**
+ * Throws unless the signed-in user may change the given report.
+ */
+export const assertCanEditReport = async (report: Report): Promise<CurrentUser> => {
+    const user = await assertCanWriteReports();
+    const teacher: Teacher | undefined = report.teacherId ? await dbTyped.teachers.get(report.teacherId) : undefined;
+    if (!canEditReport(user, report, teacher)) {
+        throw new PermissionError(user?.role === 'hod'
+            ? 'You can only change reports you wrote or reports for teachers in your department.'
+            : 'You can only change reports you wrote.');
+    }
+    return user;
+};
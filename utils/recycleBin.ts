@@ -0,0 +1,137 @@
+import { dbTyped, REPORT_TABLES } from './db';
+import { recordAudit, isReportTable, auditTables, CLOSED_REPORT_MESSAGE } from './audit';
+import { PermissionError, assertAdmin, assertCanEditReport } from './permissions';
+import { deleteAttachmentsOfReports } from './attachments';
+import { ReportTableName } from '../types';
+
+export type RecycleBinTable = 'teachers' | ReportTableName;
+
+export const RECYCLE_BIN_RETENTION_KEY = 'recycleBinRetentionDays';
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const RECYCLABLE_TABLES: RecycleBinTable[] = ['teachers', ...REPORT_TABLES];
+
+/**
+ * Moves a row to the recycle bin by stamping it with a deletion time. Closed reports cannot be
+ * deleted until an amendment reopens them.
+ */
+export const softDelete = async (table: RecycleBinTable, id: string): Promise<void> => {
+    await dbTyped.teachers.db.transaction('rw', [dbTyped[table], dbTyped.teachers, ...auditTables()], async () => {
+        const before = await dbTyped[table].get(id);
+        if (isReportTable(table)) {
+            await assertCanEditReport(before);
+            if (before.status === 'closed') throw new PermissionError(CLOSED_REPORT_MESSAGE);
+        } else {
+            await assertAdmin();
+        }
+        const now = new Date().toISOString();
+        const after = { ...before, deletedAt: now, updatedAt: now };
+        await dbTyped[table].put(after);
+        if (isReportTable(table)) {
+            await recordAudit(table, 'delete', before, after);
+        }
+    });
+};
+
+/**
+ * Restores a row from the recycle bin. Restoring a report also restores its teacher
+ * if the teacher is in the bin, so the report is never left pointing at a hidden teacher.
+ */
+export const restoreFromBin = async (table: RecycleBinTable, id: string): Promise<void> => {
+    await dbTyped.teachers.db.transaction('rw', [...RECYCLABLE_TABLES.map(t => dbTyped[t]), ...auditTables()], async () => {
+        await assertAdmin();
+        const before = await dbTyped[table].get(id);
+        const { deletedAt, ...rest } = before;
+        const restored = { ...rest, updatedAt: new Date().toISOString() };
+        await dbTyped[table].put(restored);
+        if (isReportTable(table)) {
+            await recordAudit(table, 'restore', before, restored);
+            const teacher = restored.teacherId ? await dbTyped.teachers.get(restored.teacherId) : undefined;
+            if (teacher?.deletedAt) {
+                await dbTyped.teachers.update(teacher.id, { deletedAt: undefined, updatedAt: restored.updatedAt });
+            }
+        }
+    });
+};
+
+// Everything purging touches: reports to check a teacher against, and what hangs off a report.
+const purgeTables = () => [...RECYCLABLE_TABLES.map(t => dbTyped[t]), dbTyped.attachments, dbTyped.actionItems, dbTyped.supervisors];
+
+const hasReports = async (teacherId: string): Promise<boolean> => {
+    const reportCounts = await Promise.all(REPORT_TABLES.map(table => dbTyped[table].where('teacherId').equals(teacherId).count()));
+    return reportCounts.some(count => count > 0);
+};
+
+// Removes the attachments of purged reports and the action items raised in them.
+const deleteReportDependents = async (reportIds: string[]): Promise<void> => {
+    await deleteAttachmentsOfReports(reportIds);
+    if (reportIds.length > 0) await dbTyped.actionItems.where('sourceReportId').anyOf(reportIds).delete();
+};
+
+const purgeRow = async (table: RecycleBinTable, id: string): Promise<void> => {
+    const row = await dbTyped[table].get(id);
+    if (!row?.deletedAt) throw new Error('Only items in the recycle bin can be deleted permanently.');
+    if (table === 'teachers' && await hasReports(id)) {
+        throw new Error(`${row.name} still has reports, in the recycle bin or not. Delete those permanently first.`);
+    }
+    await dbTyped[table].delete(id);
+    if (isReportTable(table)) await deleteReportDependents([id]);
+};
+
+/**
+ * Permanently removes a row that is already in the recycle bin, with the attachments and action
+ * items of a report. A teacher who still has reports cannot be purged.
+ */
+export const purgeFromBin = async (table: RecycleBinTable, id: string): Promise<void> => {
+    await dbTyped.teachers.db.transaction('rw', purgeTables(), async () => {
+        await assertAdmin();
+        await purgeRow(table, id);
+    });
+};
+
+/**
+ * Permanently removes the given binned rows, reports before teachers. Teachers who still have
+ * reports outside the selection are kept. Returns the number of teachers kept.
+ */
+export const emptyBin = async (items: { table: RecycleBinTable; id: string }[]): Promise<number> =>
+    dbTyped.teachers.db.transaction('rw', purgeTables(), async () => {
+        await assertAdmin();
+        let keptTeachers = 0;
+        for (const item of [...items.filter(item => item.table !== 'teachers'), ...items.filter(item => item.table === 'teachers')]) {
+            if (item.table === 'teachers' && await hasReports(item.id)) {
+                keptTeachers++;
+            } else {
+                await purgeRow(item.table, item.id);
+            }
+        }
+        return keptTeachers;
+    });
+
+/**
+ * Permanently removes every binned row deleted more than the configured number of days ago.
+ * A teacher who still has reports, in the bin or not, is kept until they are gone, so no report
+ * is left pointing at a missing teacher. Returns the number of rows purged.
+ */
+export const purgeExpiredFromBin = async (): Promise<number> =>
+    dbTyped.teachers.db.transaction('rw', [...purgeTables(), dbTyped.settings], async () => {
+        await assertAdmin();
+        const setting = await dbTyped.settings.get(RECYCLE_BIN_RETENTION_KEY);
+        const retentionDays = Number(setting?.value) || DEFAULT_RETENTION_DAYS;
+        const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+        const expiredReportIds: string[] = [];
+        for (const table of REPORT_TABLES) {
+            const ids: string[] = await dbTyped[table].where('deletedAt').below(cutoff).primaryKeys();
+            await dbTyped[table].bulkDelete(ids);
+            expiredReportIds.push(...ids);
+        }
+        await deleteReportDependents(expiredReportIds);
+
+        const expiredTeacherIds: string[] = await dbTyped.teachers.where('deletedAt').below(cutoff).primaryKeys();
+        const purgedTeacherIds: string[] = [];
+        for (const teacherId of expiredTeacherIds) {
+            if (!await hasReports(teacherId)) purgedTeacherIds.push(teacherId);
+        }
+        await dbTyped.teachers.bulkDelete(purgedTeacherIds);
+        return expiredReportIds.length + purgedTeacherIds.length;
+    });
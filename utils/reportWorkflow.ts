@@ -0,0 +1,78 @@
+import { saveReportWithAudit } from './audit';
+import { CurrentUser } from './permissions';
+import { SIGNATORY_LABELS, missingSignatories, withoutInvalidSignatures } from './signatures';
+import { Report, ReportStatus, ReportTableName, SignatoryRole } from '../types';
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+    draft: 'Draft',
+    submitted: 'Submitted',
+    acknowledged: 'Acknowledged',
+    closed: 'Closed',
+};
+
+export const REPORT_STATUSES = Object.keys(REPORT_STATUS_LABELS) as ReportStatus[];
+
+export const isClosed = (report: Report) => report.status === 'closed';
+
+const assertStatus = (report: Report, expected: ReportStatus, action: string) => {
+    if (report.status !== expected) {
+        throw new Error(`Only ${REPORT_STATUS_LABELS[expected].toLowerCase()} reports can be ${action}.`);
+    }
+};
+
+/**
+ * The report as saved from the form. Changing an acknowledged report clears the acknowledgement,
+ * because the teacher has not seen the new content, and sends it back to submitted. Signatures of
+ * content that changed are dropped.
+ */
+export const withEditedContent = <R extends Report>(report: R): R => {
+    const signed = withoutInvalidSignatures(report);
+    return signed.status === 'acknowledged' ? { ...signed, status: 'submitted', acknowledgement: undefined } : signed;
+};
+
+export const submitReport = async (table: ReportTableName, report: Report): Promise<void> => {
+    assertStatus(report, 'draft', 'submitted');
+    await saveReportWithAudit(table, { ...report, status: 'submitted', submittedAt: new Date().toISOString() });
+};
+
+/**
+ * Records that the teacher has read the report, with their comment and signature.
+ */
+export const acknowledgeReport = async (table: ReportTableName, report: Report, teacherComment: string, teacherSignature: string): Promise<void> => {
+    assertStatus(report, 'submitted', 'acknowledged');
+    if (!teacherSignature) throw new Error("The teacher's signature is required.");
+    await saveReportWithAudit(table, {
+        ...report,
+        status: 'acknowledged',
+        acknowledgement: { teacherComment: teacherComment.trim(), teacherSignature, acknowledgedAt: new Date().toISOString() },
+    });
+};
+
+/**
+ * Closes an acknowledged report once every signatory its report type requires has signed it.
+ */
+export const closeReport = async (table: ReportTableName, report: Report, requiredSignatories: SignatoryRole[] = []): Promise<void> => {
+    assertStatus(report, 'acknowledged', 'closed');
+    const missing = missingSignatories(report, requiredSignatories);
+    if (missing.length > 0) {
+        throw new Error(`The report still needs the signature of the ${missing.map(role => SIGNATORY_LABELS[role].toLowerCase()).join(' and ')}.`);
+    }
+    await saveReportWithAudit(table, { ...report, status: 'closed', closedAt: new Date().toISOString() });
+};
+
+/**
+ * Reopens a closed report for editing. The reason is kept on the report, and it has to be
+ * acknowledged and closed again; the earlier acknowledgement stays in the report history.
+ */
+export const raiseAmendment = async (table: ReportTableName, report: Report, reason: string, user: CurrentUser): Promise<void> => {
+    assertStatus(report, 'closed', 'amended');
+    if (!reason.trim()) throw new Error('Give a reason for the amendment.');
+    const amendment = { reason: reason.trim(), raisedAt: new Date().toISOString(), ...(user && { raisedBy: user.name }) };
+    await saveReportWithAudit(table, {
+        ...report,
+        status: 'submitted',
+        acknowledgement: undefined,
+        closedAt: undefined,
+        amendments: [...(report.amendments ?? []), amendment],
+    });
+};
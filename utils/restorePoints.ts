@@ -0,0 +1,112 @@
+import { dbTyped, restorePointBackupsTable, restorePointsTable } from './db';
+import { BackupEnvelope, BackupTable, BACKUP_TABLES, createBackupEnvelope, readAllTables } from './backup';
+
+export const RESTORE_POINT_RETENTION_KEY = 'restorePointRetention';
+export const DEFAULT_RESTORE_POINT_RETENTION = 10;
+
+// Left out of scheduled and manual restore points, which are taken often and kept several deep:
+// every snapshot would hold another copy of every photo and file. Restoring one keeps the current ones.
+export const RESTORE_POINT_EXCLUDED_TABLES: BackupTable[] = ['attachments'];
+
+// How often the app takes a scheduled snapshot while it is open.
+export const SCHEDULED_RESTORE_POINT_HOURS = 24;
+
+export type RestorePointReason = 'scheduled' | 'manual' | 'before-import' | 'before-merge' | 'before-clear' | 'before-bulk-delete' | 'before-restore';
+
+export const RESTORE_POINT_REASON_LABELS: Record<RestorePointReason, string> = {
+    'scheduled': 'Scheduled',
+    'manual': 'Manual',
+    'before-import': 'Before import',
+    'before-merge': 'Before merge',
+    'before-clear': 'Before clearing all data',
+    'before-bulk-delete': 'Before bulk delete',
+    'before-restore': 'Before restoring a restore point',
+};
+
+// Taken before actions that can replace or delete photos and files, so these snapshots keep every table.
+const FULL_SNAPSHOT_REASONS: RestorePointReason[] = ['before-import', 'before-merge', 'before-clear', 'before-bulk-delete', 'before-restore'];
+
+export interface RestorePoint {
+    id?: number;
+    createdAt: string;
+    reason: RestorePointReason;
+    // Extra context, e.g. the name of the imported file.
+    note?: string;
+    counts: Record<BackupTable, number>;
+    // Tables left out of the snapshot. Missing on restore points that predate full snapshots.
+    excludedTables?: BackupTable[];
+}
+
+// The snapshot itself, stored apart from the restore point so the list stays cheap to read.
+interface RestorePointBackup {
+    // The ID of the restore point.
+    id: number;
+    // Stored as a full backup envelope so older snapshots go through the same upgrade path as files.
+    backup: BackupEnvelope;
+}
+
+const getRetention = async (): Promise<number> => {
+    const setting = await dbTyped.settings.get(RESTORE_POINT_RETENTION_KEY);
+    return Number(setting?.value) || DEFAULT_RESTORE_POINT_RETENTION;
+};
+
+/**
+ * Deletes the oldest restore points beyond the configured retention count.
+ */
+export const pruneRestorePoints = async (): Promise<void> => {
+    const retention = await getRetention();
+    const keys = await restorePointsTable.orderBy('createdAt').reverse().primaryKeys();
+    if (keys.length > retention) {
+        await deleteRestorePoints(keys.slice(retention));
+    }
+};
+
+/**
+ * Returns the tables a restore point has no snapshot of, which restoring it keeps as they are.
+ */
+export const restorePointExcludedTables = (point: RestorePoint): BackupTable[] =>
+    point.excludedTables ?? RESTORE_POINT_EXCLUDED_TABLES;
+
+/**
+ * Snapshots the application tables into a new restore point.
+ */
+export const createRestorePoint = async (reason: RestorePointReason, note?: string): Promise<RestorePoint> => {
+    const excludedTables = FULL_SNAPSHOT_REASONS.includes(reason) ? [] : RESTORE_POINT_EXCLUDED_TABLES;
+    const backup = await createBackupEnvelope(await readAllTables(excludedTables));
+    const counts = Object.fromEntries(BACKUP_TABLES.map(table => [table, backup.data[table]?.length ?? 0])) as Record<BackupTable, number>;
+    const point: RestorePoint = { createdAt: backup.exportedAt, reason, note, counts, excludedTables };
+    await restorePointsTable.db.transaction('rw', restorePointsTable, restorePointBackupsTable, async () => {
+        point.id = await restorePointsTable.add(point);
+        await restorePointBackupsTable.add({ id: point.id, backup } as RestorePointBackup);
+    });
+    await pruneRestorePoints();
+    return point;
+};
+
+/**
+ * Takes a scheduled restore point if the latest one is older than the schedule interval.
+ */
+export const runScheduledRestorePoint = async (): Promise<void> => {
+    const latest: RestorePoint | undefined = await restorePointsTable.where('reason').equals('scheduled').reverse().sortBy('createdAt').then((points: RestorePoint[]) => points[0]);
+    const due = Date.now() - SCHEDULED_RESTORE_POINT_HOURS * 60 * 60 * 1000;
+    if (!latest || new Date(latest.createdAt).getTime() < due) {
+        await createRestorePoint('scheduled');
+    }
+};
+
+/**
+ * Loads the snapshot of a restore point, for previewing and restoring it.
+ */
+export const getRestorePointBackup = async (id: number): Promise<BackupEnvelope> => {
+    const row: RestorePointBackup | undefined = await restorePointBackupsTable.get(id);
+    if (!row) throw new Error('The snapshot of this restore point no longer exists.');
+    return row.backup;
+};
+
+const deleteRestorePoints = (ids: number[]): Promise<void> =>
+    restorePointsTable.db.transaction('rw', restorePointsTable, restorePointBackupsTable, async () => {
+        await restorePointsTable.bulkDelete(ids);
+        await restorePointBackupsTable.bulkDelete(ids);
+    });
+
+export const deleteRestorePoint = (id: number): Promise<void> => deleteRestorePoints([id]);
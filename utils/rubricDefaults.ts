@@ -0,0 +1,63 @@
+import { Rubric, RubricLevel, ReportTableName } from '../types';
+
+// The five-star scale every report used before rubrics could be configured.
+export const DEFAULT_SCALE: RubricLevel[] = [
+    { label: 'Poor', descriptor: '' },
+    { label: 'Fair', descriptor: '' },
+    { label: 'Good', descriptor: '' },
+    { label: 'Very Good', descriptor: '' },
+    { label: 'Excellent', descriptor: '' },
+];
+
+// Fixed IDs, so two devices that migrate the same data agree on them.
+export const defaultRubricId = (reportType: ReportTableName) => `${reportType}-v1`;
+
+/**
+ * Version 1 rubrics reproducing the criteria that used to be built into the forms. Work coverage
+ * reports had no ratings, so they have no rubric until one is created in Settings.
+ */
+export const DEFAULT_RUBRICS: Rubric[] = [
+    {
+        id: defaultRubricId('supervisionReports'),
+        reportType: 'supervisionReports',
+        version: 1,
+        name: 'Supervision Rubric',
+        criteria: [{ id: 'rating', name: 'Overall Performance', description: '', weight: 1 }],
+        scale: DEFAULT_SCALE,
+        createdAt: '1970-01-01T00:00:00.000Z',
+    },
+    {
+        id: defaultRubricId('bookCheckingReports'),
+        reportType: 'bookCheckingReports',
+        version: 1,
+        name: 'Book Checking Rubric',
+        criteria: [
+            { id: 'markingRegularity', name: 'Marking Regularity', description: '', weight: 1 },
+            { id: 'feedbackQuality', name: 'Feedback Quality', description: '', weight: 1 },
+            { id: 'learnerNeatness', name: 'Learner Neatness / Handwriting', description: '', weight: 1 },
+        ],
+        scale: DEFAULT_SCALE,
+        createdAt: '1970-01-01T00:00:00.000Z',
+    },
+];
+
+/**
+ * Moves the ratings of a report written before rubrics into rubricScores against the version 1
+ * rubric. Supervision keeps its rating, which is now the weighted rubric score.
+ */
+export const migrateLegacyRatings = (table: ReportTableName, report: any) => {
+    if (report.rubricId !== undefined) return report;
+    if (table === 'supervisionReports') {
+        return { ...report, rubricId: defaultRubricId(table), rubricScores: report.rating ? { rating: report.rating } : {} };
+    }
+    if (table === 'bookCheckingReports') {
+        const { markingRegularity, feedbackQuality, learnerNeatness, ...rest } = report;
+        const rubricScores = Object.fromEntries(
+            Object.entries({ markingRegularity, feedbackQuality, learnerNeatness }).filter(([, value]) => value)
+        );
+        return { ...rest, rubricId: defaultRubricId(table), rubricScores };
+    }
+    return report;
+};
+
+export const isBuiltInRubric = (id: string) => DEFAULT_RUBRICS.some(r => r.id === id);
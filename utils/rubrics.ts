@@ -0,0 +1,107 @@
+import { dbTyped } from './db';
+import { DEFAULT_RUBRICS } from './rubricDefaults';
+import { createId } from './ids';
+import { assertAdmin } from './permissions';
+import { Rubric, RubricCriterion, RubricLevel, ReportTableName } from '../types';
+
+export const MIN_SCALE_LEVELS = 2;
+export const MAX_SCALE_LEVELS = 10;
+
+/**
+ * Every version of every rubric, oldest first within a report type. The built-in version 1
+ * rubrics are not stored, so they are added here; this also keeps them available after the
+ * data has been cleared.
+ */
+export const withDefaultRubrics = (stored: Rubric[]): Rubric[] => {
+    const storedIds = new Set(stored.map(r => r.id));
+    return [...DEFAULT_RUBRICS.filter(r => !storedIds.has(r.id)), ...stored]
+        .sort((a, b) => a.reportType.localeCompare(b.reportType) || a.version - b.version || a.createdAt.localeCompare(b.createdAt));
+};
+
+export const getRubricVersions = (rubrics: Rubric[], reportType: ReportTableName) =>
+    rubrics.filter(r => r.reportType === reportType);
+
+/**
+ * The version new reports of a type are scored with, or undefined when the type has no rubric.
+ */
+export const getCurrentRubric = (rubrics: Rubric[], reportType: ReportTableName): Rubric | undefined => {
+    const versions = getRubricVersions(rubrics, reportType);
+    return versions[versions.length - 1];
+};
+
+/**
+ * The rubric version a report was captured with, or undefined when it was never scored.
+ */
+export const getCapturedRubric = (rubrics: Rubric[], report: { rubricId?: string }): Rubric | undefined =>
+    report.rubricId ? rubrics.find(r => r.id === report.rubricId) : undefined;
+
+/**
+ * The rubric a report form scores against: the captured version when editing a scored report,
+ * otherwise the current one.
+ */
+export const getFormRubric = (rubrics: Rubric[], reportType: ReportTableName, report?: { rubricId?: string }): Rubric | undefined =>
+    (report && getCapturedRubric(rubrics, report)) || getCurrentRubric(rubrics, reportType);
+
+/**
+ * The weighted average of the criterion scores, on the rubric's scale. Unscored criteria are left out.
+ */
+export const weightedScore = (rubric: Rubric, scores: Record<string, number> = {}): number => {
+    let total = 0;
+    let weights = 0;
+    for (const criterion of rubric.criteria) {
+        const score = scores[criterion.id];
+        if (!score) continue;
+        total += score * criterion.weight;
+        weights += criterion.weight;
+    }
+    return weights > 0 ? total / weights : 0;
+};
+
+/**
+ * The weighted score mapped linearly onto a 1-5 scale and rounded to one decimal. Supervision
+ * reports store it as their rating, which the Dashboard and department statistics average.
+ */
+export const fivePointRating = (rubric: Rubric, scores: Record<string, number> = {}): number => {
+    const score = weightedScore(rubric, scores);
+    if (score === 0) return 0;
+    const levels = rubric.scale.length;
+    return Math.round((1 + (score - 1) * 4 / (levels - 1)) * 10) / 10;
+};
+
+export const missingCriteria = (rubric: Rubric, scores: Record<string, number> = {}): RubricCriterion[] =>
+    rubric.criteria.filter(c => !scores[c.id]);
+
+const validateRubric = (criteria: RubricCriterion[], scale: RubricLevel[]) => {
+    if (criteria.length === 0) throw new Error('A rubric needs at least one criterion.');
+    if (criteria.some(c => !c.name.trim())) throw new Error('Every criterion needs a name.');
+    if (criteria.some(c => !(c.weight > 0))) throw new Error('Criterion weights must be greater than zero.');
+    if (scale.length < MIN_SCALE_LEVELS || scale.length > MAX_SCALE_LEVELS) {
+        throw new Error(`The scale must have between ${MIN_SCALE_LEVELS} and ${MAX_SCALE_LEVELS} levels.`);
+    }
+    if (scale.some(level => !level.label.trim())) throw new Error('Every scale level needs a label.');
+};
+
+/**
+ * Saves an edited rubric as the next version for its report type. Earlier versions are kept
+ * unchanged for the reports that were scored with them.
+ */
+export const saveRubricVersion = async (
+    reportType: ReportTableName,
+    draft: { name: string; criteria: RubricCriterion[]; scale: RubricLevel[] },
+): Promise<Rubric> => {
+    await assertAdmin();
+    validateRubric(draft.criteria, draft.scale);
+    const stored: Rubric[] = await dbTyped.rubrics.where('reportType').equals(reportType).toArray();
+    const current = getCurrentRubric(withDefaultRubrics(stored), reportType);
+    const rubric: Rubric = {
+        id: createId(),
+        reportType,
+        version: (current?.version ?? 0) + 1,
+        name: draft.name.trim() || 'Rubric',
+        criteria: draft.criteria.map(c => ({ ...c, name: c.name.trim(), description: c.description.trim() })),
+        scale: draft.scale.map(level => ({ label: level.label.trim(), descriptor: level.descriptor.trim() })),
+        createdAt: new Date().toISOString(),
+    };
+    await dbTyped.rubrics.add(rubric);
+    return rubric;
+};
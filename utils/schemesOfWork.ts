@@ -0,0 +1,96 @@
+import { dbTyped } from './db';
+import { assertAdmin } from './permissions';
+import { termWeek } from './terms';
+import { AcademicTerm, SchemeOfWork, WorkCoverageReport } from '../types';
+
+// The values a work coverage report derives from its checklist.
+export type SchemeCoverage = Pick<WorkCoverageReport,
+    'schemeOfWorkId' | 'completedTopicIds' | 'coveragePercent' | 'weeksBehind' | 'plannedTopics' | 'completedTopics' | 'pendingTopics'>;
+
+// Clears the checklist of a report whose class, subject or term has no scheme of work. The
+// topic texts are kept so they can be edited by hand.
+export const NO_SCHEME_COVERAGE: Partial<WorkCoverageReport> = {
+    schemeOfWorkId: undefined,
+    completedTopicIds: undefined,
+    coveragePercent: undefined,
+    weeksBehind: undefined,
+};
+
+export const findScheme = (schemes: SchemeOfWork[], classId: string, subjectId: string, termId: string): SchemeOfWork | undefined =>
+    schemes.find(scheme => scheme.classId === classId && scheme.subjectId === subjectId && scheme.termId === termId);
+
+/**
+ * Derives the coverage of a report from the topics checked off on its date. A report is behind
+ * by the weeks between the planned week of its earliest pending topic and the week of the term
+ * it was written in.
+ */
+export const schemeCoverage = (scheme: SchemeOfWork, term: AcademicTerm, date: string, completedIds: string[]): SchemeCoverage => {
+    const completed = scheme.topics.filter(topic => completedIds.includes(topic.id));
+    const pending = scheme.topics.filter(topic => !completedIds.includes(topic.id));
+    const earliestPending = Math.min(...pending.map(topic => topic.plannedWeek));
+    return {
+        schemeOfWorkId: scheme.id,
+        // In scheme order, and without topics removed from the scheme since they were ticked.
+        completedTopicIds: completed.map(topic => topic.id),
+        coveragePercent: scheme.topics.length > 0 ? Math.round((completed.length / scheme.topics.length) * 100) : 0,
+        weeksBehind: pending.length > 0 ? Math.max(0, termWeek(term, date) - earliestPending) : 0,
+        plannedTopics: scheme.topics.map(topic => `Week ${topic.plannedWeek}: ${topic.title}`).join('\n'),
+        completedTopics: completed.map(topic => topic.title).join('\n'),
+        pendingTopics: pending.map(topic => topic.title).join('\n'),
+    };
+};
+
+export const formatWeeksBehind = (weeks: number) => (weeks > 0 ? `${weeks} week(s) behind` : 'On schedule');
+
+/**
+ * The latest checked report per scheme of work, i.e. per class, subject and term, for coverage
+ * overviews. Reports written without a scheme are left out.
+ */
+export const latestCoverage = (reports: WorkCoverageReport[]): WorkCoverageReport[] => {
+    const latest = new Map<string, WorkCoverageReport>();
+    reports.forEach(report => {
+        if (!report.schemeOfWorkId || report.coveragePercent === undefined) return;
+        const current = latest.get(report.schemeOfWorkId);
+        if (!current || report.date > current.date) latest.set(report.schemeOfWorkId, report);
+    });
+    return [...latest.values()].sort((a, b) => a.className.localeCompare(b.className) || a.subject.localeCompare(b.subject));
+};
+
+/**
+ * Creates or updates a scheme of work. Each class and subject has at most one scheme per term,
+ * so reports can find theirs from their class, subject and date. Schemes are school-wide and
+ * every coverage figure derives from them, so only administrators manage them.
+ */
+export const saveSchemeOfWork = async (scheme: SchemeOfWork): Promise<void> => {
+    if (!scheme.classId || !scheme.subjectId || !scheme.termId) {
+        throw new Error('Choose a class, subject and term.');
+    }
+    const topics = scheme.topics.map(topic => ({ ...topic, title: topic.title.trim() }));
+    if (topics.length === 0) {
+        throw new Error('Add at least one topic.');
+    }
+    if (topics.some(topic => !topic.title)) {
+        throw new Error('Every topic needs a title.');
+    }
+    if (topics.some(topic => !Number.isInteger(topic.plannedWeek) || topic.plannedWeek < 1)) {
+        throw new Error('Planned weeks must be whole numbers from 1.');
+    }
+    await dbTyped.teachers.db.transaction('rw', dbTyped.schemesOfWork, dbTyped.supervisors, async () => {
+        await assertAdmin();
+        const duplicate = findScheme(await dbTyped.schemesOfWork.toArray(), scheme.classId, scheme.subjectId, scheme.termId);
+        if (duplicate && duplicate.id !== scheme.id) {
+            throw new Error('This class and subject already have a scheme of work for the term. Edit that one instead.');
+        }
+        await dbTyped.schemesOfWork.put({ ...scheme, topics, updatedAt: new Date().toISOString() });
+    });
+};
+
+/**
+ * Deletes a scheme of work. Reports checked against it keep their topics and coverage.
+ */
+export const deleteSchemeOfWork = async (id: string): Promise<void> => {
+    await dbTyped.teachers.db.transaction('rw', dbTyped.schemesOfWork, dbTyped.supervisors, async () => {
+        await assertAdmin();
+        await dbTyped.schemesOfWork.delete(id);
+    });
+};
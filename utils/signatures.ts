@@ -0,0 +1,78 @@
+import { saveReportWithAudit } from './audit';
+import { Report, ReportSignature, ReportTableName, SignatoryRole } from '../types';
+
+// Setting holding the required signatories per report type, keyed as in the report type settings.
+export const REQUIRED_SIGNATURES_KEY = 'requiredSignatures';
+
+export type RequiredSignaturesSetting = Record<string, SignatoryRole[]>;
+
+export const SIGNATORY_LABELS: Record<SignatoryRole, string> = {
+    teacher: 'Teacher',
+    supervisor: 'Supervisor',
+    headTeacher: 'Head Teacher',
+};
+
+export const SIGNATORY_ROLES = Object.keys(SIGNATORY_LABELS) as SignatoryRole[];
+
+// The workflow, the signatures themselves, the snapshots kept in sync on renames and the catalog
+// IDs that merging duplicate classes or subjects rewrites are not what the parties sign, so
+// changing them leaves the signatures valid.
+const UNSIGNED_FIELDS = new Set([
+    'status', 'submittedAt', 'acknowledgement', 'closedAt', 'amendments', 'signatures',
+    'teacherName', 'classId', 'className', 'subjectId', 'subject', 'authorName', 'termId', 'deletedAt', 'updatedAt',
+]);
+
+const stableStringify = (value: any): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+        return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * FNV-1a of the signed fields. It detects edits, it is not meant to resist forgery.
+ */
+export const contentHash = (report: Report): string => {
+    const content = Object.fromEntries(Object.entries(report).filter(([key]) => !UNSIGNED_FIELDS.has(key)));
+    const text = stableStringify(content);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const isSignatureValid = (report: Report, signature: ReportSignature) => signature.contentHash === contentHash(report);
+
+/**
+ * The signature of each required role, split into one that still matches the content and one
+ * invalidated by a later edit.
+ */
+export const signOffStatus = (report: Report, roles: SignatoryRole[]) =>
+    roles.map(role => {
+        const signature = report.signatures?.find(s => s.role === role);
+        const valid = !!signature && isSignatureValid(report, signature);
+        return { role, signature: valid ? signature : undefined, invalidated: valid ? undefined : signature };
+    });
+
+export const missingSignatories = (report: Report, roles: SignatoryRole[]): SignatoryRole[] =>
+    signOffStatus(report, roles).filter(status => !status.signature).map(status => status.role);
+
+/**
+ * Drops the signatures the content no longer matches, e.g. when the form saves an edit.
+ */
+export const withoutInvalidSignatures = <R extends Report>(report: R): R =>
+    report.signatures ? { ...report, signatures: report.signatures.filter(signature => isSignatureValid(report, signature)) } : report;
+
+/**
+ * Signs the report as it is now for one role, replacing any earlier signature of that role.
+ */
+export const signReport = async (table: ReportTableName, report: Report, role: SignatoryRole, signerName: string, signature: string): Promise<void> => {
+    if (!signerName.trim()) throw new Error("Enter the signer's name.");
+    if (!signature) throw new Error('A signature is required.');
+    const signed: ReportSignature = { role, signerName: signerName.trim(), signature, signedAt: new Date().toISOString(), contentHash: contentHash(report) };
+    await saveReportWithAudit(table, { ...report, signatures: [...(report.signatures ?? []).filter(s => s.role !== role), signed] });
+};
@@ -0,0 +1,155 @@
+import { dbTyped } from './db';
+import { toBase64, fromBase64 } from './backupCrypto';
+import { assertAdmin } from './permissions';
+import { Supervisor, SupervisorRole } from '../types';
+
+export const MIN_PIN_LENGTH = 4;
+
+const PIN_ITERATIONS = 100000;
+
+// The signed-in account lives in sessionStorage, so closing the tab signs the supervisor out.
+const SESSION_KEY = 'teacherMonitor.signedInSupervisorId';
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 30 * 1000;
+
+export const SUPERVISOR_ROLE_LABELS: Record<SupervisorRole, string> = {
+    admin: 'Administrator',
+    hod: 'Head of Department',
+    observer: 'Observer',
+    readonly: 'Read-only',
+};
+
+export const SUPERVISOR_ROLE_DESCRIPTIONS: Record<SupervisorRole, string> = {
+    admin: 'Full access, including accounts, settings, backups and the recycle bin.',
+    hod: 'Writes reports and edits any report for teachers in their department.',
+    observer: 'Writes reports and edits only the reports they wrote.',
+    readonly: 'Views and exports reports but cannot change anything.',
+};
+
+export class PinError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PinError';
+    }
+}
+
+const hashPin = async (pin: string, salt: Uint8Array): Promise<string> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PIN_ITERATIONS }, material, 256);
+    return toBase64(new Uint8Array(bits));
+};
+
+const validatePin = (pin: string) => {
+    if (!/^\d+$/.test(pin) || pin.length < MIN_PIN_LENGTH) {
+        throw new PinError(`The PIN must be at least ${MIN_PIN_LENGTH} digits.`);
+    }
+};
+
+const createPinHash = async (pin: string): Promise<Pick<Supervisor, 'pinHash' | 'pinSalt'>> => {
+    validatePin(pin);
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    return { pinHash: await hashPin(pin, salt), pinSalt: toBase64(salt) };
+};
+
+const verifyPin = async (supervisor: Supervisor, pin: string) =>
+    (await hashPin(pin, fromBase64(supervisor.pinSalt))) === supervisor.pinHash;
+
+/**
+ * Creates or updates an account. A PIN is required for new accounts and optional when editing.
+ * The first account must be an administrator, and the last administrator cannot be demoted.
+ * Only administrators manage accounts, except for the first one, which anyone may create.
+ */
+export const saveSupervisor = async (supervisor: Omit<Supervisor, 'pinHash' | 'pinSalt'>, pin?: string): Promise<void> => {
+    // Passes while no accounts exist, so the first administrator can be set up.
+    await assertAdmin();
+    const name = supervisor.name.trim();
+    if (!name) throw new Error('Name is required.');
+    const accounts: Supervisor[] = await dbTyped.supervisors.toArray();
+    if (accounts.some(a => a.id !== supervisor.id && a.name.toLowerCase() === name.toLowerCase())) {
+        throw new Error(`An account called "${name}" already exists.`);
+    }
+    const existing = accounts.find(a => a.id === supervisor.id);
+    const otherAdmins = accounts.filter(a => a.id !== supervisor.id && a.role === 'admin');
+    if (supervisor.role !== 'admin' && otherAdmins.length === 0) {
+        throw new Error(existing ? 'At least one administrator account is required.' : 'The first account must be an administrator.');
+    }
+    if (supervisor.role === 'hod' && !supervisor.departmentId) {
+        throw new Error('Choose the department this head of department oversees.');
+    }
+    if (!existing && !pin) throw new PinError('A PIN is required.');
+
+    const credentials = pin ? await createPinHash(pin) : { pinHash: existing!.pinHash, pinSalt: existing!.pinSalt };
+    const { departmentId, ...rest } = supervisor;
+    await dbTyped.supervisors.put({
+        ...rest,
+        ...(supervisor.role === 'hod' ? { departmentId } : {}),
+        ...credentials,
+        name,
+        updatedAt: new Date().toISOString(),
+    });
+};
+
+/**
+ * Deletes an account. The last administrator cannot be deleted while other accounts remain,
+ * because nobody would be left to manage them.
+ */
+export const deleteSupervisor = async (id: string): Promise<void> => {
+    await assertAdmin();
+    const accounts: Supervisor[] = await dbTyped.supervisors.toArray();
+    const target = accounts.find(a => a.id === id);
+    if (target?.role === 'admin' && accounts.length > 1 && !accounts.some(a => a.id !== id && a.role === 'admin')) {
+        throw new Error('Make another account an administrator before deleting the last one.');
+    }
+    await dbTyped.supervisors.delete(id);
+    if (getSignedInSupervisorId() === id) signOut();
+};
+
+/**
+ * Changes a supervisor's own PIN after checking the current one.
+ */
+export const changePin = async (id: string, currentPin: string, newPin: string): Promise<void> => {
+    const supervisor: Supervisor | undefined = await dbTyped.supervisors.get(id);
+    if (!supervisor || !(await verifyPin(supervisor, currentPin))) {
+        throw new PinError('The current PIN is incorrect.');
+    }
+    await dbTyped.supervisors.update(id, { ...await createPinHash(newPin), updatedAt: new Date().toISOString() });
+};
+
+// --- Session ---
+
+let failedAttempts = 0;
+let lockedUntil = 0;
+
+export const getSignedInSupervisorId = (): string | null => sessionStorage.getItem(SESSION_KEY);
+
+/**
+ * Checks the PIN and starts a session. Repeated wrong PINs lock sign-in for a short while.
+ */
+export const signIn = async (id: string, pin: string): Promise<Supervisor> => {
+    if (Date.now() < lockedUntil) {
+        throw new PinError(`Too many incorrect PINs. Try again in ${Math.ceil((lockedUntil - Date.now()) / 1000)} seconds.`);
+    }
+    const supervisor: Supervisor | undefined = await dbTyped.supervisors.get(id);
+    if (!supervisor || !(await verifyPin(supervisor, pin))) {
+        failedAttempts++;
+        if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+            failedAttempts = 0;
+            lockedUntil = Date.now() + LOCKOUT_MS;
+        }
+        throw new PinError('Incorrect PIN.');
+    }
+    failedAttempts = 0;
+    sessionStorage.setItem(SESSION_KEY, supervisor.id);
+    return supervisor;
+};
+
+export const signOut = () => sessionStorage.removeItem(SESSION_KEY);
+
+/**
+ * Returns the signed-in account, or undefined when nobody is signed in.
+ */
+export const getSignedInSupervisor = async (): Promise<Supervisor | undefined> => {
+    const id = getSignedInSupervisorId();
+    return id ? dbTyped.supervisors.get(id) : undefined;
+};
@@ -0,0 +1,109 @@
+import { dbTyped, REPORT_TABLES } from './db';
+import { assertAdmin } from './permissions';
+import { AcademicTerm } from '../types';
+
+export const ACTIVE_TERM_KEY = 'activeTermId';
+
+// Value of the global term selector when reports from every term are shown.
+export const ALL_TERMS = 'all';
+
+export const formatTermLabel = (term: AcademicTerm) => `${term.name} ${term.academicYear}`;
+
+/**
+ * Sorts terms newest first.
+ */
+export const sortTerms = (terms: AcademicTerm[]) => [...terms].sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+/**
+ * Returns the term whose date range contains the given YYYY-MM-DD date.
+ */
+export const findTermForDate = (terms: AcademicTerm[], date: string): AcademicTerm | undefined =>
+    terms.find(term => term.startDate <= date && date <= term.endDate);
+
+const MS_PER_WEEK = 7 * 24 * 60 * 60 * 1000;
+
+const dayTime = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+/**
+ * The week of the term a YYYY-MM-DD date falls in, counting from 1. Dates before the term
+ * give 0 or less and dates after it run past termWeekCount.
+ */
+export const termWeek = (term: AcademicTerm, date: string): number =>
+    Math.floor((dayTime(date) - dayTime(term.startDate)) / MS_PER_WEEK) + 1;
+
+export const termWeekCount = (term: AcademicTerm): number =>
+    Math.max(1, Math.ceil((dayTime(term.endDate) - dayTime(term.startDate) + 1) / MS_PER_WEEK));
+
+/**
+ * Returns the terms whose date range overlaps the given term, ignoring the term itself.
+ */
+export const findOverlappingTerms = (terms: AcademicTerm[], term: AcademicTerm): AcademicTerm[] =>
+    terms.filter(other => other.id !== term.id && other.startDate <= term.endDate && term.startDate <= other.endDate);
+
+/**
+ * Sets termId on a report from its date. Call inside the transaction that saves the report.
+ */
+export const tagReportTerm = async <T extends { date: string; termId?: string }>(report: T): Promise<T> => {
+    const terms: AcademicTerm[] = await dbTyped.terms.toArray();
+    return { ...report, termId: findTermForDate(terms, report.date)?.id ?? '' };
+};
+
+/**
+ * Re-derives termId on every report after terms have been added, edited or removed.
+ * termId is derived data, so this does not touch updatedAt or the audit log.
+ */
+export const retagAllReports = async (): Promise<void> => {
+    const tables = [dbTyped.terms, ...REPORT_TABLES.map(table => dbTyped[table])];
+    await dbTyped.teachers.db.transaction('rw', tables, async () => {
+        const terms: AcademicTerm[] = await dbTyped.terms.toArray();
+        await Promise.all(REPORT_TABLES.map(table =>
+            dbTyped[table].toCollection().modify((report: { date: string; termId?: string }) => {
+                const termId = findTermForDate(terms, report.date)?.id ?? '';
+                if (report.termId !== termId) report.termId = termId;
+            })
+        ));
+    });
+};
+
+/**
+ * Creates or updates a term and re-tags reports. Overlapping terms are rejected because
+ * every report date must map to at most one term.
+ */
+export const saveTerm = async (term: AcademicTerm): Promise<void> => {
+    if (term.endDate < term.startDate) {
+        throw new Error('The term must end on or after its start date.');
+    }
+    await dbTyped.teachers.db.transaction('rw', dbTyped.terms, dbTyped.supervisors, async () => {
+        await assertAdmin();
+        const overlapping = findOverlappingTerms(await dbTyped.terms.toArray(), term);
+        if (overlapping.length > 0) {
+            throw new Error(`The dates overlap ${overlapping.map(formatTermLabel).join(', ')}.`);
+        }
+        await dbTyped.terms.put({ ...term, updatedAt: new Date().toISOString() });
+    });
+    await retagAllReports();
+};
+
+/**
+ * Deletes a term, clears it as the active term and untags its reports. Refused while the term has
+ * schemes of work, which work coverage reports point at.
+ */
+export const deleteTerm = async (id: string): Promise<void> => {
+    await dbTyped.teachers.db.transaction('rw', dbTyped.terms, dbTyped.settings, dbTyped.schemesOfWork, dbTyped.supervisors, async () => {
+        await assertAdmin();
+        const schemes = await dbTyped.schemesOfWork.where('termId').equals(id).count();
+        if (schemes > 0) {
+            throw new Error(`This term has ${schemes} scheme(s) of work. Delete them under Schemes of Work first.`);
+        }
+        await dbTyped.terms.delete(id);
+        const active = await dbTyped.settings.get(ACTIVE_TERM_KEY);
+        if (active?.value === id) await dbTyped.settings.delete(ACTIVE_TERM_KEY);
+    });
+    await retagAllReports();
+};
+
+/**
+ * Keeps only the reports in the selected term. Pass null to keep everything.
+ */
+export const filterByTerm = <T extends { termId?: string }>(reports: T[], term: AcademicTerm | null): T[] =>
+    term ? reports.filter(report => report.termId === term.id) : reports;